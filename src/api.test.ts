@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RETRY_POLICY, GrokApiClient, getRetryPolicy, setRetryPolicy } from './api';
+import { NetworkError } from './errors';
+
+// SSE body split at arbitrary points, like a real network stream
+function eventStream(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function chunk(delta: Record<string, unknown>, extra: Record<string, unknown> = {}): string {
+  return `data: ${JSON.stringify({ id: 'cmpl-1', created: 1, choices: [{ index: 0, delta }], ...extra })}\n\n`;
+}
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+const completion = { id: 'cmpl-1', created: 1, choices: [{ index: 0, message: { role: 'assistant', content: 'ok' } }] };
+
+afterEach(() => {
+  setRetryPolicy(DEFAULT_RETRY_POLICY);
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  localStorage.clear();
+});
+
+describe('chatCompletionStream', () => {
+  it('joins content deltas split across reads and reports each one', async () => {
+    const body = chunk({ content: 'Hel' }) + chunk({ content: 'lo' }) + 'data: [DONE]\n\n';
+    vi.stubGlobal('fetch', vi.fn(async () => eventStream([body.slice(0, 30), body.slice(30, 75), body.slice(75)])));
+
+    const client = new GrokApiClient('https://api.example.com/v1', 'key');
+    const deltas: string[] = [];
+    const response = await client.chatCompletionStream([{ role: 'user', content: 'Hi' }], 'grok-3', delta => deltas.push(delta));
+
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(response.choices[0].message.content).toBe('Hello');
+    expect(response.id).toBe('cmpl-1');
+  });
+
+  it('assembles streamed tool calls and takes usage from the final chunk', async () => {
+    const body = [
+      chunk({ tool_calls: [{ index: 0, id: 'call-1', function: { name: 'search', arguments: '{"q":' } }] }),
+      chunk({ tool_calls: [{ index: 0, function: { arguments: '"cats"}' } }] }),
+      chunk({}, { usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 } }),
+      'data: [DONE]\n\n',
+    ].join('');
+    vi.stubGlobal('fetch', vi.fn(async () => eventStream([body])));
+
+    const client = new GrokApiClient('https://api.example.com/v1', 'key');
+    const response = await client.chatCompletionStream([{ role: 'user', content: 'Hi' }], 'grok-3', () => {});
+
+    expect(response.choices[0].message.tool_calls).toEqual([
+      { id: 'call-1', type: 'function', function: { name: 'search', arguments: '{"q":"cats"}' } },
+    ]);
+    expect(response.usage.total_tokens).toBe(8);
+  });
+
+  it('skips malformed chunks instead of failing the reply', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const body = 'data: {not json\n\n' + chunk({ content: 'ok' }) + 'data: [DONE]\n\n';
+    vi.stubGlobal('fetch', vi.fn(async () => eventStream([body])));
+
+    const client = new GrokApiClient('https://api.example.com/v1', 'key');
+    const response = await client.chatCompletionStream([{ role: 'user', content: 'Hi' }], 'grok-3', () => {});
+
+    expect(response.choices[0].message.content).toBe('ok');
+  });
+});
+
+describe('retries', () => {
+  const chat = (client: GrokApiClient, retry?: boolean) =>
+    client.chatCompletion([{ role: 'user', content: 'Hi' }], 'grok-3', {}, { retry });
+
+  it('does not retry generations unless enabled', async () => {
+    expect(getRetryPolicy().retryGenerations).toBe(false);
+    const fetchMock = vi.fn(async () => jsonResponse(429, { error: { message: 'Slow down' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(chat(new GrokApiClient('https://api.example.com/v1', 'key'))).rejects.toThrow();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a generation on 429 and 503, honouring Retry-After, and cancels the discarded bodies', async () => {
+    setRetryPolicy({ retryGenerations: true, baseDelayMs: 1 });
+    const discarded = [jsonResponse(429, {}, { 'Retry-After': '0' }), jsonResponse(503, {})];
+    const cancels = discarded.map(response => vi.spyOn(response.body!, 'cancel'));
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(discarded[0])
+      .mockResolvedValueOnce(discarded[1])
+      .mockResolvedValueOnce(jsonResponse(200, completion));
+    vi.stubGlobal('fetch', fetchMock);
+    const onRetry = vi.fn();
+
+    const client = new GrokApiClient('https://api.example.com/v1', 'key');
+    const response = await client.chatCompletion([{ role: 'user', content: 'Hi' }], 'grok-3', {}, { onRetry });
+
+    expect(response.choices[0].message.content).toBe('ok');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenNthCalledWith(1, 1, 0);
+    expect(onRetry).toHaveBeenNthCalledWith(2, 2, expect.any(Number));
+    cancels.forEach(cancel => expect(cancel).toHaveBeenCalled());
+  });
+
+  it('does not retry a generation on a 500 or a network error, which may follow a billed request', async () => {
+    setRetryPolicy({ baseDelayMs: 1 });
+    const client = new GrokApiClient('https://api.example.com/v1', 'key');
+
+    const serverError = vi.fn(async () => jsonResponse(500, {}));
+    vi.stubGlobal('fetch', serverError);
+    await expect(chat(client, true)).rejects.toThrow();
+    expect(serverError).toHaveBeenCalledTimes(1);
+
+    const networkError = vi.fn(async () => { throw new TypeError('Failed to fetch'); });
+    vi.stubGlobal('fetch', networkError);
+    await expect(chat(client, true)).rejects.toBeInstanceOf(NetworkError);
+    expect(networkError).toHaveBeenCalledTimes(1);
+    await expect(chat(new GrokApiClient('https://api.example.com/v1', 'key', { id: 'local', name: 'Local LLM' }), true))
+      .rejects.toThrow('Could not reach the Local LLM API');
+  });
+
+  it('retries reads on server and network errors up to maxRetries', async () => {
+    setRetryPolicy({ baseDelayMs: 1, maxRetries: 2 });
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(jsonResponse(502, {}))
+      .mockResolvedValueOnce(jsonResponse(200, { object: 'list', data: [] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new GrokApiClient('https://api.example.com/v1', 'key');
+    await expect(client.listModels()).resolves.toEqual({ object: 'list', data: [] });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    fetchMock.mockReset().mockImplementation(async () => jsonResponse(502, {}));
+    await expect(client.listModels()).rejects.toThrow();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up when Retry-After asks for longer than maxDelayMs', async () => {
+    setRetryPolicy({ retryGenerations: true, maxDelayMs: 1000 });
+    const fetchMock = vi.fn(async () => jsonResponse(429, {}, { 'Retry-After': '60' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(chat(new GrokApiClient('https://api.example.com/v1', 'key'))).rejects.toThrow();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
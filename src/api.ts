@@ -1,20 +1,131 @@
 import type {
   ChatCompletionRequest,
   ChatCompletionResponse,
+  ChatCompletionChunk,
+  ChatCompletionUsage,
+  ImageEditRequest,
   ImageGenerationRequest,
   ImageGenerationResponse,
   VideoGenerationRequest,
   VideoGenerationResponse,
   VideoStatusResponse,
   ModelsResponse,
-  GrokMessage
+  LanguageModelsResponse,
+  ImageGenerationModelsResponse,
+  GrokMessage,
+  ToolCall,
+  ProviderProfile
 } from './types';
-import { recordChatUsage, recordImageUsage } from './storage';
+import { DEFAULT_PROVIDER_ID, recordChatUsage, recordImageUsage } from './storage';
+import { toApiMessages } from './messages';
+import { AuthError, NetworkError, TimeoutError, errorFromResponse } from './errors';
 
-const API_BASE_URL = 'https://api.x.ai/v1';
+// The provider profile a client talks to
+type ClientProvider = Pick<ProviderProfile, 'id' | 'name'>;
 
-class GrokApiClient {
-  private apiKey: string | null = null;
+const DEFAULT_BASE_URL = 'https://api.x.ai/v1';
+const DEFAULT_PROVIDER: ClientProvider = { id: DEFAULT_PROVIDER_ID, name: 'xAI' };
+
+// Retry behaviour for failed requests (429, 5xx and network errors)
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number; // First backoff delay, doubled on each attempt
+  maxDelayMs: number; // Upper bound for a single wait (incl. Retry-After)
+  retryGenerations: boolean; // Also retry paid generation calls (chat, image, video)
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  retryGenerations: false, // A retried generation may be billed twice - opt-in only
+};
+
+// Status codes worth retrying a read for
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+// Paid POSTs are only retried when the server says it did not process the request.
+// A 500/502/504 or a dropped connection may come after the work was done and billed.
+const RETRYABLE_POST_STATUS_CODES = [408, 429, 503];
+
+// Per-call request options (not part of the API request body)
+export interface RequestOptions {
+  signal?: AbortSignal; // Abort the in-flight request
+  retry?: boolean; // Override whether this call is retried
+  onRetry?: (attempt: number, delayMs: number) => void; // Called before each retry wait
+}
+
+// True when a request was cancelled through its AbortSignal
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Wait for a delay, rejecting early if the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+// Shared by every provider client
+let retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+export function setRetryPolicy(policy: Partial<RetryPolicy>): void {
+  retryPolicy = { ...retryPolicy, ...policy };
+}
+
+export function getRetryPolicy(): RetryPolicy {
+  return { ...retryPolicy };
+}
+
+export class GrokApiClient {
+  private apiKey: string | null;
+  private baseUrl!: string; // Set through setBaseUrl, which normalizes it
+  private provider: ClientProvider; // Usage is recorded and errors are worded for it
+
+  constructor(baseUrl: string = DEFAULT_BASE_URL, apiKey: string | null = null, provider = DEFAULT_PROVIDER) {
+    this.setBaseUrl(baseUrl);
+    this.apiKey = apiKey;
+    this.provider = provider;
+  }
+
+  setBaseUrl(url: string): void {
+    // Accept "https://host/v1/" as well as "https://host/v1"
+    this.baseUrl = url.replace(/\/+$/, '');
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
 
   setApiKey(key: string | null): void {
     this.apiKey = key;
@@ -24,76 +135,136 @@ class GrokApiClient {
     return this.apiKey;
   }
 
+  setProvider(provider: ClientProvider): void {
+    this.provider = { id: provider.id, name: provider.name };
+  }
+
+  getProviderId(): string {
+    return this.provider.id;
+  }
+
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    requestOptions: RequestOptions = {}
   ): Promise<T> {
+    const response = await this.fetchResponse(endpoint, options, requestOptions);
+    return response.json();
+  }
+
+  // Performs the fetch (with retries) and maps HTTP errors, leaving the body unread
+  private async fetchResponse(
+    endpoint: string,
+    options: RequestInit = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<Response> {
     if (!this.apiKey) {
-      throw new Error('API key not configured. Please set your Grok API key in settings.');
+      throw new AuthError('API key not configured. Please set your Grok API key in settings.');
     }
 
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
-        ...options.headers,
-      },
-    });
+    const { signal, onRetry } = requestOptions;
+    const maxRetries = requestOptions.retry ? retryPolicy.maxRetries : 0;
+    const isRead = (options.method || 'GET').toUpperCase() === 'GET';
+    const retryableStatusCodes = isRead ? RETRYABLE_STATUS_CODES : RETRYABLE_POST_STATUS_CODES;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}${endpoint}`, {
+          ...options,
+          signal,
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${this.apiKey}`,
+            ...options.headers,
+          },
+        });
+      } catch (error) {
+        // Network failure - fetch rejects with a TypeError. A POST may have
+        // reached the server before the connection dropped, so only reads retry.
+        if (!(error instanceof TypeError)) throw error;
+        if (!isRead || attempt >= maxRetries) {
+          throw new NetworkError(`Could not reach the ${this.provider.name} API. Check your connection and try again.`, {
+            apiMessage: error.message,
+          });
+        }
+        const delayMs = this.getBackoffDelay(attempt);
+        onRetry?.(attempt + 1, delayMs);
+        await sleep(delayMs, signal);
+        continue;
+      }
+
+      if (!response.ok && retryableStatusCodes.includes(response.status) && attempt < maxRetries) {
+        const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+        // Give up rather than block the UI when the server asks for a long wait
+        if (retryAfterMs === null || retryAfterMs <= retryPolicy.maxDelayMs) {
+          // Release the connection of the response we're throwing away
+          await response.body?.cancel().catch(() => {});
+          const delayMs = retryAfterMs ?? this.getBackoffDelay(attempt);
+          onRetry?.(attempt + 1, delayMs);
+          await sleep(delayMs, signal);
+          continue;
+        }
+      }
+
+      return this.checkResponse(response);
+    }
+  }
+
+  // Exponential backoff with full jitter
+  private getBackoffDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = retryPolicy;
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  }
 
+  // Whether paid generation calls should retry, unless the caller overrides it
+  private generationRequestOptions(requestOptions: RequestOptions): RequestOptions {
+    return { ...requestOptions, retry: requestOptions.retry ?? retryPolicy.retryGenerations };
+  }
+
+  private async checkResponse(response: Response): Promise<Response> {
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
       const apiMessage = errorData.error?.message || '';
-      
-      // Handle specific error codes with user-friendly messages
-      switch (response.status) {
-        case 400:
-          throw new Error(apiMessage || 'Bad request. Check your input and try again.');
-        case 401:
-          throw new Error('Invalid API key. Please check your key in Settings.');
-        case 402:
-          throw new Error('Insufficient credits. <a href="https://console.x.ai/" target="_blank">Add funds →</a>');
-        case 403:
-          throw new Error('Access denied. Your API key may not have permission for this action.');
-        case 404:
-          throw new Error('Resource not found. The requested endpoint or model may not exist.');
-        case 413:
-          throw new Error('Request too large. Try reducing your message length.');
-        case 422:
-          throw new Error(apiMessage || 'Invalid request parameters.');
-        case 429:
-          throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-        case 500:
-        case 502:
-        case 503:
-          throw new Error('xAI servers are experiencing issues. Please try again later.');
-        default:
-          throw new Error(apiMessage || `Request failed (${response.status})`);
-      }
+      const requestId = response.headers.get('x-request-id');
+      const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+
+      throw errorFromResponse(response.status, apiMessage, requestId, retryAfterMs, this.provider.name);
     }
 
-    return response.json();
+    return response;
+  }
+
+  async listModels(requestOptions: RequestOptions = {}): Promise<ModelsResponse> {
+    return this.request<ModelsResponse>('/models', {}, { retry: true, ...requestOptions });
+  }
+
+  // xAI model-info endpoints - include modalities and pricing
+  async listLanguageModels(requestOptions: RequestOptions = {}): Promise<LanguageModelsResponse> {
+    return this.request<LanguageModelsResponse>('/language-models', {}, { retry: true, ...requestOptions });
   }
 
-  async listModels(): Promise<ModelsResponse> {
-    return this.request<ModelsResponse>('/models');
+  async listImageGenerationModels(requestOptions: RequestOptions = {}): Promise<ImageGenerationModelsResponse> {
+    return this.request<ImageGenerationModelsResponse>('/image-generation-models', {}, { retry: true, ...requestOptions });
   }
 
   async chatCompletion(
     messages: GrokMessage[],
     model: string = 'grok-3',
-    options: Partial<ChatCompletionRequest> = {}
+    options: Partial<ChatCompletionRequest> = {},
+    requestOptions: RequestOptions = {}
   ): Promise<ChatCompletionResponse> {
     const body: ChatCompletionRequest = {
       model,
-      messages,
+      messages: toApiMessages(messages),
       ...options,
     };
 
     const response = await this.request<ChatCompletionResponse>('/chat/completions', {
       method: 'POST',
       body: JSON.stringify(body),
-    });
+    }, this.generationRequestOptions(requestOptions));
 
     // Track usage
     if (response.usage) {
@@ -101,17 +272,139 @@ class GrokApiClient {
         model,
         response.usage.prompt_tokens,
         response.usage.completion_tokens,
-        response.usage.total_tokens
+        response.usage.total_tokens,
+        this.provider.id
       );
     }
 
     return response;
   }
 
+  // Streaming chat completion - calls onDelta for each content token batch
+  async chatCompletionStream(
+    messages: GrokMessage[],
+    model: string = 'grok-3',
+    onDelta: (delta: string, content: string) => void,
+    options: Partial<ChatCompletionRequest> = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ChatCompletionResponse> {
+    const body: ChatCompletionRequest = {
+      model,
+      messages: toApiMessages(messages),
+      ...options,
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    const response = await this.fetchResponse('/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }, this.generationRequestOptions(requestOptions));
+
+    if (!response.body) {
+      throw new Error('Streaming is not supported in this browser.');
+    }
+
+    let id = '';
+    let created = 0;
+    let content = '';
+    let finishReason = 'stop';
+    let usage: ChatCompletionUsage | null = null;
+    const toolCalls: ToolCall[] = [];
+
+    for await (const chunk of this.readEventStream(response.body)) {
+      id = chunk.id || id;
+      created = chunk.created || created;
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+
+      const choice = chunk.choices?.[0];
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+      if (choice?.delta?.content) {
+        content += choice.delta.content;
+        onDelta(choice.delta.content, content);
+      }
+      for (const delta of choice?.delta?.tool_calls || []) {
+        const call = toolCalls[delta.index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        call.id = delta.id || call.id;
+        call.function.name += delta.function?.name || '';
+        call.function.arguments += delta.function?.arguments || '';
+      }
+    }
+
+    // Track usage from the final chunk
+    if (usage) {
+      recordChatUsage(
+        model,
+        usage.prompt_tokens,
+        usage.completion_tokens,
+        usage.total_tokens,
+        this.provider.id
+      );
+    }
+
+    return {
+      id,
+      object: 'chat.completion',
+      created,
+      model,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content,
+          refusal: null,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls.filter(Boolean) }),
+        },
+        finish_reason: finishReason,
+      }],
+      usage: usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    };
+  }
+
+  // Parse a server-sent event stream into chat completion chunks
+  private async *readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatCompletionChunk> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        // Keep the last (possibly incomplete) line for the next read
+        buffer = lines.pop() || '';
+
+        for (const rawLine of lines) {
+          const line = rawLine.trim();
+          if (!line.startsWith('data:')) continue;
+
+          const data = line.slice(5).trim();
+          if (data === '[DONE]') return;
+
+          try {
+            yield JSON.parse(data) as ChatCompletionChunk;
+          } catch {
+            console.warn('[GrokApi] Skipping malformed stream chunk:', data);
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
   async generateImage(
     prompt: string,
     model: string = 'grok-imagine-image',
-    options: Partial<ImageGenerationRequest> = {}
+    options: Partial<ImageGenerationRequest> = {},
+    requestOptions: RequestOptions = {}
   ): Promise<ImageGenerationResponse> {
     const body: ImageGenerationRequest = {
       prompt,
@@ -124,17 +417,45 @@ class GrokApiClient {
     const response = await this.request<ImageGenerationResponse>('/images/generations', {
       method: 'POST',
       body: JSON.stringify(body),
-    });
+    }, this.generationRequestOptions(requestOptions));
 
     // Track usage - use actual returned image count
-    recordImageUsage(model, response.data.length);
+    recordImageUsage(model, response.data.length, this.provider.id);
 
     return response;
   }
 
+  // Edits and variations: the same options as generation plus a source image
+  async editImage(
+    prompt: string,
+    imageUrl: string,
+    model: string = 'grok-imagine-image',
+    options: Partial<ImageGenerationRequest> = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ImageGenerationResponse> {
+    const body: ImageEditRequest = {
+      prompt,
+      model,
+      image: { url: imageUrl, type: 'image_url' },
+      response_format: 'url',
+      n: 1,
+      ...options,
+    };
+
+    const response = await this.request<ImageGenerationResponse>('/images/edits', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }, this.generationRequestOptions(requestOptions));
+
+    recordImageUsage(model, response.data.length, this.provider.id);
+
+    return response;
+  }
+
+  // Listing models works on any OpenAI-compatible endpoint
   async validateApiKey(): Promise<boolean> {
     try {
-      await this.request('/api-key');
+      await this.request('/models');
       return true;
     } catch {
       return false;
@@ -144,7 +465,8 @@ class GrokApiClient {
   // Video Generation API
   async generateVideo(
     prompt: string,
-    options: Partial<VideoGenerationRequest> = {}
+    options: Partial<VideoGenerationRequest> = {},
+    requestOptions: RequestOptions = {}
   ): Promise<VideoGenerationResponse> {
     const body: VideoGenerationRequest = {
       prompt,
@@ -156,30 +478,17 @@ class GrokApiClient {
     return this.request<VideoGenerationResponse>('/videos/generations', {
       method: 'POST',
       body: JSON.stringify(body),
-    });
+    }, this.generationRequestOptions(requestOptions));
   }
 
-  async getVideoStatus(requestId: string): Promise<VideoStatusResponse> {
-    if (!this.apiKey) {
-      throw new Error('API key not configured. Please set your Grok API key in settings.');
-    }
-
-    const response = await fetch(`${API_BASE_URL}/videos/${requestId}`, {
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-      },
-    });
+  async getVideoStatus(requestId: string, requestOptions: RequestOptions = {}): Promise<VideoStatusResponse> {
+    const response = await this.fetchResponse(`/videos/${requestId}`, {}, { retry: true, ...requestOptions });
 
     // 202 means still pending
     if (response.status === 202) {
       return { status: 'pending' };
     }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error?.message || `Failed to get video status (${response.status})`);
-    }
-
     // 200 means done - response contains video object directly
     const data = await response.json();
     return {
@@ -210,8 +519,29 @@ class GrokApiClient {
       await new Promise(resolve => setTimeout(resolve, intervalMs));
     }
     
-    throw new Error('Video generation timed out. Please try again.');
+    throw new TimeoutError('Video generation timed out. Please try again.');
+  }
+}
+
+// One client per provider profile, kept in sync with the saved profile
+const providerClients = new Map<string, GrokApiClient>();
+
+export function getApiClient(profile: ProviderProfile): GrokApiClient {
+  let client = providerClients.get(profile.id);
+  if (!client) {
+    client = new GrokApiClient();
+    providerClients.set(profile.id, client);
   }
+  client.setBaseUrl(profile.baseUrl);
+  client.setApiKey(profile.apiKey);
+  client.setProvider(profile);
+  return client;
 }
 
-export const grokApi = new GrokApiClient();
+// Client for the active provider profile (live binding - reassigned by useProvider)
+export let grokApi = new GrokApiClient();
+
+export function useProvider(profile: ProviderProfile): GrokApiClient {
+  grokApi = getApiClient(profile);
+  return grokApi;
+}
@@ -1,21 +1,128 @@
 import { icons } from './icons';
-import { grokApi } from './api';
+import { grokApi, isAbortError, useProvider, GrokApiClient, setRetryPolicy, getRetryPolicy } from './api';
 import * as storage from './storage';
 import * as cloudStorage from './cloudStorage';
 import { videoJobManager } from './videoJobManager';
 import { authService, type AuthUser } from './auth';
-import type { FavoritePost, GrokMessage, VideoJob } from './types';
-
-type ViewType = 'gallery' | 'chat' | 'image-gen' | 'settings' | 'post';
+import { ApiError, RateLimitError, type ApiErrorKind } from './errors';
+import * as models from './models';
+import * as pricing from './pricing';
+import { buildMessageContent, getMessageImages, getMessageText, readImageFile } from './messages';
+import {
+  deleteAttachments,
+  getAttachmentPath,
+  getTreeAttachmentUrls,
+  isAttachmentUrl,
+  resolveAttachments,
+  saveAttachment
+} from './attachments';
+import { chatWithTools, describeToolResult } from './tools';
+import { parseSchema, validate } from './jsonSchema';
+import { renderMarkdown, renderTranscript } from './markdown';
+import { generateChatTitle } from './chatTitles';
+import { getChatFolders, getChatTime, groupChatsByDate, searchChats } from './chatHistory';
+import { MAX_COMPARE_MODELS, getComparisonModelLabel, runComparison } from './compare';
+import { buildContextMessages, getContextBudget, planContext, summarizeDroppedTurns, type ContextPlan } from './context';
+import { DEFAULT_PERSONA_AVATAR, exportPersonas, importPersonas } from './personas';
+import { exportTemplates, fillTemplate, getTemplateKindLabel, getTemplateVariables, importTemplates } from './templates';
+import {
+  MAX_BATCH_PROMPTS,
+  countBatchImages,
+  estimateBatchCost,
+  getBatchProgress,
+  imageBatchQueue,
+  parseBatchPrompts,
+  type BatchPromptInput
+} from './imageBatch';
+import * as mediaStore from './mediaStore';
+import { DEFAULT_STYLE_GUIDE, diffWords, enhancePrompt } from './promptEnhancer';
+import { getSignedUrl } from './mediaStorage';
+import { mediaBackfill, type BackfillProgress } from './mediaStore';
+import {
+  appendToActivePath,
+  cloneChatTree,
+  countDescendants,
+  createChatTree,
+  getActiveMessages,
+  getActivePath,
+  getSiblingIds,
+  getTurnStart,
+  removeSubtree,
+  selectSibling,
+  truncateActivePath
+} from './chatTree';
+import type {
+  ChatCompletionRequest,
+  ChatSettings,
+  ChatTree,
+  Comparison,
+  ComparisonAnswer,
+  ContextStrategy,
+  FavoritePost,
+  GrokMessage,
+  ImageBatch,
+  MessageMeta,
+  ModelKind,
+  ModelPricing,
+  ProviderProfile,
+  Persona,
+  PromptTemplate,
+  SavedSchema,
+  TemplateKind,
+  VideoJob
+} from './types';
+
+type ViewType = 'gallery' | 'chat' | 'compare' | 'image-gen' | 'settings' | 'post';
+
+// Source image for an edit: a gallery post or an uploaded file (as a data URL)
+interface ImageSource {
+  postId?: string;
+  previewUrl: string;
+  label: string;
+}
 type MediaViewType = 'image' | 'video';
 type AuthModalMode = 'login' | 'signup' | 'magic-link' | null;
+type ToastAction = { label: string; href?: string; onClick?: () => void };
+
+const XAI_CONSOLE_URL = 'https://console.x.ai/';
+
+// Starting point for a new structured output schema
+const SCHEMA_TEMPLATE = `{
+  "type": "object",
+  "properties": {
+    "items": {
+      "type": "array",
+      "items": { "type": "string" }
+    }
+  },
+  "required": ["items"],
+  "additionalProperties": false
+}`;
 
 export class App {
   private currentView: ViewType = 'gallery';
-  private chatMessages: GrokMessage[] = [];
+  private chatTree: ChatTree = createChatTree(); // Every branch of the open chat
   private currentChatId: string | null = null;
   private currentPostId: string | null = null;
   private isLoading = false;
+  private streamingContent = ''; // Partial assistant reply while streaming
+  private abortController: AbortController | null = null; // In-flight chat/image request
+  private pendingChatInput = ''; // Restored into the chat input after a cancelled send
+  private pendingChatImages: string[] = []; // Images attached to the next chat message
+  private editingSchemaId: string | null = null; // Schema open in the editor ('new' = unsaved)
+  private chatSettingsOpen = false;
+  private draftChatSettings: ChatSettings = { ...storage.DEFAULT_CHAT_SETTINGS }; // Settings for a chat not saved yet
+  private draftPersonaId: string | null = null; // Persona picked for a chat not saved yet
+  private editingMessageIndex: number | null = null; // User message being edited in place
+  private draftChatTitle: string | null = null; // Title for a chat not saved yet
+  private renamingChat = false;
+  private chatSearchQuery = '';
+  private movingChatId: string | null = null; // Chat whose folder is being picked
+  private collapsedFolders = new Set<string>();
+  private chatListOpen = false; // History panel shown over the chat on small screens
+  private retryStatus = ''; // "Retrying in Ns" message while a request backs off
+  private toolStatus = ''; // Tool the model is currently running, e.g. "Image generation..."
+  private retryCountdownId: number | null = null;
   private sidebarCollapsed = false;
   
   // Post media viewer state
@@ -26,6 +133,42 @@ export class App {
   private imageGenPrompt: string = '';
   private imageGenResults: Array<{ url: string; revised_prompt?: string }> = [];
   private imageGenSavedUrls: Set<string> = new Set();
+  private imageGenModel: string = '';
+  private imageGenProviderId: string = '';
+  private imageGenMode: 'single' | 'batch' = 'single';
+  private imageGenSource: ImageSource | null = null; // Image to edit instead of generating from scratch
+  private imageGenParentPostId = ''; // Source post of the cached results, linked when they are saved
+
+  // Prompt enhancer state
+  private promptEnhancement: { original: string; enhanced: string; editing: boolean } | null = null; // Awaiting accept/edit/reject
+  private acceptedEnhancement: { original: string; enhanced: string } | null = null; // Accepted prompt and the user's own prompt behind it
+  private imageGenOriginalPrompt = ''; // Same, for the cached results - saved with them
+  private isEnhancing = false;
+  private enhanceStatus = ''; // Retry message while the enhancer backs off
+  private enhanceAbortController: AbortController | null = null; // Separate from abortController, so chat or compare can run meanwhile
+
+  // Batch image generation state
+  private batchPromptText = '';
+  private batchAutoSave = true;
+  private batchStatus: ImageBatch['status'] | null = null; // Last seen, to announce when a run ends
+  private backfillProgress: BackfillProgress | null = null; // Last seen, to report failures when a run ends
+
+  // Model comparison state
+  private comparePrompt = '';
+  private compareSystemPrompt = '';
+  private comparison: Comparison | null = null; // Latest run, or the saved comparison being viewed
+  private comparisonPostId: string | null = null; // Saved post of the comparison shown
+  private compareProgress: Array<{ model: string; answer: ComparisonAnswer | null }> | null = null; // Columns while running
+  
+  // Settings: provider profile shown in the editor ('new' = unsaved profile)
+  private editingProviderId: string | null = null;
+  // Settings: persona shown in the editor ('new' = unsaved persona)
+  private editingPersonaId: string | null = null;
+  // Settings: prompt template shown in the editor ('new' = unsaved template)
+  private editingTemplateId: string | null = null;
+
+  // Template whose variables are being filled in before use
+  private activeTemplate: { id: string; values: Record<string, string> } | null = null;
   
   // Auth state
   private currentUser: AuthUser | null = null;
@@ -37,11 +180,10 @@ export class App {
   private rootElement: Element | null = null;
 
   constructor() {
-    // Initialize API key from storage
-    const savedApiKey = storage.getApiKey();
-    if (savedApiKey) {
-      grokApi.setApiKey(savedApiKey);
-    }
+    // Initialize API client for the active provider profile
+    useProvider(storage.getActiveProvider());
+    this.loadModels();
+    setRetryPolicy({ retryGenerations: storage.getRetryGenerations() });
     
     // Restore sidebar state
     this.sidebarCollapsed = storage.getSidebarCollapsed();
@@ -50,8 +192,8 @@ export class App {
     this.currentChatId = storage.getCurrentChatId();
     if (this.currentChatId) {
       const chat = storage.getChat(this.currentChatId);
-      if (chat?.messages) {
-        this.chatMessages = [...chat.messages];
+      if (chat) {
+        this.chatTree = storage.getChatTree(chat);
       } else {
         // Chat was deleted, start fresh
         this.currentChatId = null;
@@ -65,6 +207,10 @@ export class App {
       this.imageGenPrompt = imageGenCache.prompt;
       this.imageGenResults = imageGenCache.results;
       this.imageGenSavedUrls = new Set(imageGenCache.savedUrls);
+      this.imageGenModel = imageGenCache.model || '';
+      this.imageGenProviderId = imageGenCache.providerId || '';
+      this.imageGenParentPostId = imageGenCache.parentPostId || '';
+      this.imageGenOriginalPrompt = imageGenCache.originalPrompt || '';
     }
     
     // Start video job manager and subscribe to updates
@@ -72,6 +218,17 @@ export class App {
     videoJobManager.onUpdate((job: VideoJob) => {
       this.handleVideoJobUpdate(job);
     });
+
+    // A batch cut off by a reload waits, paused, for the user to resume it
+    imageBatchQueue.restore();
+    this.batchStatus = imageBatchQueue.getBatch()?.status ?? null;
+    imageBatchQueue.onUpdate((batch) => {
+      this.handleImageBatchUpdate(batch);
+    });
+
+    mediaBackfill.onUpdate((progress) => {
+      this.handleMediaBackfillUpdate(progress);
+    });
     
     // Initialize auth and sync
     this.initAuth();
@@ -99,6 +256,9 @@ export class App {
     
     // Re-render to show auth state
     this.fullRender();
+
+    // Keep local copies of media saved before they were stored
+    mediaBackfill.run();
   }
   
   private async syncWithCloud(): Promise<void> {
@@ -118,8 +278,69 @@ export class App {
       this.isSyncing = false;
       this.fullRender();
     }
+
+    // Posts from other devices have no local copies yet
+    mediaBackfill.run();
+  }
+
+  // Fill in the Offline Media summary in settings
+  private async refreshMediaUsage(): Promise<void> {
+    const progress = mediaBackfill.getProgress();
+    let text: string;
+    try {
+      const [usage, missing] = await Promise.all([mediaStore.getMediaUsage(), mediaStore.countLinkOnlyMedia()]);
+      text = `${usage.count} file${usage.count === 1 ? '' : 's'} stored (${(usage.bytes / 1024 / 1024).toFixed(1)} MB)`
+        + (progress ? ` · downloading ${progress.done + 1} of ${progress.total}...` : missing > 0 ? ` · ${missing} only saved as links` : '');
+    } catch (error) {
+      console.error('[App] Failed to read media usage:', error);
+      text = 'Local media storage is not available in this browser';
+    }
+
+    const usageEl = document.getElementById('media-usage');
+    if (usageEl) usageEl.textContent = text;
+    const backfillBtn = document.getElementById('backfill-media') as HTMLButtonElement | null;
+    if (backfillBtn) backfillBtn.disabled = progress !== null;
+  }
+
+  private handleMediaBackfillUpdate(progress: BackfillProgress | null): void {
+    const previous = this.backfillProgress;
+    this.backfillProgress = progress;
+    // Downloads run in the background, so failures would otherwise go unnoticed
+    if (!progress && previous && previous.failed > 0) {
+      const { failed } = previous;
+      this.showToast(
+        `${failed} saved file${failed === 1 ? '' : 's'} could not be stored offline - the link${failed === 1 ? ' has' : 's have'} probably expired ` +
+        'or the host blocks downloads. Retry from Settings → Offline Media.',
+        'error'
+      );
+    }
+
+    if (this.currentView === 'settings') {
+      this.refreshMediaUsage();
+    } else if (!progress && (this.currentView === 'gallery' || this.currentView === 'post')) {
+      this.hydrateMedia();
+    }
   }
   
+  private handleImageBatchUpdate(batch: ImageBatch | null): void {
+    const previousStatus = this.batchStatus;
+    this.batchStatus = batch?.status ?? null;
+    this.refreshSidebar();
+
+    if (batch && previousStatus === 'running' && batch.status === 'done') {
+      const { images } = getBatchProgress(batch);
+      this.showToast(`Batch finished: ${images} image${images === 1 ? '' : 's'}`, 'success');
+    } else if (batch?.pauseReason && previousStatus === 'running' && batch.status === 'paused') {
+      this.showToast(`Batch paused: ${batch.pauseReason}`, 'error');
+    }
+
+    if (this.currentView === 'image-gen' && this.imageGenMode === 'batch') {
+      this.refreshBatchStatus();
+    } else if (this.currentView === 'gallery' && batch?.autoSave) {
+      this.refreshView();
+    }
+  }
+
   private handleVideoJobUpdate(job: VideoJob): void {
     // Refresh gallery view to update spinner status
     if (this.currentView === 'gallery') {
@@ -136,14 +357,14 @@ export class App {
         this.currentVideoIndex = Math.max(0, videos.length - 1);
         this.showToast('Video generated successfully!', 'success');
       } else if (job.status === 'error') {
-        this.showToast(job.errorMessage || 'Video generation failed', 'error');
+        this.showToast(job.errorMessage || 'Video generation failed', 'error', this.getErrorAction(job.errorKind));
       }
       this.refreshView();
     } else if (job.status === 'done') {
       // Notify even when not viewing the post
       this.showToast('Video ready! Check the post to view it.', 'success');
     } else if (job.status === 'error') {
-      this.showToast(job.errorMessage || 'Video generation failed', 'error');
+      this.showToast(job.errorMessage || 'Video generation failed', 'error', this.getErrorAction(job.errorKind));
     }
   }
 
@@ -264,6 +485,10 @@ export class App {
             ${icons.messageSquare}
             <span>Chat</span>
           </button>
+          <button class="nav-item ${this.currentView === 'compare' ? 'active' : ''}" data-view="compare">
+            ${icons.columns}
+            <span>Compare</span>
+          </button>
           <button class="nav-item ${this.currentView === 'image-gen' ? 'active' : ''}" data-view="image-gen">
             ${icons.image}
             <span>Image Gen</span>
@@ -359,6 +584,10 @@ export class App {
             ${icons.messageSquare}
             <span>Chat</span>
           </button>
+          <button class="mobile-nav-item ${this.currentView === 'compare' ? 'active' : ''}" data-view="compare">
+            ${icons.columns}
+            <span>Compare</span>
+          </button>
           <button class="mobile-nav-item ${this.currentView === 'image-gen' ? 'active' : ''}" data-view="image-gen">
             ${icons.image}
             <span>Image</span>
@@ -430,6 +659,8 @@ export class App {
         return this.renderGallery();
       case 'chat':
         return this.renderChat();
+      case 'compare':
+        return this.renderCompare();
       case 'image-gen':
         return this.renderImageGen();
       case 'settings':
@@ -499,7 +730,7 @@ export class App {
     return `
       <article class="gallery-card" data-post-id="${post.id}">
         <div class="card-image-container">
-          <img src="${post.imageUrl}" alt="Generated image" class="card-image" loading="lazy">
+          <img src="${this.getMediaSrc(mediaStore.getImageKey(post.id), post.imageUrl)}" data-media-key="${mediaStore.getImageKey(post.id)}" ${this.renderMediaPath(post.imagePath)} alt="Generated image" class="card-image" loading="lazy">
           ${isGeneratingVideo ? `
             <div class="card-video-overlay">
               <div class="card-video-spinner">
@@ -528,76 +759,139 @@ export class App {
   }
 
   private renderChat(): string {
-    const savedChats = storage.getSavedChats();
     const currentChat = this.currentChatId ? storage.getChat(this.currentChatId) : null;
     // Model comes from current chat if loaded, otherwise from global storage
-    const selectedModel = currentChat?.model || storage.getSelectedModel();
-
-    // Build chat selector options
-    const chatOptions = savedChats.map(chat => {
-      const title = chat.title || chat.prompt.slice(0, 40) || 'Untitled';
-      const isSelected = chat.id === this.currentChatId;
-      return `<option value="${chat.id}" ${isSelected ? 'selected' : ''}>${this.escapeHtml(title)}${title.length >= 40 ? '...' : ''}</option>`;
-    }).join('');
+    const selectedModel = currentChat?.model || this.resolveSelectedModel('chat', storage.getSelectedModel());
+    const activeSchema = storage.getActiveSchema();
+    const persona = this.draftPersonaId ? storage.getPersona(this.draftPersonaId) : undefined;
+    const settings = this.getCurrentChatSettings();
+    const contextPlan = planContext(
+      getActivePath(this.chatTree),
+      settings.systemPrompt,
+      getContextBudget(selectedModel, settings.maxTokens)
+    );
 
     return `
-      <div class="chat-view">
-        <div class="chat-header">
-          <div class="chat-selector">
-            <select class="input input-select" id="chat-selector">
-              <option value="new" ${!this.currentChatId ? 'selected' : ''}>✨ New Chat</option>
-              ${savedChats.length > 0 ? `<optgroup label="Saved Chats">${chatOptions}</optgroup>` : ''}
-            </select>
-            ${this.currentChatId ? `
-              <button class="btn btn-danger btn-icon" id="delete-current-chat" title="Delete this chat">
-                ${icons.trash}
+      <div class="chat-layout ${this.chatListOpen ? 'list-open' : ''}">
+        ${this.renderChatList()}
+        <div class="chat-view">
+          <div class="chat-header">
+            <button class="btn btn-ghost btn-icon chat-list-toggle" id="toggle-chat-list" title="Chat history">
+              ${icons.panelLeft}
+            </button>
+            ${this.currentChatId || this.chatMessages.length > 0 ? this.renderChatTitle(currentChat) : ''}
+            <div class="chat-selector">
+              ${!this.currentChatId && this.chatMessages.length === 0 ? `
+                <select class="input input-select persona-select" id="persona-select" title="Persona for this chat">
+                  <option value="">${DEFAULT_PERSONA_AVATAR} Default assistant</option>
+                  ${storage.getPersonas().map(p => `
+                    <option value="${this.escapeAttribute(p.id)}" ${p.id === persona?.id ? 'selected' : ''}>
+                      ${this.escapeHtml(p.avatar)} ${this.escapeHtml(p.name)}
+                    </option>
+                  `).join('')}
+                  <option value="manage">Manage personas...</option>
+                </select>
+              ` : ''}
+              <button class="btn btn-ghost btn-icon ${this.chatSettingsOpen ? 'active' : ''}" id="toggle-chat-settings" title="Chat settings">
+                ${icons.settings}
               </button>
-            ` : ''}
+              ${this.chatMessages.length > 0 ? `
+                <button class="btn btn-ghost btn-icon" id="export-chat" title="Export transcript">
+                  ${icons.download}
+                </button>
+              ` : ''}
+              ${this.currentChatId ? `
+                <button class="btn btn-danger btn-icon" id="delete-current-chat" title="Delete this chat">
+                  ${icons.trash}
+                </button>
+              ` : ''}
+            </div>
           </div>
-        </div>
+          ${this.chatSettingsOpen ? this.renderChatSettings(selectedModel) : ''}
         
-        <div class="chat-container">
-          <div class="chat-messages" id="chat-messages">
-            ${this.chatMessages.length === 0 
-              ? `<div class="empty-state">
-                   ${icons.sparkles}
-                   <h3>Start a conversation</h3>
-                   <p>Type a message below to begin chatting with Grok</p>
-                 </div>`
-              : this.chatMessages.map(msg => `
-                  <div class="message message-${msg.role}">
-                    <div class="message-content">${this.escapeHtml(msg.content)}</div>
-                  </div>
-                `).join('')
-            }
-            ${this.isLoading ? `
-              <div class="loading">
-                ${icons.loader}
-                <span>Grok is thinking...</span>
-              </div>
-            ` : ''}
-          </div>
-          <div class="chat-input-area">
-            <div class="chat-input-container">
-              <textarea 
-                class="input" 
-                id="chat-input" 
-                placeholder="Type your message..."
-                rows="3"
-              ></textarea>
-              <button class="btn btn-primary" id="send-message" ${this.isLoading ? 'disabled' : ''}>
-                ${icons.send}
-              </button>
+          <div class="chat-container">
+            <div class="chat-messages" id="chat-messages">
+              ${this.chatMessages.length === 0 
+                ? `<div class="empty-state">
+                     ${icons.sparkles}
+                     <h3>${persona ? `${this.escapeHtml(persona.avatar)} ${this.escapeHtml(persona.name)}` : 'Start a conversation'}</h3>
+                     <p>Type a message below to begin chatting with ${persona ? this.escapeHtml(persona.name) : 'Grok'}</p>
+                   </div>`
+                : this.renderMessageList(contextPlan)
+              }
+              ${this.isLoading && this.streamingContent ? `
+                <div class="message message-assistant streaming">
+                  <div class="message-content markdown" id="streaming-message">${renderMarkdown(this.streamingContent)}</div>
+                </div>
+              ` : this.isLoading ? `
+                <div class="loading">
+                  ${icons.loader}
+                  <span id="loading-status">${this.retryStatus || this.toolStatus || 'Grok is thinking...'}</span>
+                </div>
+              ` : ''}
             </div>
-            <div class="chat-input-controls">
-              <select class="input input-select" id="chat-model">
-                <option value="grok-4" ${selectedModel === 'grok-4' ? 'selected' : ''}>Grok 4</option>
-                <option value="grok-3" ${selectedModel === 'grok-3' ? 'selected' : ''}>Grok 3</option>
-                <option value="grok-3-mini" ${selectedModel === 'grok-3-mini' ? 'selected' : ''}>Grok 3 Mini</option>
-              </select>
-              <button class="btn btn-success" id="save-chat" ${this.chatMessages.length < 2 ? 'disabled' : ''}>
-                ${this.currentChatId ? icons.heartFilled : icons.heart} ${this.currentChatId ? 'Saved' : 'Save'}
-              </button>
+            <div class="chat-input-area" id="chat-input-area">
+              ${this.editingSchemaId ? this.renderSchemaEditor() : ''}
+              ${this.renderTemplateForm('chat')}
+              ${this.pendingChatImages.length > 0 ? `
+                <div class="chat-attachments">
+                  ${this.pendingChatImages.map((url, index) => `
+                    <div class="chat-attachment">
+                      <img ${this.renderChatImageSource(url)} alt="Attached image">
+                      <button class="chat-attachment-remove" data-attachment-index="${index}" title="Remove image">
+                        ${icons.x}
+                      </button>
+                    </div>
+                  `).join('')}
+                </div>
+              ` : ''}
+              <div class="chat-input-container">
+                <textarea 
+                  class="input" 
+                  id="chat-input" 
+                  placeholder="Type your message, or paste or drop an image..."
+                  rows="3"
+                >${this.escapeHtml(this.pendingChatInput)}</textarea>
+                ${this.isLoading ? `
+                  <button class="btn btn-danger" id="stop-generation" title="Stop generating">
+                    ${icons.stop}
+                  </button>
+                ` : `
+                  <button class="btn btn-primary" id="send-message">
+                    ${icons.send}
+                  </button>
+                `}
+              </div>
+              <div class="chat-input-controls">
+                <button class="btn btn-ghost btn-icon" id="attach-image" title="Attach image" ${this.isLoading ? 'disabled' : ''}>
+                  ${icons.paperclip}
+                </button>
+                <input type="file" id="chat-image-input" accept="image/*" multiple hidden>
+                ${this.renderTemplateSelect('chat')}
+                <select class="input input-select" id="chat-model">
+                  ${this.renderModelOptions('chat', selectedModel)}
+                </select>
+                <select class="input input-select" id="chat-schema" title="Reply format">
+                  <option value="">Free text</option>
+                  ${storage.getSchemas().map(schema => `
+                    <option value="${this.escapeAttribute(schema.id)}" ${activeSchema?.id === schema.id ? 'selected' : ''}>
+                      JSON: ${this.escapeHtml(schema.name)}
+                    </option>
+                  `).join('')}
+                </select>
+                <button class="btn btn-ghost btn-icon ${this.editingSchemaId ? 'active' : ''}" id="toggle-schema-editor" title="Edit JSON schemas">
+                  ${icons.braces}
+                </button>
+                ${this.chatMessages.length > 0 ? `
+                  <span class="context-meter ${contextPlan.tokens > contextPlan.budget * 0.8 ? 'text-warning' : ''}"
+                    title="Estimated tokens sent with your next message, out of what ${this.escapeAttribute(models.getModelCapabilities(selectedModel).label)} can take">
+                    ~${this.formatTokens(contextPlan.tokens)} / ${this.formatTokens(contextPlan.budget)}
+                  </span>
+                ` : ''}
+                <button class="btn btn-success" id="save-chat" ${this.chatMessages.length < 2 ? 'disabled' : ''}>
+                  ${this.currentChatId ? icons.heartFilled : icons.heart} ${this.currentChatId ? 'Saved' : 'Save'}
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -605,617 +899,2926 @@ export class App {
     `;
   }
 
-  private renderImageGen(): string {
-    const imageCount = storage.getImageCount();
-    const aspectRatio = storage.getAspectRatio();
-    
+  private renderChatList(): string {
+    const folders = getChatFolders(storage.getSavedChats());
+
     return `
-      <div class="page-header">
-        <h2>Image Generation</h2>
-        <p>Create images with Grok's imagination</p>
-      </div>
-      <section class="card stack">
-        <div class="input-group">
-          <label for="image-prompt">Image Prompt</label>
-          <textarea 
-            class="input" 
-            id="image-prompt" 
-            placeholder="Describe the image you want to generate...\n\nTip: Be specific about style, colors, composition, lighting, and mood for better results."
-            rows="4"
-          >${this.escapeHtml(this.imageGenPrompt)}</textarea>
+      <aside class="chat-list-panel">
+        <button class="btn btn-primary" id="new-chat">
+          ${icons.plus} New Chat
+        </button>
+        <div class="chat-search">
+          ${icons.search}
+          <input type="search" class="input" id="chat-search" placeholder="Search chats" value="${this.escapeAttribute(this.chatSearchQuery)}">
         </div>
-        
-        <div class="row">
-          <div class="input-group flex-1">
-            <label for="image-count">Images</label>
-            <select class="input input-select" id="image-count">
-              <option value="1" ${imageCount === 1 ? 'selected' : ''}>1</option>
-              <option value="2" ${imageCount === 2 ? 'selected' : ''}>2</option>
-              <option value="3" ${imageCount === 3 ? 'selected' : ''}>3</option>
-              <option value="4" ${imageCount === 4 ? 'selected' : ''}>4</option>
-            </select>
-          </div>
-          
-          <div class="input-group flex-1">
-            <label for="aspect-ratio">Aspect Ratio</label>
-            <select class="input input-select" id="aspect-ratio">
-              <option value="1:1" ${aspectRatio === '1:1' ? 'selected' : ''}>1:1 (Square)</option>
-              <option value="16:9" ${aspectRatio === '16:9' ? 'selected' : ''}>16:9 (Landscape)</option>
-              <option value="9:16" ${aspectRatio === '9:16' ? 'selected' : ''}>9:16 (Portrait)</option>
-              <option value="4:3" ${aspectRatio === '4:3' ? 'selected' : ''}>4:3 (Classic)</option>
-              <option value="3:4" ${aspectRatio === '3:4' ? 'selected' : ''}>3:4 (Portrait)</option>
-            </select>
-          </div>
+        <div class="chat-list" id="chat-list">
+          ${this.renderChatListItems()}
         </div>
-        
-        <button class="btn btn-primary w-full" id="generate-image" ${this.isLoading ? 'disabled' : ''}>
-          ${this.isLoading ? icons.loader : icons.sparkles}
-          ${this.isLoading ? 'Generating...' : 'Generate Image'}
-        </button>
-    </section>
-      <div id="generated-image-result">${this.renderCachedImageResults()}</div>
+        <datalist id="chat-folder-names">
+          ${folders.map(folder => `<option value="${this.escapeAttribute(folder)}"></option>`).join('')}
+        </datalist>
+      </aside>
     `;
   }
 
-  private renderCachedImageResults(): string {
-    if (this.imageGenResults.length === 0) return '';
-    
-    const images = this.imageGenResults;
-    const prompt = this.imageGenPrompt;
-    const allSaved = images.every(img => this.imageGenSavedUrls.has(img.url));
-    
-    const imagesHtml = images.map((img, idx) => {
-      const isSaved = this.imageGenSavedUrls.has(img.url);
-      return `
-        <div class="generated-image-item">
-          <img src="${img.url}" alt="Generated image ${idx + 1}" class="generated-image">
-          <div class="image-actions">
-            <button class="btn btn-success btn-sm save-single-image" data-url="${img.url}" data-prompt="${img.revised_prompt || prompt}" ${isSaved ? 'disabled' : ''}>
-              ${isSaved ? icons.heartFilled : icons.heart} ${isSaved ? 'Saved' : 'Save'}
-            </button>
-            <a href="${img.url}" target="_blank" class="btn btn-ghost btn-sm">
-              ${icons.externalLink} Open
-            </a>
-          </div>
+  /**
+   * Saved chats: search results, or pinned chats, then folders, then the rest by date
+   */
+  private renderChatListItems(): string {
+    const chats = storage.getSavedChats();
+    if (chats.length === 0) {
+      return `<p class="chat-list-empty">Saved chats show up here</p>`;
+    }
+
+    if (this.chatSearchQuery.trim()) {
+      const results = searchChats(chats, this.chatSearchQuery);
+      return results.length > 0
+        ? results.map(({ chat, snippet }) => this.renderChatListItem(chat, snippet)).join('')
+        : `<p class="chat-list-empty">No chats match "${this.escapeHtml(this.chatSearchQuery.trim())}"</p>`;
+    }
+
+    const byTime = (a: FavoritePost, b: FavoritePost) => getChatTime(b) - getChatTime(a);
+    const pinned = chats.filter(chat => chat.pinned).sort(byTime);
+    const unpinned = chats.filter(chat => !chat.pinned);
+
+    return `
+      ${pinned.length > 0 ? `
+        <div class="chat-list-group">
+          <h4>${icons.pin} Pinned</h4>
+          ${pinned.map(chat => this.renderChatListItem(chat)).join('')}
         </div>
-      `;
-    }).join('');
-    
+      ` : ''}
+      ${getChatFolders(unpinned).map(folder => `
+        <details class="chat-folder" data-folder="${this.escapeAttribute(folder)}" ${this.collapsedFolders.has(folder) ? '' : 'open'}>
+          <summary>${icons.folder} ${this.escapeHtml(folder)}</summary>
+          ${unpinned.filter(chat => chat.folder === folder).sort(byTime).map(chat => this.renderChatListItem(chat)).join('')}
+        </details>
+      `).join('')}
+      ${groupChatsByDate(unpinned.filter(chat => !chat.folder)).map(group => `
+        <div class="chat-list-group">
+          <h4>${group.label}</h4>
+          ${group.chats.map(chat => this.renderChatListItem(chat)).join('')}
+        </div>
+      `).join('')}
+    `;
+  }
+
+  private renderChatListItem(chat: FavoritePost, snippet: string | null = null): string {
+    const title = chat.title || chat.prompt.slice(0, 50) || 'Untitled';
+    const id = this.escapeAttribute(chat.id);
+
     return `
-      <div class="generated-images-grid ${images.length > 1 ? 'multi' : ''}">
-        ${imagesHtml}
-      </div>
-      <div class="row mt-4">
-        <button class="btn btn-primary flex-1" id="regenerate-images">
-          ${icons.refresh} Regenerate
-        </button>
-        <button class="btn btn-success flex-1" id="save-all-images" ${allSaved ? 'disabled' : ''}>
-          ${allSaved ? icons.heartFilled : icons.heart} ${allSaved ? 'Saved' : 'Save'} ${images.length > 1 ? 'All' : ''}
+      <div class="chat-list-item ${chat.id === this.currentChatId ? 'active' : ''}" data-chat-id="${id}">
+        <button class="chat-list-open" data-chat-id="${id}" title="${this.escapeAttribute(title)}">
+          <span class="chat-list-title">${this.escapeHtml(title)}</span>
+          ${snippet ? `<span class="chat-list-snippet">${this.escapeHtml(snippet)}</span>` : ''}
         </button>
+        <div class="chat-list-actions">
+          <button class="btn btn-ghost btn-icon chat-pin ${chat.pinned ? 'active' : ''}" data-chat-id="${id}" title="${chat.pinned ? 'Unpin' : 'Pin'}">
+            ${icons.pin}
+          </button>
+          <button class="btn btn-ghost btn-icon chat-move" data-chat-id="${id}" title="Move to folder">
+            ${icons.folder}
+          </button>
+        </div>
+        ${this.movingChatId === chat.id ? `
+          <input type="text" class="input input-sm chat-folder-input" id="chat-folder-input" list="chat-folder-names"
+            value="${this.escapeAttribute(chat.folder || '')}" placeholder="Folder (empty for none)" maxlength="60" aria-label="Folder">
+        ` : ''}
       </div>
     `;
   }
 
-  private renderSettings(): string {
-    const apiKey = grokApi.getApiKey();
-    const hasApiKey = !!apiKey;
+  // Chat name in the header - click to rename
+  private renderChatTitle(chat: FavoritePost | null | undefined): string {
+    const title = chat?.title || this.draftChatTitle || 'New Chat';
 
+    if (this.renamingChat) {
+      return `
+        <input type="text" class="input chat-title-input" id="chat-title-input" value="${this.escapeAttribute(title)}" maxlength="100" aria-label="Chat title">
+      `;
+    }
     return `
-      <div class="page-header">
-        <h2>Settings</h2>
-        <p>Configure your Grok Bud application</p>
+      <button class="chat-title" id="rename-chat" title="Rename chat">
+        <span id="chat-title-text">${this.escapeHtml(title)}</span>
+        ${icons.edit}
+      </button>
+    `;
+  }
+
+  /**
+   * Messages of the active branch. Those no longer sent in full are dimmed,
+   * with a divider saying whether they are summarized or left out.
+   */
+  private renderMessageList(plan: ContextPlan): string {
+    const messages = this.chatMessages;
+    const rendered = messages.map((msg, index) => this.renderMessage(msg, index));
+    if (plan.startIndex === 0) return rendered.join('');
+
+    const summary = plan.summaryIndex >= 0 ? getActivePath(this.chatTree)[plan.summaryIndex].summary : null;
+    const leftOut = plan.startIndex > plan.summaryIndex + 1;
+    const note = !leftOut
+      ? 'Messages above are summarized for Grok'
+      : storage.getContextStrategy() === 'summarize'
+        ? 'Messages above no longer fit the context window and will be summarized with your next message'
+        : 'Messages above no longer fit the context window and are not sent';
+
+    return `
+      <div class="context-archived">${rendered.slice(0, plan.startIndex).join('')}</div>
+      <div class="context-divider">
+        <span>${note}</span>
+        ${summary ? `
+          <details class="context-summary">
+            <summary>View summary${leftOut ? ' (of older messages)' : ''}</summary>
+            <p>${this.escapeHtml(summary)}</p>
+          </details>
+        ` : ''}
       </div>
-      <div class="stack-lg">
-        <section class="card stack">
-          <h3>${icons.zap} API Configuration</h3>
-          <div class="input-group">
-            <label for="api-key">Grok API Key</label>
-            <input 
-              type="password" 
-              class="input" 
-              id="api-key" 
-              placeholder="xai-xxxxxxxxxxxxxxxx"
-              value="${apiKey || ''}"
-            >
-          </div>
-          <button class="btn btn-primary w-full" id="save-api-key">
-            ${icons.check} Save API Key
-          </button>
-          <span class="input-hint ${hasApiKey ? 'text-success' : 'text-error'}">
-            ${hasApiKey ? `${icons.check} API key configured` : `${icons.x} No API key set - Get one from <a href="https://console.x.ai/" target="_blank">console.x.ai</a>`}
-          </span>
-        </section>
+      ${rendered.slice(plan.startIndex).join('')}
+    `;
+  }
 
-        <section class="card stack">
-          <h3>${icons.zap} Usage & Costs</h3>
-          ${this.renderUsageDetails()}
-          <button class="btn btn-danger w-full" id="reset-usage">
-            ${icons.trash} Reset Usage Stats
-          </button>
-        </section>
+  private renderMessage(message: GrokMessage, index: number): string {
+    if (message.role === 'tool') {
+      return this.renderToolResult(message);
+    }
+    if (message.meta?.schema) {
+      return this.renderJsonMessage(message, index);
+    }
 
-        <section class="card stack">
-          <h3>${icons.sparkles} About</h3>
-          <p class="text-secondary">
-            Grok Bud is a personal AI assistant interface powered by xAI's Grok API.
-            Save your favorite conversations and generated images in a beautiful gallery.
-          </p>
-          <span class="input-hint">
-            Version 1.0.0 • Built with Vite + TypeScript
-          </span>
-        </section>
+    const text = getMessageText(message);
+    const images = getMessageImages(message);
+    // Assistant turns that only call tools are shown through their results
+    if (!text && images.length === 0) return '';
+
+    if (index === this.editingMessageIndex) {
+      return `
+        <div class="message message-${message.role} editing">
+          <textarea class="input" id="edit-message-input" rows="3">${this.escapeHtml(text)}</textarea>
+          ${images.length > 0 ? `<span class="input-hint">Attached images are kept</span>` : ''}
+          <div class="message-edit-actions">
+            <button class="btn btn-ghost btn-sm" id="cancel-edit-message">Cancel</button>
+            <button class="btn btn-primary btn-sm" id="submit-edit-message">${icons.send} Save & Submit</button>
+          </div>
+        </div>
+      `;
+    }
+
+    // Replies are markdown; user messages are shown exactly as typed
+    const isReply = message.role === 'assistant';
+    return `
+      <div class="message message-${message.role}">
+        <div class="message-content ${isReply ? 'markdown' : ''}">${images.length > 0 ? `<div class="message-images">${images.map(url => `
+          <a ${this.renderChatImageSource(url, 'href')} target="_blank" rel="noopener">
+            <img ${this.renderChatImageSource(url)} alt="Attached image" class="message-image" loading="lazy">
+          </a>`).join('')}</div>` : ''}${isReply ? renderMarkdown(text) : this.escapeHtml(text)}</div>
+        ${this.renderMessageActions(message, index)}
       </div>
     `;
   }
 
-  private renderUsageDetails(): string {
-    const usage = storage.getUsageStats();
-    
+  // Branch navigation, then edit / copy / regenerate / delete buttons shown on hover
+  private renderMessageActions(message: GrokMessage, index: number): string {
+    if (this.isLoading) return '';
+    const isLastReply = message.role === 'assistant' && index === this.chatMessages.length - 1;
+
     return `
-      <div class="usage-details w-full">
-        <div class="usage-grid">
-          <div class="usage-card">
-            <div class="usage-card-value">${this.formatTokens(usage.totalTokens)}</div>
-            <div class="usage-card-label">Total Tokens</div>
-          </div>
-          <div class="usage-card">
-            <div class="usage-card-value">$${usage.totalCost.toFixed(4)}</div>
-            <div class="usage-card-label">Estimated Cost</div>
-          </div>
-          <div class="usage-card">
-            <div class="usage-card-value">${usage.requestCount}</div>
-            <div class="usage-card-label">API Requests</div>
-          </div>
-          <div class="usage-card">
-            <div class="usage-card-value">${this.formatTokens(usage.chatTokens)}</div>
-            <div class="usage-card-label">Chat Tokens</div>
-          </div>
-          <div class="usage-card">
-            <div class="usage-card-value">${usage.imageCount || 0}</div>
-            <div class="usage-card-label">Images Generated</div>
-          </div>
+      <div class="message-actions">
+        ${this.renderBranchNav(index)}
+        <div class="message-action-buttons">
+        ${message.role === 'user' ? `
+          <button class="btn btn-ghost btn-sm edit-message" data-message-index="${index}" title="Edit and resubmit">${icons.edit}</button>
+        ` : ''}
+        ${!message.meta?.schema ? `
+          <button class="btn btn-ghost btn-sm copy-message" data-message-index="${index}" title="Copy">${icons.copy}</button>
+        ` : ''}
+        ${isLastReply ? `
+          <button class="btn btn-ghost btn-sm regenerate-message" data-message-index="${index}" title="Regenerate">${icons.refresh}</button>
+        ` : ''}
+        <button class="btn btn-ghost btn-sm delete-message" data-message-index="${index}" title="Delete">${icons.trash}</button>
         </div>
       </div>
     `;
   }
 
-  private renderPost(): string {
-    if (!this.currentPostId) {
-      return this.renderGallery();
+  /**
+   * "< 2/3 >" switcher for alternative versions of a message. A reply turn can
+   * span several messages (tool calls and results), so its switcher sits on the
+   * final reply but moves between versions of the whole turn.
+   */
+  private renderBranchNav(index: number): string {
+    const path = getActivePath(this.chatTree);
+    let branchIndex = index;
+    if (path[index].message.role !== 'user') {
+      if (path[index + 1] && path[index + 1].message.role !== 'user') return '';
+      while (branchIndex > 0 && path[branchIndex - 1].message.role !== 'user') branchIndex--;
     }
 
-    const post = storage.getFavorites().find(f => f.id === this.currentPostId);
-    if (!post || post.type !== 'image') {
-      return this.renderGallery();
-    }
+    const node = path[branchIndex];
+    const siblings = getSiblingIds(this.chatTree, node.id);
+    if (siblings.length < 2) return '';
+    const position = siblings.indexOf(node.id);
 
-    // Get video job state from storage
-    const videoJob = videoJobManager.getJobForPost(this.currentPostId);
-    const isVideoGenerating = videoJob?.status === 'pending';
-    const videoError = videoJob?.status === 'error' ? videoJob.errorMessage : null;
+    return `
+      <div class="branch-nav">
+        <button class="btn btn-ghost btn-sm branch-switch" data-node-id="${node.id}" data-offset="-1" title="Previous version" ${position === 0 ? 'disabled' : ''}>${icons.chevronLeft}</button>
+        <span>${position + 1}/${siblings.length}</span>
+        <button class="btn btn-ghost btn-sm branch-switch" data-node-id="${node.id}" data-offset="1" title="Next version" ${position === siblings.length - 1 ? 'disabled' : ''}>${icons.chevronRight}</button>
+      </div>
+    `;
+  }
 
-    // Get videos stored on post
-    const videos = post.videos || [];
-    const hasVideos = videos.length > 0;
-    
-    // Clamp video index to valid range
-    const videoIndex = Math.min(this.currentVideoIndex, Math.max(0, videos.length - 1));
-    const currentVideo = hasVideos ? videos[videoIndex] : null;
+  // Messages on the active branch - what is shown and sent to the API
+  private get chatMessages(): GrokMessage[] {
+    return getActiveMessages(this.chatTree);
+  }
 
-    const date = new Date(post.createdAt).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+  // Settings and persona for the next new chat go back to the defaults
+  private resetChatDraft(): void {
+    this.draftChatSettings = { ...storage.DEFAULT_CHAT_SETTINGS };
+    this.draftPersonaId = null;
+    this.editingMessageIndex = null;
+    this.draftChatTitle = null;
+    this.renamingChat = false;
+  }
+
+  private getCurrentChatSettings(): ChatSettings {
+    const chat = this.currentChatId ? storage.getChat(this.currentChatId) : undefined;
+    return chat ? storage.getChatSettings(chat) : this.draftChatSettings;
+  }
+
+  private renderChatSettings(model: string): string {
+    const settings = this.getCurrentChatSettings();
+    const supportsReasoning = models.getModelCapabilities(model).reasoning;
 
     return `
-      <div class="post-view">
-        <div class="post-header">
-          <button class="btn btn-ghost" id="back-to-gallery">
-            ${icons.arrowLeft} Back to Gallery
+      <section class="chat-settings-panel card stack">
+        ${this.renderChatSettingsFields(settings, 'chat')}
+        ${settings.reasoningEffort && !supportsReasoning ? `
+          <span class="input-hint">Reasoning effort is ignored for ${this.escapeHtml(model)}.</span>
+        ` : ''}
+        <div class="row">
+          <button class="btn btn-primary flex-1" id="apply-chat-settings">
+            ${icons.check} Apply
           </button>
-          <div class="post-actions">
-            <button class="btn btn-danger btn-icon" id="delete-post" title="Delete">
-              ${icons.trash}
-            </button>
+          <button class="btn btn-ghost" id="reset-chat-settings">
+            ${icons.refresh} Defaults
+          </button>
+        </div>
+      </section>
+    `;
+  }
+
+  // System prompt and parameter inputs, shared by the chat settings panel and the persona editor
+  private renderChatSettingsFields(settings: ChatSettings, idPrefix: string): string {
+    const numberValue = (value: number | null) => value === null ? '' : String(value);
+
+    return `
+      <div class="input-group">
+        <label for="${idPrefix}-system-prompt">System prompt</label>
+        <textarea class="input" id="${idPrefix}-system-prompt" rows="3" placeholder="No system prompt">${this.escapeHtml(settings.systemPrompt)}</textarea>
+      </div>
+      <div class="chat-settings-grid">
+        <div class="input-group">
+          <label for="${idPrefix}-temperature">Temperature</label>
+          <input type="number" class="input" id="${idPrefix}-temperature" min="0" max="2" step="0.1" placeholder="Default" value="${numberValue(settings.temperature)}">
+        </div>
+        <div class="input-group">
+          <label for="${idPrefix}-top-p">Top P</label>
+          <input type="number" class="input" id="${idPrefix}-top-p" min="0" max="1" step="0.05" placeholder="Default" value="${numberValue(settings.topP)}">
+        </div>
+        <div class="input-group">
+          <label for="${idPrefix}-max-tokens">Max tokens</label>
+          <input type="number" class="input" id="${idPrefix}-max-tokens" min="1" step="1" placeholder="Default" value="${numberValue(settings.maxTokens)}">
+        </div>
+        <div class="input-group">
+          <label for="${idPrefix}-reasoning-effort">Reasoning effort</label>
+          <select class="input input-select" id="${idPrefix}-reasoning-effort">
+            <option value="" ${!settings.reasoningEffort ? 'selected' : ''}>Default</option>
+            <option value="low" ${settings.reasoningEffort === 'low' ? 'selected' : ''}>Low</option>
+            <option value="high" ${settings.reasoningEffort === 'high' ? 'selected' : ''}>High</option>
+          </select>
+        </div>
+      </div>
+    `;
+  }
+
+  // Read the fields rendered by renderChatSettingsFields, or null (with a toast) if invalid
+  private readChatSettingsFields(idPrefix: string): ChatSettings | null {
+    const field = (name: string) => (document.getElementById(`${idPrefix}-${name}`) as HTMLInputElement).value.trim();
+    // Empty fields mean "use the API default"
+    const number = (name: string) => field(name) === '' ? null : Number(field(name));
+    const reasoningEffort = field('reasoning-effort');
+
+    const settings: ChatSettings = {
+      systemPrompt: field('system-prompt'),
+      temperature: number('temperature'),
+      topP: number('top-p'),
+      maxTokens: number('max-tokens'),
+      reasoningEffort: reasoningEffort === 'low' || reasoningEffort === 'high' ? reasoningEffort : null,
+    };
+
+    const error = storage.getChatSettingsError(settings);
+    if (error) {
+      this.showToast(error, 'error');
+      return null;
+    }
+    return settings;
+  }
+
+  // Structured reply: validation status plus a collapsible tree of the JSON
+  private renderJsonMessage(message: GrokMessage, index: number): string {
+    const schema = message.meta!.schema!;
+    const text = getMessageText(message);
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      value = undefined;
+    }
+
+    return `
+      <div class="message message-assistant message-json">
+        <div class="json-message-header">
+          <span class="json-schema-name">${icons.braces} ${this.escapeHtml(schema.name)}</span>
+          <span class="json-status ${schema.errors.length === 0 ? 'text-success' : 'text-error'}">
+            ${schema.errors.length === 0 ? `${icons.check} Valid` : `${icons.x} ${schema.errors.length} error${schema.errors.length === 1 ? '' : 's'}`}
+          </span>
+          <div class="json-message-actions">
+            <button class="btn btn-ghost btn-sm copy-json" data-message-index="${index}" title="Copy JSON">${icons.copy}</button>
+            <button class="btn btn-ghost btn-sm export-json" data-message-index="${index}" title="Export JSON">${icons.download}</button>
           </div>
         </div>
-        
-        <div class="post-content">
-          <div class="post-media-container">
-            ${hasVideos ? `
-              <div class="media-toggle">
-                <button class="media-toggle-btn ${this.mediaView === 'image' ? 'active' : ''}" id="media-view-image">
-                  ${icons.image} Image
-                </button>
-                <button class="media-toggle-btn ${this.mediaView === 'video' ? 'active' : ''}" id="media-view-video">
-                  ${icons.video} Videos (${videos.length})
+        ${schema.errors.length > 0 ? `
+          <ul class="json-errors">
+            ${schema.errors.map(error => `<li>${this.escapeHtml(error)}</li>`).join('')}
+          </ul>
+        ` : ''}
+        ${value !== undefined
+          ? `<div class="json-tree">${this.renderJsonNode(value, null, 0)}</div>`
+          : `<div class="message-content">${this.escapeHtml(text)}</div>`}
+        ${this.renderMessageActions(message, index)}
+      </div>
+    `;
+  }
+
+  private renderJsonNode(value: unknown, key: string | null, depth: number): string {
+    const label = key !== null ? `<span class="json-key">${this.escapeHtml(key)}</span>: ` : '';
+
+    if (value !== null && typeof value === 'object') {
+      const entries: Array<[string, unknown]> = Array.isArray(value)
+        ? value.map((item, i) => [String(i), item])
+        : Object.entries(value);
+      const brackets = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+      if (entries.length === 0) {
+        return `<div class="json-leaf">${label}<span class="json-punctuation">${brackets.join('')}</span></div>`;
+      }
+      return `
+        <details class="json-node" ${depth < 2 ? 'open' : ''}>
+          <summary>${label}<span class="json-punctuation">${brackets[0]}</span><span class="json-count">${entries.length} ${Array.isArray(value) ? 'items' : 'keys'}</span><span class="json-punctuation">${brackets[1]}</span></summary>
+          <div class="json-children">
+            ${entries.map(([childKey, child]) => this.renderJsonNode(child, childKey, depth + 1)).join('')}
+          </div>
+        </details>
+      `;
+    }
+
+    const type = value === null ? 'null' : typeof value;
+    return `<div class="json-leaf">${label}<span class="json-${type}">${this.escapeHtml(JSON.stringify(value))}</span></div>`;
+  }
+
+  private renderSchemaEditor(): string {
+    const isNew = this.editingSchemaId === 'new';
+    const schema = isNew ? undefined : storage.getSchema(this.editingSchemaId!);
+
+    return `
+      <div class="schema-editor stack">
+        <div class="row">
+          <select class="input input-select flex-1" id="schema-editor-select">
+            <option value="new" ${isNew ? 'selected' : ''}>+ New schema</option>
+            ${storage.getSchemas().map(s => `
+              <option value="${this.escapeAttribute(s.id)}" ${s.id === schema?.id ? 'selected' : ''}>${this.escapeHtml(s.name)}</option>
+            `).join('')}
+          </select>
+          <button class="btn btn-ghost btn-icon" id="close-schema-editor" title="Close">
+            ${icons.x}
+          </button>
+        </div>
+        <input type="text" class="input" id="schema-name" placeholder="Schema name, e.g. Prompt list" value="${this.escapeAttribute(schema?.name || '')}">
+        <textarea class="input input-mono" id="schema-json" rows="8" spellcheck="false">${this.escapeHtml(schema ? JSON.stringify(schema.schema, null, 2) : SCHEMA_TEMPLATE)}</textarea>
+        <span class="input-hint">JSON Schema for the reply. The top level must be an object; selected schemas are enforced by the API and checked on arrival.</span>
+        <div class="row">
+          <button class="btn btn-primary flex-1" id="save-schema">
+            ${icons.check} ${isNew ? 'Save & Use' : 'Update & Use'}
+          </button>
+          ${!isNew ? `
+            <button class="btn btn-danger btn-icon" id="delete-schema" title="Delete schema">
+              ${icons.trash}
+            </button>
+          ` : ''}
+        </div>
+      </div>
+    `;
+  }
+
+  private renderToolResult(message: GrokMessage): string {
+    const view = describeToolResult(message, this.chatMessages);
+
+    return `
+      <div class="message message-tool">
+        <div class="tool-result ${view.error ? 'tool-result-error' : ''}">
+          ${view.error ? icons.x : icons.zap}
+          <span>${this.escapeHtml(view.label)}${view.error ? ` failed: ${this.escapeHtml(view.error)}` : ''}</span>
+        </div>
+        ${view.imageUrls.length > 0 ? `
+          <div class="message-images">
+            ${view.imageUrls.map(url => `
+              <a href="${this.escapeAttribute(url)}" target="_blank" rel="noopener">
+                <img src="${this.escapeAttribute(url)}" alt="Tool result image" class="message-image" loading="lazy">
+              </a>
+            `).join('')}
+          </div>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  // Selector options for one kind of model, filled from the registry for the active provider
+  private renderModelOptions(kind: ModelKind, selectedModel: string): string {
+    const provider = storage.getActiveProvider();
+    const options = models.getModelsForKind(kind, provider.id);
+    const defaultModel = kind === 'chat' ? provider.defaultChatModel
+      : kind === 'image' ? provider.defaultImageModel
+      : provider.defaultVideoModel;
+
+    // The provider default (and models saved on older chats) may not be listed yet
+    for (const id of [defaultModel, selectedModel]) {
+      if (id && !options.some(m => m.id === id)) {
+        options.push(models.getModelCapabilities(id));
+      }
+    }
+
+    return options.map(m => {
+      const details = [
+        m.contextWindow ? `${this.formatTokens(m.contextWindow)} context` : '',
+        m.inputModalities.includes('image') && m.kind === 'chat' ? 'vision' : '',
+        m.reasoning ? 'reasoning' : '',
+      ].filter(Boolean).join(', ');
+      return `
+        <option value="${this.escapeAttribute(m.id)}" ${selectedModel === m.id ? 'selected' : ''} title="${this.escapeAttribute(details)}">
+          ${this.escapeHtml(m.label)}${m.reasoning && m.kind === 'chat' ? ' 🧠' : ''}
+        </option>
+      `;
+    }).join('');
+  }
+
+  // A saved model choice, unless the active provider doesn't offer it
+  private resolveSelectedModel(kind: ModelKind, selectedModel: string): string {
+    const provider = storage.getActiveProvider();
+    const available = models.getCachedModelIds(provider.id);
+    if (!available || available.includes(selectedModel)) return selectedModel;
+    return kind === 'chat' ? provider.defaultChatModel
+      : kind === 'image' ? provider.defaultImageModel
+      : provider.defaultVideoModel;
+  }
+
+  // Fetch the active provider's model list into the registry cache
+  private async loadModels(force = false): Promise<void> {
+    const provider = storage.getActiveProvider();
+    if (!provider.apiKey) return;
+
+    const before = models.getCachedModelIds(provider.id)?.join();
+    try {
+      const [ids] = await Promise.all([
+        models.refreshModels(grokApi, provider.id, force),
+        pricing.refreshPricing(grokApi, provider.id, force),
+      ]);
+      if (force) {
+        this.showToast(`Found ${ids.length} models`, 'success');
+      }
+      // Re-render selectors only when the list changed and nothing is in progress
+      if (ids.join() !== before && !this.isLoading && this.currentView !== 'gallery') {
+        this.refreshView();
+      }
+    } catch (error) {
+      console.error('[App] Failed to load models:', error);
+      if (force) {
+        this.showApiError(error, 'Failed to load models');
+      }
+    }
+  }
+
+  private renderImageGen(): string {
+    const imageCount = storage.getImageCount();
+    const aspectRatio = storage.getAspectRatio();
+    const imageModel = this.resolveSelectedModel('image', storage.getSelectedImageModel());
+    
+    return `
+      <div class="page-header">
+        <h2>Image Generation</h2>
+        <p>Create images with Grok's imagination</p>
+      </div>
+      <div class="media-toggle image-gen-mode">
+        <button class="media-toggle-btn ${this.imageGenMode === 'single' ? 'active' : ''}" data-image-gen-mode="single">
+          ${icons.image} Single prompt
+        </button>
+        <button class="media-toggle-btn ${this.imageGenMode === 'batch' ? 'active' : ''}" data-image-gen-mode="batch">
+          ${icons.grid} Batch
+        </button>
+      </div>
+      ${this.imageGenMode === 'batch' ? this.renderImageBatch(imageModel, imageCount, aspectRatio) : `
+        <section class="card stack">
+          <div class="input-group">
+            <label for="image-prompt">Image Prompt</label>
+            <textarea 
+              class="input" 
+              id="image-prompt" 
+              placeholder="Describe the image you want to generate...\n\nTip: Be specific about style, colors, composition, lighting, and mood for better results."
+              rows="4"
+            >${this.escapeHtml(this.imageGenPrompt)}</textarea>
+            <div class="row prompt-tools">
+              ${this.renderTemplateSelect('image')}
+              <button class="btn btn-secondary btn-sm" id="enhance-prompt" title="Rewrite the prompt with ${this.escapeAttribute(models.getModelCapabilities(storage.getEnhancerModel()).label)} (style guide in Settings)" ${this.isEnhancing ? 'disabled' : ''}>
+                ${this.isEnhancing ? `${icons.loader} <span id="enhance-status">${this.enhanceStatus || 'Enhancing...'}</span>` : `${icons.zap} Enhance`}
+              </button>
+              ${this.isEnhancing ? `
+                <button class="btn btn-danger btn-sm" id="stop-enhance" title="Stop enhancing">
+                  ${icons.stop} Stop
                 </button>
-              </div>
+              ` : ''}
+            </div>
+          </div>
+          ${this.renderPromptEnhancement()}
+          ${this.renderTemplateForm('image')}
+          ${this.renderImageSource()}
+          
+          ${this.renderImageOptions(imageModel, imageCount, aspectRatio, 'Images')}
+          
+          <div class="row">
+            <button class="btn btn-primary flex-1" id="generate-image" ${this.isLoading ? 'disabled' : ''}>
+              ${this.isLoading ? icons.loader : icons.sparkles}
+              <span id="loading-status">${this.isLoading ? this.retryStatus || 'Generating...' : this.imageGenSource ? 'Edit Image' : 'Generate Image'}</span>
+            </button>
+            ${this.isLoading ? `
+              <button class="btn btn-danger" id="stop-image-generation" title="Stop generating">
+                ${icons.stop} Stop
+              </button>
             ` : ''}
-            
-            ${this.mediaView === 'image' || !hasVideos ? `
-              <div class="post-image-container">
-                <img src="${post.imageUrl}" alt="Generated image" class="post-image">
+          </div>
+        </section>
+        <div id="generated-image-result">${this.renderCachedImageResults()}</div>
+      `}
+    `;
+  }
+
+  // Enhanced prompt waiting to be accepted, edited or rejected
+  private renderPromptEnhancement(): string {
+    const enhancement = this.promptEnhancement;
+    if (!enhancement) return '';
+
+    const diff = diffWords(enhancement.original, enhancement.enhanced).map(part =>
+      part.type === 'added' ? `<ins class="diff-added">${this.escapeHtml(part.text)}</ins>`
+        : part.type === 'removed' ? `<del class="diff-removed">${this.escapeHtml(part.text)}</del>`
+        : this.escapeHtml(part.text)
+    ).join('');
+
+    return `
+      <div class="prompt-enhancement stack" id="prompt-enhancement">
+        <div class="row">
+          <strong class="flex-1">Enhanced prompt</strong>
+          <span class="input-hint">${this.escapeHtml(models.getModelCapabilities(storage.getEnhancerModel()).label)}</span>
+        </div>
+        ${enhancement.editing ? `
+          <textarea class="input" id="enhanced-prompt-input" rows="4">${this.escapeHtml(enhancement.enhanced)}</textarea>
+        ` : `
+          <p class="prompt-diff">${diff}</p>
+        `}
+        <div class="row">
+          <button class="btn btn-primary btn-sm" id="accept-enhancement">${icons.check} Use this</button>
+          ${enhancement.editing ? '' : `<button class="btn btn-secondary btn-sm" id="edit-enhancement">${icons.edit} Edit</button>`}
+          <button class="btn btn-ghost btn-sm" id="reject-enhancement">${icons.x} Keep mine</button>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderImageSource(): string {
+    const source = this.imageGenSource;
+    return `
+      <div class="image-source">
+        ${source ? `
+          <img src="${this.escapeAttribute(source.previewUrl)}" ${source.postId ? `data-media-key="${mediaStore.getImageKey(source.postId)}"` : ''} alt="Source image" class="image-source-thumb">
+          <div class="flex-1">
+            <strong>Editing</strong>
+            <span class="input-hint">${this.escapeHtml(source.label)}</span>
+          </div>
+          <button class="btn btn-ghost btn-sm" id="clear-image-source" title="Generate from the prompt alone">
+            ${icons.x} Remove
+          </button>
+        ` : `
+          <button class="btn btn-secondary btn-sm" id="upload-image-source">
+            ${icons.paperclip} Start from an image
+          </button>
+          <span class="input-hint flex-1">Upload an image to edit, or open a gallery post and choose Edit</span>
+        `}
+        <input type="file" id="image-source-input" accept="image/*" hidden>
+      </div>
+    `;
+  }
+
+  // Model, count and aspect ratio selects, shared by single and batch generation
+  private renderImageOptions(imageModel: string, imageCount: number, aspectRatio: string, countLabel: string): string {
+    return `
+      <div class="row">
+        <div class="input-group flex-1">
+          <label for="image-model">Model</label>
+          <select class="input input-select" id="image-model">
+            ${this.renderModelOptions('image', imageModel)}
+          </select>
+        </div>
+        
+        <div class="input-group flex-1">
+          <label for="image-count">${countLabel}</label>
+          <select class="input input-select" id="image-count">
+            <option value="1" ${imageCount === 1 ? 'selected' : ''}>1</option>
+            <option value="2" ${imageCount === 2 ? 'selected' : ''}>2</option>
+            <option value="3" ${imageCount === 3 ? 'selected' : ''}>3</option>
+            <option value="4" ${imageCount === 4 ? 'selected' : ''}>4</option>
+          </select>
+        </div>
+        
+        <div class="input-group flex-1">
+          <label for="aspect-ratio">Aspect Ratio</label>
+          <select class="input input-select" id="aspect-ratio">
+            <option value="1:1" ${aspectRatio === '1:1' ? 'selected' : ''}>1:1 (Square)</option>
+            <option value="16:9" ${aspectRatio === '16:9' ? 'selected' : ''}>16:9 (Landscape)</option>
+            <option value="9:16" ${aspectRatio === '9:16' ? 'selected' : ''}>9:16 (Portrait)</option>
+            <option value="4:3" ${aspectRatio === '4:3' ? 'selected' : ''}>4:3 (Classic)</option>
+            <option value="3:4" ${aspectRatio === '3:4' ? 'selected' : ''}>3:4 (Portrait)</option>
+          </select>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderImageBatch(imageModel: string, imageCount: number, aspectRatio: string): string {
+    const isRunning = imageBatchQueue.getBatch()?.status === 'running';
+
+    return `
+      <section class="card stack">
+        <div class="input-group">
+          <label for="batch-prompts">Prompts</label>
+          <textarea class="input" id="batch-prompts" rows="8"
+            placeholder="One prompt per line, or CSV with a header row: prompt,aspect_ratio,count">${this.escapeHtml(this.batchPromptText)}</textarea>
+          <span class="input-hint">Lines starting with # are skipped. CSV rows can set their own aspect ratio and count; the options below fill in the rest. Up to ${MAX_BATCH_PROMPTS} prompts.</span>
+        </div>
+
+        ${this.renderImageOptions(imageModel, imageCount, aspectRatio, 'Images per prompt')}
+
+        <label class="checkbox-row" for="batch-auto-save">
+          <input type="checkbox" id="batch-auto-save" ${this.batchAutoSave ? 'checked' : ''}>
+          <span>Save every image to the gallery as it arrives (otherwise review them below)</span>
+        </label>
+
+        <div class="row batch-actions">
+          <button class="btn btn-secondary" id="upload-batch-file" title="Load prompts from a .txt or .csv file">
+            ${icons.paperclip} Upload file
+          </button>
+          <input type="file" id="batch-file-input" accept=".txt,.csv,text/plain,text/csv" hidden>
+          <span class="input-hint flex-1" id="batch-estimate">${this.renderBatchEstimate()}</span>
+          <button class="btn btn-primary" id="start-batch" ${isRunning ? 'disabled' : ''}>
+            ${icons.sparkles} Start batch
+          </button>
+        </div>
+      </section>
+      <div id="batch-status">${this.renderBatchStatus()}</div>
+    `;
+  }
+
+  // Prompts read from the batch input with the selected defaults; throws on bad rows
+  private parseBatchInput(): BatchPromptInput[] {
+    return parseBatchPrompts(this.batchPromptText, {
+      aspectRatio: storage.getAspectRatio(),
+      count: storage.getImageCount(),
+    });
+  }
+
+  private renderBatchEstimate(): string {
+    let inputs: BatchPromptInput[];
+    try {
+      inputs = this.parseBatchInput();
+    } catch (error) {
+      return `<span class="text-error">${this.escapeHtml(error instanceof Error ? error.message : 'Could not read the prompts')}</span>`;
+    }
+    if (inputs.length === 0) return 'No prompts yet';
+
+    const model = this.resolveSelectedModel('image', storage.getSelectedImageModel());
+    const cost = estimateBatchCost(storage.getActiveProvider().id, model, inputs);
+    const images = countBatchImages(inputs);
+    return `${inputs.length} prompt${inputs.length === 1 ? '' : 's'} · ${images} image${images === 1 ? '' : 's'} · ${cost === null ? 'no price known' : `about $${cost.toFixed(2)}`}`;
+  }
+
+  private renderBatchStatus(): string {
+    const batch = imageBatchQueue.getBatch();
+    if (!batch) return '';
+
+    const { finished, total, images } = getBatchProgress(batch);
+    const failed = batch.items.filter(item => item.status === 'error').length;
+    const unsaved = batch.items.reduce((count, item) => count + item.images.filter(image => !image.postId).length, 0);
+    const title = batch.status === 'running' ? `Generating ${Math.min(finished + 1, total)} of ${total}...`
+      : batch.status === 'paused' ? `Paused at ${finished} of ${total}`
+      : 'Batch finished';
+
+    return `
+      <section class="card stack mt-4">
+        <div class="row">
+          <div class="flex-1">
+            <h3>${title}</h3>
+            <span class="input-hint">
+              ${images} image${images === 1 ? '' : 's'} · ${this.escapeHtml(models.getModelCapabilities(batch.model).label)}${failed > 0 ? ` · ${failed} failed` : ''}
+            </span>
+          </div>
+          ${batch.status === 'running' ? `
+            <button class="btn btn-secondary" id="pause-batch" title="Stop after the current prompt">${icons.stop} Pause</button>
+          ` : batch.status === 'paused' ? `
+            <button class="btn btn-primary" id="resume-batch" title="Carry on, retrying failed prompts">${icons.play} Resume</button>
+          ` : ''}
+          ${unsaved > 0 ? `
+            <button class="btn btn-success" id="save-batch-images">${icons.heart} Save all (${unsaved})</button>
+          ` : ''}
+          <button class="btn btn-ghost" id="clear-batch">${icons.trash} Clear</button>
+        </div>
+        ${batch.pauseReason ? `<p class="text-error text-sm">${this.escapeHtml(batch.pauseReason)}</p>` : ''}
+        <div class="batch-progress" title="${finished} of ${total} prompts">
+          <div class="batch-progress-bar" style="width: ${total ? Math.round(finished / total * 100) : 0}%"></div>
+        </div>
+        <div class="batch-results">
+          ${batch.items.map(item => item.images.length > 0
+            ? item.images.map((image, index) => `
+              <div class="batch-result">
+                <a href="${this.escapeAttribute(image.url)}" target="_blank" rel="noopener">
+                  <img src="${this.escapeAttribute(image.url)}" alt="${this.escapeAttribute(item.prompt)}" loading="lazy">
+                </a>
+                <p class="batch-result-prompt" title="${this.escapeAttribute(image.revisedPrompt || item.prompt)}">${this.escapeHtml(item.prompt)}</p>
+                <button class="btn btn-success btn-sm save-batch-image" data-item-id="${item.id}" data-image-index="${index}" ${image.postId ? 'disabled' : ''}>
+                  ${image.postId ? icons.heartFilled : icons.heart} ${image.postId ? 'Saved' : 'Save'}
+                </button>
               </div>
-            ` : `
-              <div class="post-video-container">
-                <video controls autoplay loop class="post-video" key="${currentVideo?.id}">
-                  <source src="${currentVideo?.url}" type="video/mp4">
-                  Your browser does not support the video tag.
-                </video>
-                
-                <div class="video-controls-overlay">
-                  <div class="video-nav">
-                    <button class="btn btn-ghost btn-icon" id="video-prev" ${videoIndex === 0 ? 'disabled' : ''}>
-                      ${icons.chevronLeft}
-                    </button>
-                    <span class="video-counter">${videoIndex + 1} / ${videos.length}</span>
-                    <button class="btn btn-ghost btn-icon" id="video-next" ${videoIndex >= videos.length - 1 ? 'disabled' : ''}>
-                      ${icons.chevronRight}
-                    </button>
-                  </div>
-                  
-                  <div class="video-actions">
-                    <button class="btn btn-ghost btn-icon" id="video-star" title="${currentVideo?.starred ? 'Unstar' : 'Star'}">
-                      ${currentVideo?.starred ? icons.starFilled : icons.star}
-                    </button>
-                    <a href="${currentVideo?.url}" download class="btn btn-ghost btn-icon" title="Download">
-                      ${icons.download}
-                    </a>
-                    <button class="btn btn-ghost btn-icon text-error" id="video-delete" title="Delete video">
-                      ${icons.trash}
-                    </button>
-                  </div>
-                </div>
-                
-                <div class="video-info">
-                  <span class="video-duration">${currentVideo?.duration}s</span>
-                  <span class="video-prompt" title="${this.escapeHtml(currentVideo?.prompt || '')}">${this.escapeHtml(this.truncateText(currentVideo?.prompt || '', 50))}</span>
+            `).join('')
+            : `
+              <div class="batch-result pending ${item.status}">
+                <div class="batch-result-placeholder">
+                  ${item.status === 'running' ? `${icons.loader} Generating...`
+                    : item.status === 'error' ? this.escapeHtml(item.errorMessage || 'Failed')
+                    : item.status === 'done' ? 'No images returned'
+                    : `Queued · ${item.count} × ${item.aspectRatio}`}
                 </div>
+                <p class="batch-result-prompt" title="${this.escapeAttribute(item.prompt)}">${this.escapeHtml(item.prompt)}</p>
               </div>
-            `}
+            `).join('')}
+        </div>
+      </section>
+    `;
+  }
+
+  private renderCachedImageResults(): string {
+    if (this.imageGenResults.length === 0) return '';
+    
+    const images = this.imageGenResults;
+    const prompt = this.imageGenPrompt;
+    const allSaved = images.every(img => this.imageGenSavedUrls.has(img.url));
+    
+    const imagesHtml = images.map((img, idx) => {
+      const isSaved = this.imageGenSavedUrls.has(img.url);
+      return `
+        <div class="generated-image-item">
+          <img src="${img.url}" alt="Generated image ${idx + 1}" class="generated-image">
+          <div class="image-actions">
+            <button class="btn btn-success btn-sm save-single-image" data-url="${img.url}" data-prompt="${img.revised_prompt || prompt}" ${isSaved ? 'disabled' : ''}>
+              ${isSaved ? icons.heartFilled : icons.heart} ${isSaved ? 'Saved' : 'Save'}
+            </button>
+            <a href="${img.url}" target="_blank" class="btn btn-ghost btn-sm">
+              ${icons.externalLink} Open
+            </a>
           </div>
-          
-          <div class="post-details">
-            <div class="post-meta">
-              <span class="post-model">${post.model}</span>
-              <span class="post-date">${date}</span>
-            </div>
-            
-            <div class="post-prompt">
-              <div class="post-prompt-header">
-                <h3>Prompt</h3>
-                <button class="btn btn-ghost btn-sm" id="copy-post-prompt" title="Copy prompt">
-                  ${icons.copy} Copy
+        </div>
+      `;
+    }).join('');
+    
+    return `
+      <div class="generated-images-grid ${images.length > 1 ? 'multi' : ''}">
+        ${imagesHtml}
+      </div>
+      <div class="row mt-4">
+        <button class="btn btn-primary flex-1" id="regenerate-images">
+          ${icons.refresh} Regenerate
+        </button>
+        <button class="btn btn-success flex-1" id="save-all-images" ${allSaved ? 'disabled' : ''}>
+          ${allSaved ? icons.heartFilled : icons.heart} ${allSaved ? 'Saved' : 'Save'} ${images.length > 1 ? 'All' : ''}
+        </button>
+      </div>
+    `;
+  }
+
+  private renderCompare(): string {
+    const provider = storage.getActiveProvider();
+    const selected = storage.getCompareModels();
+    const options = models.getModelsForKind('chat', provider.id);
+    // Keep picked models listed even if the provider doesn't offer them (yet)
+    for (const id of selected) {
+      if (!options.some(m => m.id === id)) {
+        options.push(models.getModelCapabilities(id));
+      }
+    }
+    const atMax = selected.length >= MAX_COMPARE_MODELS;
+
+    return `
+      <div class="page-header">
+        <h2>Compare Models</h2>
+        <p>Send one prompt to several models and see the answers side by side</p>
+      </div>
+      <section class="card stack">
+        <div class="input-group">
+          <label for="compare-prompt">Prompt</label>
+          <textarea class="input" id="compare-prompt" rows="4" placeholder="Ask something to compare the models on...">${this.escapeHtml(this.comparePrompt)}</textarea>
+        </div>
+        <div class="input-group">
+          <label for="compare-system-prompt">System prompt</label>
+          <textarea class="input" id="compare-system-prompt" rows="2" placeholder="Optional - sent to every model">${this.escapeHtml(this.compareSystemPrompt)}</textarea>
+        </div>
+        <div class="input-group">
+          <label>Models (up to ${MAX_COMPARE_MODELS})</label>
+          <div class="compare-model-picker">
+            ${options.map(m => {
+              const isSelected = selected.includes(m.id);
+              return `
+                <label class="compare-model-option ${isSelected ? 'selected' : ''}">
+                  <input type="checkbox" class="compare-model" value="${this.escapeAttribute(m.id)}"
+                    ${isSelected ? 'checked' : ''} ${atMax && !isSelected ? 'disabled' : ''}>
+                  ${this.escapeHtml(m.label)}
+                </label>
+              `;
+            }).join('')}
+          </div>
+        </div>
+        <div class="row">
+          <button class="btn btn-primary flex-1" id="run-comparison" ${this.isLoading || selected.length < 2 ? 'disabled' : ''}>
+            ${this.isLoading ? icons.loader : icons.columns}
+            <span id="loading-status">${this.isLoading ? this.retryStatus || 'Comparing...' : `Compare ${selected.length} models`}</span>
+          </button>
+          ${this.isLoading ? `
+            <button class="btn btn-danger" id="stop-comparison" title="Stop comparing">
+              ${icons.stop} Stop
+            </button>
+          ` : ''}
+        </div>
+      </section>
+      <div id="comparison-result">${this.renderComparisonResults()}</div>
+      ${this.renderSavedComparisons()}
+    `;
+  }
+
+  private renderComparisonResults(): string {
+    const columns = this.compareProgress
+      || this.comparison?.answers.map(answer => ({ model: answer.model, answer }))
+      || [];
+    if (columns.length === 0) return '';
+
+    const isSaved = !!this.comparisonPostId;
+    return `
+      <div class="compare-grid" style="--compare-columns: ${columns.length}">
+        ${columns.map((column, index) => this.renderComparisonColumn(column.model, column.answer, index)).join('')}
+      </div>
+      ${this.compareProgress ? '' : `
+        <div class="row mt-4">
+          <button class="btn btn-success flex-1" id="save-comparison" ${isSaved ? 'disabled' : ''}>
+            ${isSaved ? icons.heartFilled : icons.heart} ${isSaved ? 'Saved' : 'Save comparison'}
+          </button>
+          <button class="btn btn-ghost" id="clear-comparison">
+            ${icons.plus} New comparison
+          </button>
+        </div>
+      `}
+    `;
+  }
+
+  private renderComparisonColumn(model: string, answer: ComparisonAnswer | null, index: number): string {
+    const isWinner = !!answer && this.comparison?.winner === model && !this.compareProgress;
+    const cost = answer?.cost ?? null;
+
+    return `
+      <article class="compare-column ${isWinner ? 'winner' : ''}">
+        <header class="compare-column-header">
+          <h4>${this.escapeHtml(models.getModelCapabilities(model).label)}</h4>
+          ${isWinner ? `<span class="compare-winner-badge">${icons.trophy} Winner</span>` : ''}
+        </header>
+        ${answer ? `
+          <div class="compare-stats">
+            <span title="Time to full answer">${(answer.latencyMs / 1000).toFixed(1)}s</span>
+            <span title="Prompt / completion tokens">${this.formatTokens(answer.promptTokens)} in · ${this.formatTokens(answer.completionTokens)} out</span>
+            <span title="Estimated cost">${cost === null ? 'no price' : `$${cost.toFixed(4)}`}</span>
+          </div>
+          ${answer.error
+            ? `<div class="compare-answer compare-error">${this.escapeHtml(answer.error)}</div>`
+            : `<div class="compare-answer markdown">${renderMarkdown(answer.content)}</div>`}
+          ${answer.error || this.compareProgress ? '' : `
+            <footer class="compare-column-actions">
+              <button class="btn btn-ghost btn-sm compare-vote" data-answer-index="${index}" title="Vote for this answer">
+                ${icons.thumbsUp} ${answer.votes}
+              </button>
+              <button class="btn btn-ghost btn-sm compare-pick ${isWinner ? 'active' : ''}" data-answer-index="${index}" title="${isWinner ? 'Clear winner' : 'Pick as winner'}">
+                ${icons.trophy} ${isWinner ? 'Winner' : 'Pick winner'}
+              </button>
+              <button class="btn btn-ghost btn-icon btn-sm compare-copy" data-answer-index="${index}" title="Copy answer">
+                ${icons.copy}
+              </button>
+            </footer>
+          `}
+        ` : `
+          <div class="loading">
+            ${icons.loader}
+            <span>Waiting for answer...</span>
+          </div>
+        `}
+      </article>
+    `;
+  }
+
+  private renderSavedComparisons(): string {
+    const saved = storage.getComparisons();
+    if (saved.length === 0) return '';
+
+    return `
+      <section class="card stack mt-4">
+        <h3>${icons.columns} Saved comparisons</h3>
+        <div class="compare-saved-list">
+          ${saved.map(post => {
+            const winner = post.comparison?.winner;
+            return `
+              <div class="compare-saved-item ${post.id === this.comparisonPostId ? 'active' : ''}">
+                <button class="compare-saved-open" data-post-id="${this.escapeAttribute(post.id)}">
+                  <span class="compare-saved-prompt">${this.escapeHtml(post.prompt)}</span>
+                  <span class="compare-saved-meta">
+                    ${this.escapeHtml(post.model)} • ${new Date(post.createdAt).toLocaleDateString()}${winner ? ` • ${icons.trophy} ${this.escapeHtml(winner)}` : ''}
+                  </span>
+                </button>
+                <button class="btn btn-danger btn-icon compare-saved-delete" data-post-id="${this.escapeAttribute(post.id)}" title="Delete">
+                  ${icons.trash}
                 </button>
               </div>
-              <p>${this.escapeHtml(post.prompt)}</p>
+            `;
+          }).join('')}
+        </div>
+      </section>
+    `;
+  }
+
+  private renderSettings(): string {
+    const providers = storage.getProviders();
+    const activeProvider = storage.getActiveProvider();
+    const isNewProvider = this.editingProviderId === 'new';
+    const provider: ProviderProfile = isNewProvider
+      ? { id: '', name: '', baseUrl: '', apiKey: null, defaultChatModel: '', defaultImageModel: '', defaultVideoModel: '' }
+      : providers.find(p => p.id === this.editingProviderId) || activeProvider;
+    const isDefaultProvider = provider.id === storage.DEFAULT_PROVIDER_ID;
+    const hasApiKey = !!provider.apiKey;
+
+    const providerOptions = providers.map(p => `
+      <option value="${this.escapeAttribute(p.id)}" ${!isNewProvider && p.id === provider.id ? 'selected' : ''}>
+        ${this.escapeHtml(p.name)}${p.id === activeProvider.id ? ' (active)' : ''}
+      </option>
+    `).join('');
+
+    return `
+      <div class="page-header">
+        <h2>Settings</h2>
+        <p>Configure your Grok Bud application</p>
+      </div>
+      <div class="stack-lg">
+        <section class="card stack">
+          <h3>${icons.zap} API Providers</h3>
+          <div class="input-group">
+            <label for="provider-select">Provider</label>
+            <select class="input input-select" id="provider-select">
+              ${providerOptions}
+              <option value="new" ${isNewProvider ? 'selected' : ''}>+ Add provider</option>
+            </select>
+            <span class="input-hint">Chat, image and video generation use the active provider. Any OpenAI-compatible endpoint works.</span>
+          </div>
+          <div class="row">
+            <div class="input-group flex-1">
+              <label for="provider-name">Name</label>
+              <input type="text" class="input" id="provider-name" placeholder="My proxy" value="${this.escapeAttribute(provider.name)}">
+            </div>
+            <div class="input-group flex-1">
+              <label for="provider-base-url">Base URL</label>
+              <input type="url" class="input" id="provider-base-url" placeholder="https://api.x.ai/v1" value="${this.escapeAttribute(provider.baseUrl)}">
+            </div>
+          </div>
+          <div class="input-group">
+            <label for="api-key">API Key</label>
+            <input 
+              type="password" 
+              class="input" 
+              id="api-key" 
+              placeholder="xai-xxxxxxxxxxxxxxxx"
+              value="${this.escapeAttribute(provider.apiKey || '')}"
+            >
+          </div>
+          <div class="row">
+            <div class="input-group flex-1">
+              <label for="provider-chat-model">Default chat model</label>
+              <input type="text" class="input" id="provider-chat-model" placeholder="grok-3" value="${this.escapeAttribute(provider.defaultChatModel)}">
+            </div>
+            <div class="input-group flex-1">
+              <label for="provider-image-model">Default image model</label>
+              <input type="text" class="input" id="provider-image-model" placeholder="grok-imagine-image" value="${this.escapeAttribute(provider.defaultImageModel)}">
+            </div>
+            <div class="input-group flex-1">
+              <label for="provider-video-model">Default video model</label>
+              <input type="text" class="input" id="provider-video-model" placeholder="grok-imagine-video" value="${this.escapeAttribute(provider.defaultVideoModel)}">
+            </div>
+          </div>
+          <div class="row">
+            <button class="btn btn-primary flex-1" id="save-provider">
+              ${icons.check} ${isNewProvider ? 'Add Provider' : 'Save Provider'}
+            </button>
+            ${!isNewProvider && !isDefaultProvider ? `
+              <button class="btn btn-danger" id="delete-provider" title="Delete provider">
+                ${icons.trash}
+              </button>
+            ` : ''}
+          </div>
+          ${!isNewProvider && hasApiKey ? `
+            <div class="row">
+              <span class="input-hint flex-1">
+                ${models.getCachedModelIds(provider.id)?.length ?? 'No'} models loaded from ${this.escapeHtml(provider.name)}
+              </span>
+              <button class="btn btn-ghost btn-sm" id="refresh-models">
+                ${icons.refresh} Refresh models
+              </button>
+            </div>
+          ` : ''}
+          ${!isNewProvider ? `
+            <span class="input-hint ${hasApiKey ? 'text-success' : 'text-error'}">
+              ${hasApiKey ? `${icons.check} API key configured` : `${icons.x} No API key set${isDefaultProvider ? ` - Get one from <a href="${XAI_CONSOLE_URL}" target="_blank">console.x.ai</a>` : ''}`}
+            </span>
+          ` : ''}
+          <label class="checkbox-row" for="retry-generations">
+            <input type="checkbox" id="retry-generations" ${storage.getRetryGenerations() ? 'checked' : ''}>
+            <span>Automatically retry chat, image and video generation when rate limited or the server is overloaded (a retried request may occasionally be billed twice)</span>
+          </label>
+        </section>
+
+        <section class="card stack">
+          <h3>${icons.messageSquare} Chat Helpers</h3>
+          <p class="text-secondary text-sm">A cheaper model can name new chats and summarize older turns once a chat no longer fits the model's context window, for a small extra cost.</p>
+          <label class="checkbox-row" for="auto-title-chats">
+            <input type="checkbox" id="auto-title-chats" ${storage.getAutoTitleChats() ? 'checked' : ''}>
+            <span>Title new chats automatically after the first reply</span>
+          </label>
+          <div class="input-group">
+            <label for="context-strategy">Older turns in long chats</label>
+            <select class="input input-select" id="context-strategy">
+              <option value="summarize" ${storage.getContextStrategy() === 'summarize' ? 'selected' : ''}>Summarize with a cheaper model</option>
+              <option value="truncate" ${storage.getContextStrategy() === 'truncate' ? 'selected' : ''}>Leave out</option>
+            </select>
+          </div>
+          <div class="input-group">
+            <label for="helper-model">Helper model</label>
+            <select class="input input-select" id="helper-model">
+              ${this.renderModelOptions('chat', storage.getHelperModel())}
+            </select>
+          </div>
+        </section>
+
+        <section class="card stack">
+          <h3>${icons.zap} Prompt Enhancer</h3>
+          <p class="text-secondary text-sm">Enhance in Image Generation rewrites your prompt with a chat model. You review the changes before anything is generated.</p>
+          <div class="input-group">
+            <label for="prompt-style-guide">Style guide</label>
+            <textarea class="input" id="prompt-style-guide" rows="3" placeholder="${this.escapeAttribute(DEFAULT_STYLE_GUIDE)}">${this.escapeHtml(storage.getPromptStyleGuide())}</textarea>
+            <span class="input-hint">How prompts should be rewritten. Leave empty to use the default shown.</span>
+          </div>
+          <div class="input-group">
+            <label for="enhancer-model">Model</label>
+            <select class="input input-select" id="enhancer-model">
+              ${this.renderModelOptions('chat', storage.getEnhancerModel())}
+            </select>
+          </div>
+        </section>
+
+        <section class="card stack">
+          <h3>${icons.user} Personas</h3>
+          <p class="text-secondary text-sm">Reusable assistants with their own system prompt, model and parameters. Pick one when starting a new chat.</p>
+          ${this.renderPersonaList()}
+          <div class="row">
+            <button class="btn btn-primary flex-1" id="new-persona">
+              ${icons.user} New Persona
+            </button>
+            <button class="btn btn-secondary" id="import-personas" title="Import personas from a JSON file">
+              Import
+            </button>
+            <button class="btn btn-secondary" id="export-personas" title="Export personas as JSON" ${storage.getPersonas().length === 0 ? 'disabled' : ''}>
+              ${icons.download} Export
+            </button>
+            <input type="file" id="persona-file-input" accept="application/json,.json" hidden>
+          </div>
+        </section>
+
+        <section class="card stack">
+          <h3>${icons.edit} Prompt Templates</h3>
+          <p class="text-secondary text-sm">Prompts you reuse, with {variable} placeholders you fill in each time. Pick one from the chat input or on the Image Gen page.</p>
+          ${this.renderTemplateList()}
+          <div class="row">
+            <button class="btn btn-primary flex-1" id="new-template">
+              ${icons.plus} New Template
+            </button>
+            <button class="btn btn-secondary" id="import-templates" title="Import templates from a JSON file">
+              Import
+            </button>
+            <button class="btn btn-secondary" id="export-templates" title="Export templates as JSON" ${storage.getTemplates().length === 0 ? 'disabled' : ''}>
+              ${icons.download} Export
+            </button>
+            <input type="file" id="template-file-input" accept="application/json,.json" hidden>
+          </div>
+        </section>
+
+        <section class="card stack">
+          <h3>${icons.zap} Usage & Costs</h3>
+          ${this.renderUsageDetails()}
+          <button class="btn btn-danger w-full" id="reset-usage">
+            ${icons.trash} Reset Usage Stats
+          </button>
+        </section>
+
+        <section class="card stack">
+          <h3>${icons.zap} Pricing</h3>
+          ${this.renderPricingDetails()}
+        </section>
+
+        <section class="card stack">
+          <h3>${icons.image} Offline Media</h3>
+          <p class="text-secondary text-sm">
+            Image and video links from the API expire, so saved media is also kept in this browser.
+            Media saved before that, or on another device, is downloaded in the background while its link still works.
+          </p>
+          <span class="input-hint" id="media-usage">Checking stored media...</span>
+          <button class="btn btn-secondary w-full" id="backfill-media" ${mediaBackfill.getProgress() ? 'disabled' : ''}>
+            ${icons.download} Download missing media
+          </button>
+        </section>
+
+        <section class="card stack">
+          <h3>${icons.sparkles} About</h3>
+          <p class="text-secondary">
+            Grok Bud is a personal AI assistant interface powered by xAI's Grok API.
+            Save your favorite conversations and generated images in a beautiful gallery.
+          </p>
+          <span class="input-hint">
+            Version 1.0.0 • Built with Vite + TypeScript
+          </span>
+        </section>
+      </div>
+    `;
+  }
+
+  private renderPersonaList(): string {
+    const personas = storage.getPersonas();
+    if (personas.length === 0 && this.editingPersonaId !== 'new') {
+      return `<span class="input-hint">No personas yet. Create one or import a file from a teammate.</span>`;
+    }
+
+    return `
+      <div class="persona-list">
+        ${personas.map(persona => persona.id === this.editingPersonaId ? this.renderPersonaEditor(persona) : `
+          <div class="persona-row">
+            <span class="persona-avatar">${this.escapeHtml(persona.avatar)}</span>
+            <div class="flex-1">
+              <div class="persona-name">${this.escapeHtml(persona.name)}</div>
+              <span class="input-hint">${this.escapeHtml(persona.model || 'Selected chat model')}</span>
+            </div>
+            <button class="btn btn-ghost btn-icon edit-persona" data-persona-id="${this.escapeAttribute(persona.id)}" title="Edit">
+              ${icons.settings}
+            </button>
+            <button class="btn btn-danger btn-icon delete-persona" data-persona-id="${this.escapeAttribute(persona.id)}" title="Delete">
+              ${icons.trash}
+            </button>
+          </div>
+        `).join('')}
+        ${this.editingPersonaId === 'new' ? this.renderPersonaEditor() : ''}
+      </div>
+    `;
+  }
+
+  private renderPersonaEditor(persona?: Persona): string {
+    return `
+      <div class="persona-editor stack">
+        <div class="row">
+          <div class="input-group persona-avatar-input">
+            <label for="persona-avatar">Avatar</label>
+            <input type="text" class="input" id="persona-avatar" maxlength="4" value="${this.escapeAttribute(persona?.avatar || DEFAULT_PERSONA_AVATAR)}">
+          </div>
+          <div class="input-group flex-1">
+            <label for="persona-name">Name</label>
+            <input type="text" class="input" id="persona-name" placeholder="Prompt engineer" value="${this.escapeAttribute(persona?.name || '')}">
+          </div>
+          <div class="input-group flex-1">
+            <label for="persona-model">Default model</label>
+            <select class="input input-select" id="persona-model">
+              <option value="" ${!persona?.model ? 'selected' : ''}>Selected chat model</option>
+              ${this.renderModelOptions('chat', persona?.model || '')}
+            </select>
+          </div>
+        </div>
+        ${this.renderChatSettingsFields(persona?.settings || storage.DEFAULT_CHAT_SETTINGS, 'persona')}
+        <div class="row">
+          <button class="btn btn-primary flex-1" id="save-persona">
+            ${icons.check} ${persona ? 'Save Persona' : 'Add Persona'}
+          </button>
+          <button class="btn btn-ghost" id="cancel-persona">Cancel</button>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderTemplateList(): string {
+    const templates = storage.getTemplates();
+    if (templates.length === 0 && this.editingTemplateId !== 'new') {
+      return `<span class="input-hint">No templates yet. Try "A {style} portrait of {subject}, {lighting}".</span>`;
+    }
+
+    return `
+      <div class="persona-list">
+        ${templates.map(template => template.id === this.editingTemplateId ? this.renderTemplateEditor(template) : `
+          <div class="persona-row">
+            <div class="flex-1">
+              <div class="persona-name">${this.escapeHtml(template.name)}</div>
+              <span class="input-hint template-text">${getTemplateKindLabel(template.kind)} • ${this.escapeHtml(template.text)}</span>
+            </div>
+            <button class="btn btn-ghost btn-icon edit-template" data-template-id="${this.escapeAttribute(template.id)}" title="Edit">
+              ${icons.settings}
+            </button>
+            <button class="btn btn-danger btn-icon delete-template" data-template-id="${this.escapeAttribute(template.id)}" title="Delete">
+              ${icons.trash}
+            </button>
+          </div>
+        `).join('')}
+        ${this.editingTemplateId === 'new' ? this.renderTemplateEditor() : ''}
+      </div>
+    `;
+  }
+
+  private renderTemplateEditor(template?: PromptTemplate): string {
+    const kind = template?.kind || 'chat';
+    return `
+      <div class="persona-editor stack">
+        <div class="row">
+          <div class="input-group flex-1">
+            <label for="template-name">Name</label>
+            <input type="text" class="input" id="template-name" placeholder="Portrait" value="${this.escapeAttribute(template?.name || '')}">
+          </div>
+          <div class="input-group">
+            <label for="template-kind">Used for</label>
+            <select class="input input-select" id="template-kind">
+              <option value="chat" ${kind === 'chat' ? 'selected' : ''}>Chat</option>
+              <option value="image" ${kind === 'image' ? 'selected' : ''}>Image generation</option>
+            </select>
+          </div>
+        </div>
+        <div class="input-group">
+          <label for="template-text">Prompt</label>
+          <textarea class="input" id="template-text" rows="4" placeholder="A {style} portrait of {subject}, {lighting}">${this.escapeHtml(template?.text || '')}</textarea>
+          <span class="input-hint">Wrap each part you want to fill in later in braces, e.g. {subject}.</span>
+        </div>
+        <div class="row">
+          <button class="btn btn-primary flex-1" id="save-template">
+            ${icons.check} ${template ? 'Save Template' : 'Add Template'}
+          </button>
+          <button class="btn btn-ghost" id="cancel-template">Cancel</button>
+        </div>
+      </div>
+    `;
+  }
+
+  // Template picker shown next to the chat input and the image prompt
+  private renderTemplateSelect(kind: TemplateKind): string {
+    return `
+      <select class="input input-select template-select" id="${kind}-template" title="Use a prompt template">
+        <option value="">Templates...</option>
+        ${storage.getTemplates(kind).map(template => `
+          <option value="${this.escapeAttribute(template.id)}">${this.escapeHtml(template.name)}</option>
+        `).join('')}
+        <option value="manage">Manage templates...</option>
+      </select>
+    `;
+  }
+
+  // Variable values for the picked template, asked for before the prompt is used
+  private renderTemplateForm(kind: TemplateKind): string {
+    const template = this.activeTemplate ? storage.getTemplate(this.activeTemplate.id) : undefined;
+    if (!template || template.kind !== kind) return '';
+
+    const values = this.activeTemplate!.values;
+    return `
+      <div class="template-form stack" id="template-form">
+        <div class="template-form-header">
+          <strong>${this.escapeHtml(template.name)}</strong>
+          <button class="btn btn-ghost btn-icon btn-sm" id="close-template-form" title="Close">
+            ${icons.x}
+          </button>
+        </div>
+        <p class="template-preview" id="template-preview">${this.escapeHtml(fillTemplate(template.text, values))}</p>
+        <div class="template-variables">
+          ${getTemplateVariables(template.text).map((name, index) => `
+            <div class="input-group">
+              <label for="template-variable-${index}">${this.escapeHtml(name)}</label>
+              <input type="text" class="input template-variable" id="template-variable-${index}"
+                data-variable="${this.escapeAttribute(name)}" value="${this.escapeAttribute(values[name] || '')}">
             </div>
+          `).join('')}
+        </div>
+        <div class="row">
+          <button class="btn btn-secondary" id="insert-template" title="Put the prompt in the input to edit it first">
+            Insert
+          </button>
+          <button class="btn btn-primary flex-1" id="submit-template" ${this.isLoading ? 'disabled' : ''}>
+            ${kind === 'chat' ? `${icons.send} Send` : `${icons.sparkles} Generate`}
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderUsageDetails(): string {
+    const usage = storage.getUsageStats();
+    const unpricedModels = storage.getUnpricedModels();
+    
+    return `
+      <div class="usage-details w-full">
+        <div class="usage-grid">
+          <div class="usage-card">
+            <div class="usage-card-value">${this.formatTokens(usage.totalTokens)}</div>
+            <div class="usage-card-label">Total Tokens</div>
+          </div>
+          <div class="usage-card">
+            <div class="usage-card-value">$${usage.totalCost.toFixed(4)}</div>
+            <div class="usage-card-label">Estimated Cost</div>
+          </div>
+          <div class="usage-card">
+            <div class="usage-card-value">${usage.requestCount}</div>
+            <div class="usage-card-label">API Requests</div>
+          </div>
+          <div class="usage-card">
+            <div class="usage-card-value">${this.formatTokens(usage.chatTokens)}</div>
+            <div class="usage-card-label">Chat Tokens</div>
+          </div>
+          <div class="usage-card">
+            <div class="usage-card-value">${usage.imageCount || 0}</div>
+            <div class="usage-card-label">Images Generated</div>
+          </div>
+        </div>
+        ${unpricedModels.length > 0 ? `
+          <span class="input-hint text-warning">
+            No price known for ${unpricedModels.map(m => this.escapeHtml(m)).join(', ')} - these requests are counted as $0. Add a price override below.
+          </span>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  private renderPricingDetails(): string {
+    const provider = storage.getActiveProvider();
+    const table = pricing.getPricingTable(provider.id);
+    const overrides = pricing.getPricingOverrides(provider.id);
+    const fetchedAt = pricing.getPricingFetchedAt(provider.id);
+    const sourceLabels = { builtin: 'Built-in', api: 'API', override: 'Override' };
+
+    // Prices are stored in cents per 100M tokens; shown in dollars per 1M tokens
+    const perMillion = (price: number) => `$${(price / 10_000).toFixed(2)}`;
+    const priceCells = (price: ModelPricing) => price.imagePrice !== undefined
+      ? `<td>-</td><td>-</td><td>$${price.imagePrice.toFixed(4)}</td>`
+      : `<td>${perMillion(price.promptTextTokenPrice)}</td><td>${perMillion(price.completionTextTokenPrice)}</td><td>-</td>`;
+
+    const overrideRow = (price?: ModelPricing) => `
+      <tr class="price-override-row">
+        <td><input type="text" class="input input-sm" data-field="id" placeholder="model-id" value="${this.escapeAttribute(price?.id || '')}"></td>
+        <td><input type="number" class="input input-sm" data-field="prompt" min="0" step="0.01" placeholder="0.00" value="${price && price.imagePrice === undefined ? price.promptTextTokenPrice / 10_000 : ''}"></td>
+        <td><input type="number" class="input input-sm" data-field="completion" min="0" step="0.01" placeholder="0.00" value="${price && price.imagePrice === undefined ? price.completionTextTokenPrice / 10_000 : ''}"></td>
+        <td><input type="number" class="input input-sm" data-field="image" min="0" step="0.001" placeholder="-" value="${price?.imagePrice ?? ''}"></td>
+        <td><button class="btn btn-ghost btn-icon btn-sm remove-price-override" title="Remove">${icons.x}</button></td>
+      </tr>
+    `;
+
+    return `
+      <div class="pricing-table-wrapper">
+        <table class="pricing-table">
+          <thead>
+            <tr><th>Model</th><th>Prompt / 1M</th><th>Completion / 1M</th><th>Per image</th><th>Source</th></tr>
+          </thead>
+          <tbody>
+            ${table.map(price => `
+              <tr>
+                <td>${this.escapeHtml(price.id)}</td>
+                ${priceCells(price)}
+                <td><span class="price-source price-source-${price.source}">${sourceLabels[price.source || 'builtin']}</span></td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+      <span class="input-hint">
+        Prices for ${this.escapeHtml(provider.name)} •
+        ${fetchedAt ? `Live prices loaded ${new Date(fetchedAt).toLocaleString()}` : 'Live prices not loaded yet - using built-in prices'}
+        • Version ${pricing.getPriceVersion(provider.id)}
+      </span>
+
+      <h4>Overrides</h4>
+      <span class="input-hint">Override prices for models the API doesn't report, or to match your billing. Leave token prices empty for image models.</span>
+      <div class="pricing-table-wrapper">
+        <table class="pricing-table" id="price-overrides">
+          <thead>
+            <tr><th>Model</th><th>Prompt $ / 1M</th><th>Completion $ / 1M</th><th>$ / image</th><th></th></tr>
+          </thead>
+          <tbody>
+            ${overrides.map(overrideRow).join('')}
+            ${overrideRow()}
+          </tbody>
+        </table>
+      </div>
+      <div class="row">
+        <button class="btn btn-primary flex-1" id="save-price-overrides">
+          ${icons.check} Save Overrides
+        </button>
+        <button class="btn btn-secondary flex-1" id="recompute-costs" title="Recompute recorded costs with the prices each request was made at">
+          ${icons.refresh} Recompute Costs
+        </button>
+      </div>
+      <button class="btn btn-ghost btn-sm" id="estimate-current-prices" title="Recorded costs are not changed">
+        ${icons.zap} Compare history at current prices
+      </button>
+    `;
+  }
+
+  // The image this one was edited from, and the edits made from it
+  private renderPostLineage(post: FavoritePost): string {
+    const images = storage.getFavorites().filter(f => f.type === 'image');
+    const parent = post.parentPostId ? images.find(f => f.id === post.parentPostId) : undefined;
+    const edits = images.filter(f => f.parentPostId === post.id);
+    if (!post.parentPostId && edits.length === 0) return '';
+
+    const renderLink = (linked: FavoritePost) => `
+      <button class="lineage-item" data-post-id="${linked.id}" title="${this.escapeAttribute(linked.prompt)}">
+        <img src="${this.getMediaSrc(mediaStore.getImageKey(linked.id), linked.imageUrl)}" data-media-key="${mediaStore.getImageKey(linked.id)}" ${this.renderMediaPath(linked.imagePath)} alt="" loading="lazy">
+        <span>${this.escapeHtml(this.truncateText(linked.prompt, 60))}</span>
+      </button>
+    `;
+
+    return `
+      <div class="post-lineage">
+        <h3>${icons.gitBranch} Lineage</h3>
+        ${post.parentPostId ? `
+          <span class="input-hint">Edited from</span>
+          ${parent ? renderLink(parent) : '<p class="text-secondary text-sm">An image that has since been deleted</p>'}
+        ` : ''}
+        ${edits.length > 0 ? `
+          <span class="input-hint">Edits (${edits.length})</span>
+          <div class="lineage-items">${edits.map(renderLink).join('')}</div>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  private renderPost(): string {
+    if (!this.currentPostId) {
+      return this.renderGallery();
+    }
+
+    const post = storage.getFavorites().find(f => f.id === this.currentPostId);
+    if (!post || post.type !== 'image') {
+      return this.renderGallery();
+    }
+
+    // Get video job state from storage
+    const videoJob = videoJobManager.getJobForPost(this.currentPostId);
+    const isVideoGenerating = videoJob?.status === 'pending';
+    const videoError = videoJob?.status === 'error' ? videoJob.errorMessage || 'Video generation failed' : null;
+
+    // Get videos stored on post
+    const videos = post.videos || [];
+    const hasVideos = videos.length > 0;
+    
+    // Clamp video index to valid range
+    const videoIndex = Math.min(this.currentVideoIndex, Math.max(0, videos.length - 1));
+    const currentVideo = hasVideos ? videos[videoIndex] : null;
+
+    const date = new Date(post.createdAt).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+
+    return `
+      <div class="post-view">
+        <div class="post-header">
+          <button class="btn btn-ghost" id="back-to-gallery">
+            ${icons.arrowLeft} Back to Gallery
+          </button>
+          <div class="post-actions">
+            <button class="btn btn-secondary" id="discuss-post" title="Ask Grok about this image">
+              ${icons.messageSquare} Discuss in chat
+            </button>
+            <button class="btn btn-secondary" id="edit-post-image" title="Edit this image or make variations">
+              ${icons.edit} Edit
+            </button>
+            <a href="${this.getMediaSrc(mediaStore.getImageKey(post.id), post.imageUrl)}" data-media-key="${mediaStore.getImageKey(post.id)}" ${this.renderMediaPath(post.imagePath)} download="grok-bud-image-${post.id}.jpg" class="btn btn-ghost btn-icon" title="Download image">
+              ${icons.download}
+            </a>
+            <button class="btn btn-danger btn-icon" id="delete-post" title="Delete">
+              ${icons.trash}
+            </button>
+          </div>
+        </div>
+        
+        <div class="post-content">
+          <div class="post-media-container">
+            ${hasVideos ? `
+              <div class="media-toggle">
+                <button class="media-toggle-btn ${this.mediaView === 'image' ? 'active' : ''}" id="media-view-image">
+                  ${icons.image} Image
+                </button>
+                <button class="media-toggle-btn ${this.mediaView === 'video' ? 'active' : ''}" id="media-view-video">
+                  ${icons.video} Videos (${videos.length})
+                </button>
+              </div>
+            ` : ''}
+            
+            ${this.mediaView === 'image' || !hasVideos ? `
+              <div class="post-image-container">
+                <img src="${this.getMediaSrc(mediaStore.getImageKey(post.id), post.imageUrl)}" data-media-key="${mediaStore.getImageKey(post.id)}" ${this.renderMediaPath(post.imagePath)} alt="Generated image" class="post-image">
+              </div>
+            ` : `
+              <div class="post-video-container">
+                <video controls autoplay loop class="post-video" key="${currentVideo?.id}">
+                  <source src="${currentVideo ? this.getMediaSrc(mediaStore.getVideoKey(currentVideo.id), currentVideo.url) : ''}" ${currentVideo ? `data-media-key="${mediaStore.getVideoKey(currentVideo.id)}" ${this.renderMediaPath(currentVideo.path)}` : ''} type="video/mp4">
+                  Your browser does not support the video tag.
+                </video>
+                
+                <div class="video-controls-overlay">
+                  <div class="video-nav">
+                    <button class="btn btn-ghost btn-icon" id="video-prev" ${videoIndex === 0 ? 'disabled' : ''}>
+                      ${icons.chevronLeft}
+                    </button>
+                    <span class="video-counter">${videoIndex + 1} / ${videos.length}</span>
+                    <button class="btn btn-ghost btn-icon" id="video-next" ${videoIndex >= videos.length - 1 ? 'disabled' : ''}>
+                      ${icons.chevronRight}
+                    </button>
+                  </div>
+                  
+                  <div class="video-actions">
+                    <button class="btn btn-ghost btn-icon" id="video-star" title="${currentVideo?.starred ? 'Unstar' : 'Star'}">
+                      ${currentVideo?.starred ? icons.starFilled : icons.star}
+                    </button>
+                    <a href="${currentVideo ? this.getMediaSrc(mediaStore.getVideoKey(currentVideo.id), currentVideo.url) : ''}" ${currentVideo ? `data-media-key="${mediaStore.getVideoKey(currentVideo.id)}" ${this.renderMediaPath(currentVideo.path)}` : ''} download="grok-bud-video-${currentVideo?.id}.mp4" class="btn btn-ghost btn-icon" title="Download">
+                      ${icons.download}
+                    </a>
+                    <button class="btn btn-ghost btn-icon text-error" id="video-delete" title="Delete video">
+                      ${icons.trash}
+                    </button>
+                  </div>
+                </div>
+                
+                <div class="video-info">
+                  <span class="video-duration">${currentVideo?.duration}s</span>
+                  <span class="video-prompt" title="${this.escapeHtml(currentVideo?.prompt || '')}">${this.escapeHtml(this.truncateText(currentVideo?.prompt || '', 50))}</span>
+                </div>
+              </div>
+            `}
+          </div>
+          
+          <div class="post-details">
+            <div class="post-meta">
+              <span class="post-model">${post.model}</span>
+              ${post.providerName ? `<span class="post-model">${this.escapeHtml(post.providerName)}</span>` : ''}
+              <span class="post-date">${date}</span>
+            </div>
+            
+            <div class="post-prompt">
+              <div class="post-prompt-header">
+                <h3>Prompt</h3>
+                <button class="btn btn-ghost btn-sm" id="copy-post-prompt" title="Copy prompt">
+                  ${icons.copy} Copy
+                </button>
+              </div>
+              <p>${this.escapeHtml(post.prompt)}</p>
+              ${post.originalPrompt ? `
+                <div class="post-original-prompt">
+                  <span class="input-hint">Before enhancement</span>
+                  <p>${this.escapeHtml(post.originalPrompt)}</p>
+                </div>
+              ` : ''}
+            </div>
+
+            ${this.renderPostLineage(post)}
+
+            <div class="post-video-section card">
+              <h3>${icons.video} Generate Video</h3>
+              <p class="text-secondary text-sm">Transform this image into a video using Grok's video generation.</p>
+              
+              <div class="video-gen-form">
+                <div class="input-group">
+                  <label for="video-prompt">Video Prompt (optional)</label>
+                  <textarea 
+                    class="input" 
+                    id="video-prompt" 
+                    rows="2"
+                    placeholder="Describe how you want the image to animate..."
+                    ${isVideoGenerating ? 'disabled' : ''}
+                  ></textarea>
+                  <span class="input-hint">Leave empty to use the original image prompt</span>
+                </div>
+                
+                <div class="video-gen-options">
+                  <div class="input-group">
+                    <label for="video-model">Model</label>
+                    <select class="input input-select" id="video-model" ${isVideoGenerating ? 'disabled' : ''}>
+                      ${this.renderModelOptions('video', this.resolveSelectedModel('video', storage.getSelectedVideoModel()))}
+                    </select>
+                  </div>
+                  <div class="input-group">
+                    <label for="video-duration">Duration</label>
+                    <select class="input input-select" id="video-duration" ${isVideoGenerating ? 'disabled' : ''}>
+                      <option value="5">5 seconds</option>
+                      <option value="6" selected>6 seconds</option>
+                      <option value="7">7 seconds</option>
+                      <option value="8">8 seconds</option>
+                      <option value="9">9 seconds</option>
+                      <option value="10">10 seconds</option>
+                      <option value="11">11 seconds</option>
+                      <option value="12">12 seconds</option>
+                      <option value="13">13 seconds</option>
+                      <option value="14">14 seconds</option>
+                      <option value="15">15 seconds</option>
+                    </select>
+                  </div>
+                </div>
+                
+                <div class="btn-group">
+                  <button class="btn btn-primary btn-lg w-full" id="generate-video" ${isVideoGenerating ? 'disabled' : ''}>
+                    ${isVideoGenerating ? icons.loader : icons.video}
+                    ${isVideoGenerating ? 'Generating...' : 'Generate Video'}
+                  </button>
+                </div>
+              </div>
+              
+              ${videoError ? `
+                <div class="video-error mt-4">
+                  <p class="text-error">${icons.x} ${this.escapeHtml(videoError)}</p>
+                  ${videoJob?.errorKind === 'quota' ? this.renderAddFunds(videoJob.providerId) : ''}
+                </div>
+              ` : ''}
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  private truncateText(text: string, maxLength: number): string {
+    if (text.length <= maxLength) return text;
+    return text.substring(0, maxLength) + '...';
+  }
+
+  private attachEventListeners(): void {
+    // Sidebar toggle
+    const sidebarToggle = document.getElementById('sidebar-toggle');
+    sidebarToggle?.addEventListener('click', () => {
+      this.sidebarCollapsed = !this.sidebarCollapsed;
+      storage.setSidebarCollapsed(this.sidebarCollapsed);
+      
+      const sidebar = document.getElementById('sidebar');
+      const mainContent = document.querySelector('.main-content');
+      
+      if (sidebar) {
+        sidebar.classList.toggle('collapsed', this.sidebarCollapsed);
+      }
+      if (mainContent) {
+        mainContent.classList.toggle('sidebar-collapsed', this.sidebarCollapsed);
+      }
+      
+      // Update toggle button icon
+      if (sidebarToggle) {
+        sidebarToggle.innerHTML = this.sidebarCollapsed ? icons.chevronRight : icons.chevronLeft;
+      }
+    });
+    
+    // Desktop Navigation
+    document.querySelectorAll('.nav-item').forEach(item => {
+      item.addEventListener('click', (e) => {
+        const view = (e.currentTarget as HTMLElement).dataset.view as ViewType;
+        if (view) {
+          this.currentView = view;
+          this.refreshView();
+        }
+      });
+    });
+
+    // Mobile Navigation
+    document.querySelectorAll('.mobile-nav-item').forEach(item => {
+      item.addEventListener('click', (e) => {
+        const view = (e.currentTarget as HTMLElement).dataset.view as ViewType;
+        if (view) {
+          this.currentView = view;
+          this.refreshView();
+        }
+      });
+    });
+
+    // Auth listeners
+    this.attachAuthListeners();
+
+    // View-specific listeners
+    this.attachViewListeners();
+  }
+
+  private attachViewListeners(): void {
+    this.hydrateMedia();
+
+    switch (this.currentView) {
+      case 'gallery':
+        this.attachGalleryListeners();
+        break;
+      case 'chat':
+        this.attachChatListeners();
+        break;
+      case 'compare':
+        this.attachCompareListeners();
+        break;
+      case 'image-gen':
+        this.attachImageGenListeners();
+        break;
+      case 'settings':
+        this.attachSettingsListeners();
+        break;
+      case 'post':
+        this.attachPostListeners();
+        break;
+    }
+  }
+
+  private attachGalleryListeners(): void {
+    // Gallery columns control
+    const columnsSelect = document.getElementById('gallery-columns') as HTMLSelectElement;
+    columnsSelect?.addEventListener('change', () => {
+      storage.setGalleryColumns(parseInt(columnsSelect.value));
+      this.refreshView();
+    });
+
+    // Click on gallery card to open post view
+    document.querySelectorAll('.gallery-card').forEach(card => {
+      card.addEventListener('click', (e) => {
+        // Don't navigate if clicking on action buttons
+        if ((e.target as HTMLElement).closest('[data-action]')) return;
+        
+        const postId = (card as HTMLElement).dataset.postId;
+        if (postId) {
+          this.currentPostId = postId;
+          this.currentView = 'post';
+          this.refreshView();
+        }
+      });
+    });
+
+    document.querySelectorAll('[data-action="delete"]').forEach(btn => {
+      btn.addEventListener('click', async (e) => {
+        e.stopPropagation();
+        const postId = (e.currentTarget as HTMLElement).dataset.postId;
+        if (postId) {
+          const confirmed = await this.showConfirmModal({
+            title: 'Delete Image',
+            message: 'Are you sure you want to delete this image from your favorites?',
+            confirmText: 'Delete',
+            confirmClass: 'btn-danger'
+          });
+          if (confirmed) {
+            cloudStorage.removeFavoriteFromCloud(postId);
+            this.refreshView();
+            this.showToast('Image deleted', 'success');
+          }
+        }
+      });
+    });
+
+    document.querySelectorAll('[data-action="copy"]').forEach(btn => {
+      btn.addEventListener('click', async (e) => {
+        e.stopPropagation();
+        const postId = (e.currentTarget as HTMLElement).dataset.postId;
+        if (postId) {
+          const post = storage.getFavorites().find(f => f.id === postId);
+          if (post) {
+            await navigator.clipboard.writeText(post.prompt);
+            this.showToast('Prompt copied!', 'success');
+          }
+        }
+      });
+    });
+  }
+
+  private attachChatListeners(): void {
+    const sendBtn = document.getElementById('send-message');
+    const stopBtn = document.getElementById('stop-generation');
+    const input = document.getElementById('chat-input') as HTMLTextAreaElement;
+    const modelSelect = document.getElementById('chat-model') as HTMLSelectElement;
+    const deleteBtn = document.getElementById('delete-current-chat');
+    const saveBtn = document.getElementById('save-chat');
+
+    // Restored text has been rendered into the input, don't bring it back again
+    this.pendingChatInput = '';
+
+    const sendMessage = async () => {
+      const message = input?.value.trim();
+      const images = this.pendingChatImages;
+      if ((!message && images.length === 0) || this.isLoading) return;
+
+      if (!grokApi.getApiKey()) {
+        this.showToast('Please set your API key in Settings first', 'error');
+        return;
+      }
+
+      // Unknown models may still accept images, so only block the ones we know can't
+      const capabilities = models.getModelCapabilities(modelSelect?.value || 'grok-3');
+      if (images.length > 0 && capabilities.known && !capabilities.inputModalities.includes('image')) {
+        this.showToast(`${capabilities.label} can't read images. Pick a vision model to send attachments.`, 'error');
+        return;
+      }
+
+      const previous = cloneChatTree(this.chatTree);
+      appendToActivePath(this.chatTree, [{ role: 'user', content: buildMessageContent(message, images) }]);
+      this.pendingChatImages = [];
+      input.value = '';
+
+      await this.requestChatReply(modelSelect?.value || 'grok-3', (aborted) => {
+        this.chatTree = previous; // Remove the failed user message
+        if (aborted) {
+          // Hand the message back for editing
+          this.pendingChatInput = message;
+          this.pendingChatImages = images;
+        }
+      });
+    };
+
+    sendBtn?.addEventListener('click', sendMessage);
+    stopBtn?.addEventListener('click', () => this.abortController?.abort());
+
+    // Image attachments: upload button, paste and drag & drop
+    const attachImages = async (files: File[]) => {
+      const images = files.filter(file => file.type.startsWith('image/'));
+      if (images.length === 0) return;
+
+      for (const file of images) {
+        try {
+          this.pendingChatImages.push(await saveAttachment(await readImageFile(file)));
+        } catch (error) {
+          this.showToast(error instanceof Error ? error.message : 'Could not read image', 'error');
+        }
+      }
+      // Keep what's been typed so far across the re-render
+      this.pendingChatInput = (document.getElementById('chat-input') as HTMLTextAreaElement)?.value || '';
+      this.refreshView();
+      document.getElementById('chat-input')?.focus();
+    };
+
+    const imageInput = document.getElementById('chat-image-input') as HTMLInputElement;
+    document.getElementById('attach-image')?.addEventListener('click', () => imageInput?.click());
+    imageInput?.addEventListener('change', () => {
+      attachImages(Array.from(imageInput.files || []));
+    });
+
+    input?.addEventListener('paste', (e) => {
+      const files = Array.from(e.clipboardData?.files || []).filter(file => file.type.startsWith('image/'));
+      if (files.length > 0) {
+        e.preventDefault();
+        attachImages(files);
+      }
+    });
+
+    const inputArea = document.getElementById('chat-input-area');
+    inputArea?.addEventListener('dragover', (e) => {
+      if (!e.dataTransfer?.types.includes('Files')) return;
+      e.preventDefault();
+      inputArea.classList.add('drag-over');
+    });
+    inputArea?.addEventListener('dragleave', (e) => {
+      if (!inputArea.contains(e.relatedTarget as Node)) {
+        inputArea.classList.remove('drag-over');
+      }
+    });
+    inputArea?.addEventListener('drop', (e) => {
+      e.preventDefault();
+      inputArea.classList.remove('drag-over');
+      if (this.isLoading) return;
+      attachImages(Array.from(e.dataTransfer?.files || []));
+    });
+
+    document.querySelectorAll<HTMLElement>('.chat-attachment-remove').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const [url] = this.pendingChatImages.splice(Number(btn.dataset.attachmentIndex), 1);
+        if (url && !getTreeAttachmentUrls(this.chatTree).includes(url)) deleteAttachments([url]);
+        this.pendingChatInput = input?.value || '';
+        this.refreshView();
+      });
+    });
+
+    this.attachSchemaListeners();
+    this.attachChatSettingsListeners();
+    this.attachMessageActionListeners();
+    this.attachChatTitleListeners();
+    this.attachChatListListeners();
+    this.attachTemplatePickerListeners('chat');
+    input?.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        sendMessage();
+      }
+    });
+
+    // Model selector - update current chat's model
+    modelSelect?.addEventListener('change', () => {
+      const model = modelSelect.value;
+      storage.setSelectedModel(model);
+      // If we have a current chat, update its model too
+      if (this.currentChatId) {
+        cloudStorage.updateChatInCloud(this.currentChatId, this.chatTree, model);
+      }
+    });
+
+
+    // Delete current chat
+    deleteBtn?.addEventListener('click', async () => {
+      if (this.currentChatId) {
+        const confirmed = await this.showConfirmModal({
+          title: 'Delete Chat',
+          message: 'Are you sure you want to delete this chat? This cannot be undone.',
+          confirmText: 'Delete',
+          confirmClass: 'btn-danger'
+        });
+        if (confirmed) {
+          cloudStorage.removeFavoriteFromCloud(this.currentChatId);
+          this.chatTree = createChatTree();
+          this.currentChatId = null;
+          this.resetChatDraft();
+          storage.setCurrentChatId(null);
+          this.refreshView();
+          this.showToast('Chat deleted', 'success');
+        }
+      }
+    });
+
+    // Download the active branch as a standalone HTML page
+    document.getElementById('export-chat')?.addEventListener('click', async () => {
+      const title = (this.currentChatId && storage.getChat(this.currentChatId)?.title) || 'Chat';
+      const filename = `${title.replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'chat'}.html`;
+      try {
+        // Embed attached images, the page can't read them from this app's storage
+        const messages = await resolveAttachments(this.chatMessages);
+        this.downloadFile(filename, renderTranscript(title, messages), 'text/html');
+      } catch (error) {
+        this.showToast(error instanceof Error ? error.message : 'Could not export the chat', 'error');
+      }
+    });
+
+    // Save chat as favorite
+    saveBtn?.addEventListener('click', async () => {
+      if (this.chatMessages.length >= 2) {
+        const model = modelSelect?.value || storage.getSelectedModel();
+        if (this.currentChatId) {
+          // Already saved, just update
+          cloudStorage.updateChatInCloud(this.currentChatId, this.chatTree, model);
+          this.showToast('Chat updated!', 'success');
+        } else {
+          // Save as new favorite
+          const provider = storage.getActiveProvider();
+          const newChat = await cloudStorage.createChatInCloud(this.chatTree, model, this.draftChatTitle || undefined, provider, this.draftChatSettings);
+          this.currentChatId = newChat.id;
+          storage.setCurrentChatId(newChat.id);
+          this.showToast('Chat saved!', 'success');
+        }
+        this.refreshView();
+      }
+    });
+  }
+
+  /**
+   * Stream the assistant's reply to the conversation so far (which ends with a user message)
+   * and save it. If the request fails or is stopped, rollback undoes the caller's changes.
+   */
+  private async requestChatReply(model: string, rollback: (aborted: boolean) => void): Promise<void> {
+    this.isLoading = true;
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
+    this.refreshView();
+
+    try {
+      storage.setSelectedModel(model);
+
+      const schema = storage.getActiveSchema();
+      const settings = this.getCurrentChatSettings();
+
+      // Pre-flight: keep the request inside the model's context window
+      const path = getActivePath(this.chatTree);
+      const budget = getContextBudget(model, settings.maxTokens);
+      let plan = planContext(path, settings.systemPrompt, budget);
+      if (plan.overBudget) {
+        throw new Error(`The message is too long for ${models.getModelCapabilities(model).label} ` +
+          `(about ${this.formatTokens(plan.tokens)} tokens, limit ${this.formatTokens(budget)})`);
+      }
+      if (storage.getContextStrategy() === 'summarize' && plan.startIndex > plan.summaryIndex + 1) {
+        this.toolStatus = 'Summarizing earlier messages...';
+        this.refreshView();
+        try {
+          await summarizeDroppedTurns(grokApi, storage.getHelperModel(), path, plan, { signal });
+          plan = planContext(path, settings.systemPrompt, budget);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          // Still send the reply, just without the older turns
+          console.error('[Context] Failed to summarize:', error);
+          this.showToast('Could not summarize earlier messages, so they were left out', 'error');
+        }
+        this.toolStatus = '';
+      }
+
+      // Runs any tools the model asks for and returns every message of the turn
+      const replies = await chatWithTools(
+        grokApi,
+        await resolveAttachments(buildContextMessages(path, settings.systemPrompt, plan)),
+        model,
+        {
+          onDelta: (content) => this.renderStreamingContent(content),
+          onToolCall: (call, tool) => {
+            this.streamingContent = '';
+            this.toolStatus = `${tool?.label || call.function.name}...`;
+            this.refreshView();
+          },
+          requestOptions: { signal, onRetry: (attempt, delayMs) => this.showRetryStatus(attempt, delayMs) },
+          completionOptions: {
+            ...this.getCompletionOptions(settings, model),
+            ...(schema && {
+              response_format: {
+                type: 'json_schema',
+                json_schema: { name: this.toSchemaName(schema.name), schema: schema.schema, strict: true },
+              },
+            }),
+          },
+        }
+      );
+
+      if (schema) {
+        const reply = replies[replies.length - 1];
+        reply.meta = { ...reply.meta, schema: this.checkSchemaReply(getMessageText(reply), schema) };
+      }
+      appendToActivePath(this.chatTree, replies);
+      if (replies.some(m => m.role === 'tool')) {
+        this.refreshSidebar();
+      }
+
+      // Update existing saved chat if we're in one
+      if (this.currentChatId) {
+        cloudStorage.updateChatInCloud(this.currentChatId, this.chatTree, model);
+      }
+
+      const isFirstExchange = this.chatMessages.filter(m => m.role === 'user').length === 1;
+      if (isFirstExchange && !this.currentChatId && !this.draftChatTitle && storage.getAutoTitleChats()) {
+        this.autoTitleChat();
+      }
+    } catch (error) {
+      // Discard any partial reply
+      const aborted = isAbortError(error);
+      rollback(aborted);
+      if (aborted) {
+        this.showToast('Response stopped', 'success');
+      } else {
+        this.showApiError(error);
+      }
+    } finally {
+      this.isLoading = false;
+      this.streamingContent = '';
+      this.toolStatus = '';
+      this.abortController = null;
+      this.clearRetryStatus();
+      this.refreshView();
+      // Scroll to bottom
+      const messagesDiv = document.getElementById('chat-messages');
+      if (messagesDiv) {
+        messagesDiv.scrollTop = messagesDiv.scrollHeight;
+      }
+    }
+  }
+
+  // Name a new chat from its first exchange, without holding up the reply
+  private async autoTitleChat(): Promise<void> {
+    const tree = this.chatTree;
+    try {
+      const title = await generateChatTitle(grokApi, storage.getHelperModel(), getActiveMessages(tree));
+      // The user may have saved the chat meanwhile, or moved on to another one
+      if (this.chatTree !== tree || this.renamingChat) return;
+
+      if (this.currentChatId) {
+        await cloudStorage.updateFavoriteInCloud(this.currentChatId, { title });
+        const listTitle = document.querySelector(`.chat-list-item[data-chat-id="${this.currentChatId}"] .chat-list-title`);
+        if (listTitle) listTitle.textContent = title;
+      } else {
+        this.draftChatTitle = title;
+      }
+      const titleText = document.getElementById('chat-title-text');
+      if (titleText) titleText.textContent = title;
+    } catch (error) {
+      console.error('[Chat] Failed to generate a title:', error);
+    }
+  }
+
+  private openChat(chatId: string | null): void {
+    if (this.isLoading) {
+      this.showToast('Wait for the current reply to finish', 'error');
+      return;
+    }
+
+    const chat = chatId ? storage.getChat(chatId) : undefined;
+    if (chat) {
+      this.chatTree = storage.getChatTree(chat);
+      this.currentChatId = chat.id;
+      this.editingMessageIndex = null;
+      this.renamingChat = false;
+    } else {
+      this.chatTree = createChatTree();
+      this.currentChatId = null;
+      this.resetChatDraft();
+    }
+    storage.setCurrentChatId(this.currentChatId);
+    this.chatListOpen = false;
+    this.refreshView();
+  }
+
+  // Redraw just the list, so the search box keeps focus
+  private refreshChatList(): void {
+    const list = document.getElementById('chat-list');
+    if (!list) return;
+    list.innerHTML = this.renderChatListItems();
+    this.attachChatListItemListeners();
+  }
+
+  private attachChatListListeners(): void {
+    document.getElementById('new-chat')?.addEventListener('click', () => this.openChat(null));
+
+    document.getElementById('toggle-chat-list')?.addEventListener('click', () => {
+      this.chatListOpen = !this.chatListOpen;
+      document.querySelector('.chat-layout')?.classList.toggle('list-open', this.chatListOpen);
+    });
+
+    const searchInput = document.getElementById('chat-search') as HTMLInputElement;
+    searchInput?.addEventListener('input', () => {
+      this.chatSearchQuery = searchInput.value;
+      this.refreshChatList();
+    });
+
+    this.attachChatListItemListeners();
+  }
+
+  private attachChatListItemListeners(): void {
+    document.querySelectorAll<HTMLElement>('.chat-list-open').forEach(btn => {
+      btn.addEventListener('click', () => this.openChat(btn.dataset.chatId!));
+    });
+
+    document.querySelectorAll<HTMLElement>('.chat-pin').forEach(btn => {
+      btn.addEventListener('click', async () => {
+        const chat = storage.getChat(btn.dataset.chatId!);
+        if (!chat) return;
+        await cloudStorage.updateFavoriteInCloud(chat.id, { pinned: !chat.pinned });
+        this.refreshChatList();
+      });
+    });
+
+    document.querySelectorAll<HTMLElement>('.chat-move').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.movingChatId = this.movingChatId === btn.dataset.chatId ? null : btn.dataset.chatId!;
+        this.refreshChatList();
+        document.getElementById('chat-folder-input')?.focus();
+      });
+    });
+
+    const folderInput = document.getElementById('chat-folder-input') as HTMLInputElement;
+    const finishMove = async (save: boolean) => {
+      const chatId = this.movingChatId;
+      if (!chatId) return; // Enter and the blur that follows both end up here
+      this.movingChatId = null;
+      if (save) {
+        // An empty string (not undefined) so the cloud copy is cleared too
+        await cloudStorage.updateFavoriteInCloud(chatId, { folder: folderInput.value.trim() });
+      }
+      this.refreshChatList();
+    };
+    folderInput?.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        finishMove(true);
+      } else if (e.key === 'Escape') {
+        finishMove(false);
+      }
+    });
+    folderInput?.addEventListener('blur', () => finishMove(true));
+
+    document.querySelectorAll<HTMLDetailsElement>('.chat-folder').forEach(details => {
+      details.addEventListener('toggle', () => {
+        const folder = details.dataset.folder!;
+        if (details.open) {
+          this.collapsedFolders.delete(folder);
+        } else {
+          this.collapsedFolders.add(folder);
+        }
+      });
+    });
+  }
+
+  private attachChatTitleListeners(): void {
+    const input = document.getElementById('chat-input') as HTMLTextAreaElement;
+    const titleInput = document.getElementById('chat-title-input') as HTMLInputElement;
+
+    document.getElementById('rename-chat')?.addEventListener('click', () => {
+      this.renamingChat = true;
+      this.pendingChatInput = input?.value || '';
+      this.refreshView();
+      const renameInput = document.getElementById('chat-title-input') as HTMLInputElement;
+      renameInput?.focus();
+      renameInput?.select();
+    });
+
+    const finishRename = async (save: boolean) => {
+      if (!this.renamingChat) return; // Enter and the blur that follows both end up here
+      this.renamingChat = false;
+
+      const title = titleInput.value.trim();
+      if (save && title) {
+        if (this.currentChatId) {
+          await cloudStorage.updateFavoriteInCloud(this.currentChatId, { title });
+        } else {
+          this.draftChatTitle = title;
+        }
+      }
+      this.pendingChatInput = input?.value || '';
+      this.refreshView();
+    };
+
+    titleInput?.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        finishRename(true);
+      } else if (e.key === 'Escape') {
+        finishRename(false);
+      }
+    });
+    titleInput?.addEventListener('blur', () => finishRename(true));
+  }
+
+  // Copy buttons renderMarkdown adds to code blocks
+  private attachCodeCopyListeners(): void {
+    document.querySelectorAll<HTMLElement>('.copy-code').forEach(btn => {
+      btn.addEventListener('click', async () => {
+        const code = btn.closest('.code-block')?.querySelector('code')?.textContent || '';
+        await navigator.clipboard.writeText(code);
+        this.showToast('Code copied!', 'success');
+      });
+    });
+  }
+
+  private attachMessageActionListeners(): void {
+    const modelSelect = document.getElementById('chat-model') as HTMLSelectElement;
+    const input = document.getElementById('chat-input') as HTMLTextAreaElement;
+    const getModel = () => modelSelect?.value || storage.getSelectedModel();
+    const messageAt = (btn: HTMLElement) => Number(btn.dataset.messageIndex);
+
+    document.querySelectorAll<HTMLElement>('.branch-switch').forEach(btn => {
+      btn.addEventListener('click', () => {
+        selectSibling(this.chatTree, btn.dataset.nodeId!, Number(btn.dataset.offset));
+        this.editingMessageIndex = null;
+        // Remember the chosen branch
+        if (this.currentChatId) {
+          cloudStorage.updateChatInCloud(this.currentChatId, this.chatTree, getModel());
+        }
+        this.pendingChatInput = input?.value || '';
+        this.refreshView();
+      });
+    });
+
+    this.attachCodeCopyListeners();
+
+    document.querySelectorAll<HTMLElement>('.copy-message').forEach(btn => {
+      btn.addEventListener('click', async () => {
+        const message = this.chatMessages[messageAt(btn)];
+        if (!message) return;
+        await navigator.clipboard.writeText(getMessageText(message));
+        this.showToast('Message copied!', 'success');
+      });
+    });
 
-            <div class="post-video-section card">
-              <h3>${icons.video} Generate Video</h3>
-              <p class="text-secondary text-sm">Transform this image into a video using Grok's video generation.</p>
-              
-              <div class="video-gen-form">
-                <div class="input-group">
-                  <label for="video-prompt">Video Prompt (optional)</label>
-                  <textarea 
-                    class="input" 
-                    id="video-prompt" 
-                    rows="2"
-                    placeholder="Describe how you want the image to animate..."
-                    ${isVideoGenerating ? 'disabled' : ''}
-                  ></textarea>
-                  <span class="input-hint">Leave empty to use the original image prompt</span>
-                </div>
-                
-                <div class="video-gen-options">
-                  <div class="input-group">
-                    <label for="video-duration">Duration</label>
-                    <select class="input input-select" id="video-duration" ${isVideoGenerating ? 'disabled' : ''}>
-                      <option value="5">5 seconds</option>
-                      <option value="6" selected>6 seconds</option>
-                      <option value="7">7 seconds</option>
-                      <option value="8">8 seconds</option>
-                      <option value="9">9 seconds</option>
-                      <option value="10">10 seconds</option>
-                      <option value="11">11 seconds</option>
-                      <option value="12">12 seconds</option>
-                      <option value="13">13 seconds</option>
-                      <option value="14">14 seconds</option>
-                      <option value="15">15 seconds</option>
-                    </select>
-                  </div>
-                </div>
-                
-                <div class="btn-group">
-                  <button class="btn btn-primary btn-lg w-full" id="generate-video" ${isVideoGenerating ? 'disabled' : ''}>
-                    ${isVideoGenerating ? icons.loader : icons.video}
-                    ${isVideoGenerating ? 'Generating...' : 'Generate Video'}
-                  </button>
-                </div>
-              </div>
-              
-              ${videoError ? `
-                <div class="video-error mt-4">
-                  <p class="text-error">${icons.x} ${videoError}</p>
-                </div>
-              ` : ''}
-            </div>
-          </div>
-        </div>
-      </div>
-    `;
+    document.querySelectorAll<HTMLElement>('.edit-message').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.editingMessageIndex = messageAt(btn);
+        this.pendingChatInput = input?.value || '';
+        this.refreshView();
+        const editInput = document.getElementById('edit-message-input') as HTMLTextAreaElement;
+        editInput?.focus();
+        editInput?.setSelectionRange(editInput.value.length, editInput.value.length);
+      });
+    });
+
+    document.getElementById('cancel-edit-message')?.addEventListener('click', () => {
+      this.editingMessageIndex = null;
+      this.pendingChatInput = input?.value || '';
+      this.refreshView();
+    });
+
+    // Resubmit the edited message, keeping the original on its own branch
+    const submitEdit = async () => {
+      const index = this.editingMessageIndex;
+      const original = index !== null ? this.chatMessages[index] : undefined;
+      const text = (document.getElementById('edit-message-input') as HTMLTextAreaElement)?.value.trim();
+      if (index === null || !original || this.isLoading) return;
+
+      const images = getMessageImages(original);
+      if (!text && images.length === 0) {
+        this.showToast('Message cannot be empty', 'error');
+        return;
+      }
+
+      // The edit becomes a new branch beside the original message
+      const previous = cloneChatTree(this.chatTree);
+      truncateActivePath(this.chatTree, getActivePath(this.chatTree)[index].parentId);
+      appendToActivePath(this.chatTree, [{ role: 'user', content: buildMessageContent(text, images) }]);
+      this.editingMessageIndex = null;
+      this.pendingChatInput = input?.value || '';
+      await this.requestChatReply(getModel(), () => {
+        this.chatTree = previous;
+      });
+    };
+
+    document.getElementById('submit-edit-message')?.addEventListener('click', submitEdit);
+    document.getElementById('edit-message-input')?.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        submitEdit();
+      } else if (e.key === 'Escape') {
+        document.getElementById('cancel-edit-message')?.click();
+      }
+    });
+
+    // Ask again for the last reply - the new one becomes a sibling branch
+    document.querySelectorAll<HTMLElement>('.regenerate-message').forEach(btn => {
+      btn.addEventListener('click', async () => {
+        const lastUser = getActivePath(this.chatTree).filter(node => node.message.role === 'user').pop();
+        if (!lastUser || this.isLoading) return;
+
+        const previous = cloneChatTree(this.chatTree);
+        truncateActivePath(this.chatTree, lastUser.id);
+        this.pendingChatInput = input?.value || '';
+        await this.requestChatReply(getModel(), () => {
+          this.chatTree = previous;
+        });
+      });
+    });
+
+    document.querySelectorAll<HTMLElement>('.delete-message').forEach(btn => {
+      btn.addEventListener('click', async () => {
+        const index = messageAt(btn);
+        const message = this.chatMessages[index];
+        if (!message) return;
+
+        // Removing a single message would leave two messages of the same role in a row,
+        // so its whole turn goes together with everything after it
+        const path = getActivePath(this.chatTree);
+        const turnStart = path[getTurnStart(path, index)];
+        const others = countDescendants(this.chatTree, turnStart.id) + (turnStart === path[index] ? 0 : 1);
+
+        const confirmed = await this.showConfirmModal({
+          title: 'Delete Message',
+          message: others > 0
+            ? `Delete this message and the ${others} message${others === 1 ? '' : 's'} after it, including other branches?`
+            : 'Are you sure you want to delete this message?',
+          confirmText: 'Delete',
+          confirmClass: 'btn-danger'
+        });
+        if (!confirmed) return;
+
+        const attachments = getTreeAttachmentUrls(this.chatTree);
+        removeSubtree(this.chatTree, turnStart.id);
+        // Images another branch still shows are kept
+        const remaining = new Set(getTreeAttachmentUrls(this.chatTree));
+        deleteAttachments(attachments.filter(url => !remaining.has(url)));
+
+        if (this.currentChatId) {
+          cloudStorage.updateChatInCloud(this.currentChatId, this.chatTree, getModel());
+        }
+        this.pendingChatInput = input?.value || '';
+        this.refreshView();
+        this.showToast('Message deleted', 'success');
+      });
+    });
   }
 
-  private truncateText(text: string, maxLength: number): string {
-    if (text.length <= maxLength) return text;
-    return text.substring(0, maxLength) + '...';
+  // Generation parameters for a request, leaving unset ones to the API default
+  private getCompletionOptions(settings: ChatSettings, model: string): Partial<ChatCompletionRequest> {
+    return {
+      ...(settings.temperature !== null && { temperature: settings.temperature }),
+      ...(settings.topP !== null && { top_p: settings.topP }),
+      ...(settings.maxTokens !== null && { max_tokens: settings.maxTokens }),
+      ...(settings.reasoningEffort && models.getModelCapabilities(model).reasoning && {
+        reasoning_effort: settings.reasoningEffort,
+      }),
+    };
   }
 
-  private attachEventListeners(): void {
-    // Sidebar toggle
-    const sidebarToggle = document.getElementById('sidebar-toggle');
-    sidebarToggle?.addEventListener('click', () => {
-      this.sidebarCollapsed = !this.sidebarCollapsed;
-      storage.setSidebarCollapsed(this.sidebarCollapsed);
-      
-      const sidebar = document.getElementById('sidebar');
-      const mainContent = document.querySelector('.main-content');
-      
-      if (sidebar) {
-        sidebar.classList.toggle('collapsed', this.sidebarCollapsed);
+  private attachChatSettingsListeners(): void {
+    const input = document.getElementById('chat-input') as HTMLTextAreaElement;
+    const rerender = () => {
+      this.pendingChatInput = input?.value || '';
+      this.refreshView();
+    };
+
+    const saveSettings = (settings: ChatSettings) => {
+      if (this.currentChatId) {
+        cloudStorage.updateFavoriteInCloud(this.currentChatId, { chatSettings: settings });
+      } else {
+        this.draftChatSettings = settings;
       }
-      if (mainContent) {
-        mainContent.classList.toggle('sidebar-collapsed', this.sidebarCollapsed);
+    };
+
+    const personaSelect = document.getElementById('persona-select') as HTMLSelectElement;
+    personaSelect?.addEventListener('change', () => {
+      if (personaSelect.value === 'manage') {
+        this.currentView = 'settings';
+        this.editingPersonaId = null;
+        this.refreshView();
+        return;
       }
-      
-      // Update toggle button icon
-      if (sidebarToggle) {
-        sidebarToggle.innerHTML = this.sidebarCollapsed ? icons.chevronRight : icons.chevronLeft;
+
+      const persona = storage.getPersona(personaSelect.value);
+      this.draftPersonaId = persona?.id || null;
+      this.draftChatSettings = { ...(persona?.settings || storage.DEFAULT_CHAT_SETTINGS) };
+      if (persona?.model) {
+        storage.setSelectedModel(persona.model);
       }
+      rerender();
     });
-    
-    // Desktop Navigation
-    document.querySelectorAll('.nav-item').forEach(item => {
-      item.addEventListener('click', (e) => {
-        const view = (e.currentTarget as HTMLElement).dataset.view as ViewType;
-        if (view) {
-          this.currentView = view;
-          this.refreshView();
-        }
+
+    document.getElementById('toggle-chat-settings')?.addEventListener('click', () => {
+      this.chatSettingsOpen = !this.chatSettingsOpen;
+      rerender();
+    });
+
+    document.getElementById('apply-chat-settings')?.addEventListener('click', () => {
+      const settings = this.readChatSettingsFields('chat');
+      if (!settings) return;
+
+      saveSettings(settings);
+      this.chatSettingsOpen = false;
+      rerender();
+      this.showToast('Chat settings applied', 'success');
+    });
+
+    document.getElementById('reset-chat-settings')?.addEventListener('click', () => {
+      saveSettings({ ...storage.DEFAULT_CHAT_SETTINGS });
+      rerender();
+      this.showToast('Chat settings reset', 'success');
+    });
+  }
+
+  private attachSchemaListeners(): void {
+    const input = document.getElementById('chat-input') as HTMLTextAreaElement;
+    // Re-render without losing the message being typed
+    const rerender = () => {
+      this.pendingChatInput = input?.value || '';
+      this.refreshView();
+    };
+
+    const schemaSelect = document.getElementById('chat-schema') as HTMLSelectElement;
+    schemaSelect?.addEventListener('change', () => {
+      storage.setActiveSchemaId(schemaSelect.value || null);
+    });
+
+    document.getElementById('toggle-schema-editor')?.addEventListener('click', () => {
+      this.editingSchemaId = this.editingSchemaId ? null : (storage.getActiveSchema()?.id || 'new');
+      rerender();
+    });
+
+    document.getElementById('close-schema-editor')?.addEventListener('click', () => {
+      this.editingSchemaId = null;
+      rerender();
+    });
+
+    const editorSelect = document.getElementById('schema-editor-select') as HTMLSelectElement;
+    editorSelect?.addEventListener('change', () => {
+      this.editingSchemaId = editorSelect.value;
+      rerender();
+    });
+
+    document.getElementById('save-schema')?.addEventListener('click', () => {
+      const name = (document.getElementById('schema-name') as HTMLInputElement).value.trim();
+      const text = (document.getElementById('schema-json') as HTMLTextAreaElement).value;
+      if (!name) {
+        this.showToast('Please name the schema', 'error');
+        return;
+      }
+
+      const parsed = parseSchema(text);
+      if ('error' in parsed) {
+        this.showToast(parsed.error, 'error');
+        return;
+      }
+
+      const existing = this.editingSchemaId === 'new' ? undefined : storage.getSchema(this.editingSchemaId!);
+      const id = existing?.id || crypto.randomUUID();
+      storage.saveSchema({ id, name, schema: parsed.schema, createdAt: existing?.createdAt || Date.now() });
+      storage.setActiveSchemaId(id);
+      this.editingSchemaId = null;
+      this.showToast(`Replies will follow "${name}"`, 'success');
+      rerender();
+    });
+
+    document.getElementById('delete-schema')?.addEventListener('click', async () => {
+      const schema = this.editingSchemaId ? storage.getSchema(this.editingSchemaId) : undefined;
+      if (!schema) return;
+      const confirmed = await this.showConfirmModal({
+        title: 'Delete Schema',
+        message: `Are you sure you want to delete "${schema.name}"? Past replies keep their JSON.`,
+        confirmText: 'Delete',
+        confirmClass: 'btn-danger'
       });
+      if (confirmed) {
+        storage.removeSchema(schema.id);
+        this.editingSchemaId = 'new';
+        rerender();
+        this.showToast('Schema deleted', 'success');
+      }
     });
 
-    // Mobile Navigation
-    document.querySelectorAll('.mobile-nav-item').forEach(item => {
-      item.addEventListener('click', (e) => {
-        const view = (e.currentTarget as HTMLElement).dataset.view as ViewType;
-        if (view) {
-          this.currentView = view;
-          this.refreshView();
-        }
+    document.querySelectorAll<HTMLElement>('.copy-json').forEach(btn => {
+      btn.addEventListener('click', async () => {
+        const message = this.chatMessages[Number(btn.dataset.messageIndex)];
+        if (!message) return;
+        await navigator.clipboard.writeText(this.formatJsonReply(message));
+        this.showToast('JSON copied!', 'success');
       });
     });
 
-    // Auth listeners
-    this.attachAuthListeners();
+    document.querySelectorAll<HTMLElement>('.export-json').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const message = this.chatMessages[Number(btn.dataset.messageIndex)];
+        if (!message?.meta?.schema) return;
+        this.downloadFile(
+          `${this.toSchemaName(message.meta.schema.name)}-${new Date().toISOString().slice(0, 10)}.json`,
+          this.formatJsonReply(message),
+          'application/json'
+        );
+      });
+    });
+  }
 
-    // View-specific listeners
-    this.attachViewListeners();
+  // Local copy if it has been read already, the remote link otherwise (hydrateMedia swaps it in later)
+  private getMediaSrc(key: string, remoteUrl = ''): string {
+    return this.escapeAttribute(mediaStore.getCachedMediaUrl(key) || remoteUrl);
   }
 
-  private attachViewListeners(): void {
-    switch (this.currentView) {
-      case 'gallery':
-        this.attachGalleryListeners();
-        break;
-      case 'chat':
-        this.attachChatListeners();
-        break;
-      case 'image-gen':
-        this.attachImageGenListeners();
-        break;
-      case 'settings':
-        this.attachSettingsListeners();
-        break;
-      case 'post':
-        this.attachPostListeners();
-        break;
+  // Storage bucket path, for media with no local copy on this device
+  private renderMediaPath(path?: string): string {
+    return path ? `data-media-path="${this.escapeAttribute(path)}"` : '';
+  }
+
+  // Chat images are either links or attachments, which are shown from their stored files
+  private renderChatImageSource(url: string, attribute: 'src' | 'href' = 'src'): string {
+    if (!isAttachmentUrl(url)) return `${attribute}="${this.escapeAttribute(url)}"`;
+    return `${attribute}="${this.getMediaSrc(url)}" data-media-key="${this.escapeAttribute(url)}" ${this.renderMediaPath(getAttachmentPath(url))}`;
+  }
+
+  /**
+   * Point rendered images, videos and download links at their local copies,
+   * or at signed URLs for the storage bucket copies when there are none
+   */
+  private hydrateMedia(): void {
+    document.querySelectorAll<HTMLElement>('[data-media-key]').forEach(async el => {
+      let media = await mediaStore.getMediaUrl(el.dataset.mediaKey!);
+      if (!media && el.dataset.mediaPath) {
+        const signedUrl = await getSignedUrl(el.dataset.mediaPath);
+        // The download name is kept as rendered - browsers ignore it for other origins anyway
+        media = signedUrl ? { url: signedUrl, type: '' } : null;
+      }
+      if (!media) return;
+
+      if (el instanceof HTMLAnchorElement) {
+        if (el.href === media.url) return;
+        el.href = media.url;
+        if (el.hasAttribute('download') && media.type) {
+          el.download = el.download.replace(/\.[^.]*$/, `.${mediaStore.getFileExtension(media.type)}`);
+        }
+      } else if (el instanceof HTMLImageElement || el instanceof HTMLSourceElement) {
+        if (el.src === media.url) return;
+        el.src = media.url;
+        // A <source> is only picked up when its video reloads
+        if (el instanceof HTMLSourceElement && el.parentElement instanceof HTMLVideoElement) {
+          el.parentElement.load();
+        }
+      }
+    });
+  }
+
+  private downloadFile(filename: string, content: string, type: string): void {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([content], { type }));
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  // json_schema names may only contain letters, digits, underscores and dashes
+  private toSchemaName(name: string): string {
+    return name.trim().replace(/[^a-zA-Z0-9_-]+/g, '_').slice(0, 64) || 'schema';
+  }
+
+  private checkSchemaReply(text: string, schema: SavedSchema): NonNullable<MessageMeta['schema']> {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      return { id: schema.id, name: schema.name, errors: ['Reply is not valid JSON'] };
     }
+    return { id: schema.id, name: schema.name, errors: validate(value, schema.schema) };
   }
 
-  private attachGalleryListeners(): void {
-    // Gallery columns control
-    const columnsSelect = document.getElementById('gallery-columns') as HTMLSelectElement;
-    columnsSelect?.addEventListener('change', () => {
-      storage.setGalleryColumns(parseInt(columnsSelect.value));
+  // Pretty-printed reply, or the raw text if it isn't valid JSON
+  private formatJsonReply(message: GrokMessage): string {
+    const text = getMessageText(message);
+    try {
+      return JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      return text;
+    }
+  }
+
+  // Show a "retrying in Ns" countdown in the loading indicator
+  private showRetryStatus(attempt: number, delayMs: number): void {
+    this.clearRetryStatus();
+
+    const maxRetries = getRetryPolicy().maxRetries;
+    let secondsLeft = Math.ceil(delayMs / 1000);
+
+    const update = () => {
+      this.retryStatus = secondsLeft > 0
+        ? `Retrying in ${secondsLeft}s (${attempt}/${maxRetries})...`
+        : `Retrying (${attempt}/${maxRetries})...`;
+      const statusEl = document.getElementById('loading-status');
+      if (statusEl) statusEl.textContent = this.retryStatus;
+      secondsLeft--;
+    };
+
+    update();
+    this.retryCountdownId = window.setInterval(() => {
+      update();
+      if (secondsLeft < 0 && this.retryCountdownId !== null) {
+        window.clearInterval(this.retryCountdownId);
+        this.retryCountdownId = null;
+      }
+    }, 1000);
+  }
+
+  private clearRetryStatus(): void {
+    if (this.retryCountdownId !== null) {
+      window.clearInterval(this.retryCountdownId);
+      this.retryCountdownId = null;
+    }
+    this.retryStatus = '';
+  }
+
+  // Update the in-progress assistant bubble without re-rendering the whole view
+  private renderStreamingContent(content: string): void {
+    const isFirstToken = !this.streamingContent;
+    this.streamingContent = content;
+
+    if (this.currentView !== 'chat') return;
+
+    const messagesDiv = document.getElementById('chat-messages');
+    if (!messagesDiv) return;
+
+    // Stay pinned to the bottom only if the user hasn't scrolled up
+    const isAtBottom = messagesDiv.scrollHeight - messagesDiv.scrollTop - messagesDiv.clientHeight < 40;
+
+    const streamingEl = document.getElementById('streaming-message');
+    if (isFirstToken || !streamingEl) {
+      // Swap the "thinking" indicator for the message bubble
       this.refreshView();
+    } else {
+      streamingEl.innerHTML = renderMarkdown(content);
+    }
+
+    const updatedMessagesDiv = document.getElementById('chat-messages');
+    if (updatedMessagesDiv && (isAtBottom || isFirstToken)) {
+      updatedMessagesDiv.scrollTop = updatedMessagesDiv.scrollHeight;
+    }
+  }
+
+  private attachCompareListeners(): void {
+    const promptInput = document.getElementById('compare-prompt') as HTMLTextAreaElement;
+    const systemPromptInput = document.getElementById('compare-system-prompt') as HTMLTextAreaElement;
+
+    promptInput?.addEventListener('input', () => {
+      this.comparePrompt = promptInput.value;
+    });
+    systemPromptInput?.addEventListener('input', () => {
+      this.compareSystemPrompt = systemPromptInput.value;
+    });
+
+    document.querySelectorAll<HTMLInputElement>('.compare-model').forEach(checkbox => {
+      checkbox.addEventListener('change', () => {
+        const selected = Array.from(document.querySelectorAll<HTMLInputElement>('.compare-model:checked'))
+          .map(input => input.value);
+        storage.setCompareModels(selected);
+        this.refreshView();
+      });
     });
 
-    // Click on gallery card to open post view
-    document.querySelectorAll('.gallery-card').forEach(card => {
-      card.addEventListener('click', (e) => {
-        // Don't navigate if clicking on action buttons
-        if ((e.target as HTMLElement).closest('[data-action]')) return;
-        
-        const postId = (card as HTMLElement).dataset.postId;
-        if (postId) {
-          this.currentPostId = postId;
-          this.currentView = 'post';
-          this.refreshView();
-        }
-      });
+    document.getElementById('run-comparison')?.addEventListener('click', () => this.runComparison());
+    document.getElementById('stop-comparison')?.addEventListener('click', () => {
+      this.abortController?.abort();
     });
 
-    document.querySelectorAll('[data-action="delete"]').forEach(btn => {
-      btn.addEventListener('click', async (e) => {
-        e.stopPropagation();
-        const postId = (e.currentTarget as HTMLElement).dataset.postId;
-        if (postId) {
-          const confirmed = await this.showConfirmModal({
-            title: 'Delete Image',
-            message: 'Are you sure you want to delete this image from your favorites?',
-            confirmText: 'Delete',
-            confirmClass: 'btn-danger'
-          });
-          if (confirmed) {
-            cloudStorage.removeFavoriteFromCloud(postId);
-            this.refreshView();
-            this.showToast('Image deleted', 'success');
-          }
-        }
+    document.querySelectorAll<HTMLElement>('.compare-saved-open').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const post = storage.getComparisons().find(p => p.id === btn.dataset.postId);
+        if (!post?.comparison || this.isLoading) return;
+        // Copy, so votes only reach storage through updateComparison
+        this.comparison = JSON.parse(JSON.stringify(post.comparison));
+        this.comparisonPostId = post.id;
+        this.comparePrompt = post.comparison.prompt;
+        this.compareSystemPrompt = post.comparison.systemPrompt;
+        this.refreshView();
+        window.scrollTo({ top: 0, behavior: 'smooth' });
       });
     });
 
-    document.querySelectorAll('[data-action="copy"]').forEach(btn => {
-      btn.addEventListener('click', async (e) => {
-        e.stopPropagation();
-        const postId = (e.currentTarget as HTMLElement).dataset.postId;
-        if (postId) {
-          const post = storage.getFavorites().find(f => f.id === postId);
-          if (post) {
-            await navigator.clipboard.writeText(post.prompt);
-            this.showToast('Prompt copied!', 'success');
-          }
+    document.querySelectorAll<HTMLElement>('.compare-saved-delete').forEach(btn => {
+      btn.addEventListener('click', async () => {
+        const confirmed = await this.showConfirmModal({
+          title: 'Delete Comparison',
+          message: 'Are you sure you want to delete this comparison? This cannot be undone.',
+          confirmText: 'Delete',
+          confirmClass: 'btn-danger',
+        });
+        if (!confirmed) return;
+
+        const postId = btn.dataset.postId!;
+        await cloudStorage.removeFavoriteFromCloud(postId);
+        // Keep the answers on screen, they can be saved again
+        if (this.comparisonPostId === postId) {
+          this.comparisonPostId = null;
         }
+        this.showToast('Comparison deleted', 'success');
+        this.refreshView();
       });
     });
+
+    this.attachComparisonResultListeners();
   }
 
-  private attachChatListeners(): void {
-    const sendBtn = document.getElementById('send-message');
-    const input = document.getElementById('chat-input') as HTMLTextAreaElement;
-    const modelSelect = document.getElementById('chat-model') as HTMLSelectElement;
-    const chatSelector = document.getElementById('chat-selector') as HTMLSelectElement;
-    const deleteBtn = document.getElementById('delete-current-chat');
-    const saveBtn = document.getElementById('save-chat');
+  private attachComparisonResultListeners(): void {
+    this.attachCodeCopyListeners();
 
-    const sendMessage = async () => {
-      const message = input?.value.trim();
-      if (!message || this.isLoading) return;
+    document.querySelectorAll<HTMLElement>('.compare-vote').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const answer = this.comparison?.answers[Number(btn.dataset.answerIndex)];
+        if (!answer) return;
+        answer.votes += 1;
+        this.updateComparison();
+      });
+    });
 
-      if (!grokApi.getApiKey()) {
-        this.showToast('Please set your API key in Settings first', 'error');
-        return;
-      }
+    document.querySelectorAll<HTMLElement>('.compare-pick').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const answer = this.comparison?.answers[Number(btn.dataset.answerIndex)];
+        if (!answer || !this.comparison) return;
+        this.comparison.winner = this.comparison.winner === answer.model ? null : answer.model;
+        this.updateComparison();
+      });
+    });
 
-      this.chatMessages.push({ role: 'user', content: message });
-      input.value = '';
-      this.isLoading = true;
+    document.querySelectorAll<HTMLElement>('.compare-copy').forEach(btn => {
+      btn.addEventListener('click', async () => {
+        const answer = this.comparison?.answers[Number(btn.dataset.answerIndex)];
+        if (!answer) return;
+        await navigator.clipboard.writeText(answer.content);
+        this.showToast('Answer copied to clipboard', 'success');
+      });
+    });
+
+    document.getElementById('save-comparison')?.addEventListener('click', async () => {
+      if (!this.comparison || this.comparisonPostId) return;
+      const provider = storage.getActiveProvider();
+      const post = await cloudStorage.addFavoriteToCloud({
+        type: 'comparison',
+        prompt: this.comparison.prompt,
+        response: this.getWinningAnswer(this.comparison),
+        model: getComparisonModelLabel(this.comparison),
+        comparison: this.comparison,
+        providerId: provider.id,
+        providerName: provider.name,
+        tags: [],
+      });
+      this.comparisonPostId = post.id;
+      this.showToast('Comparison saved', 'success');
       this.refreshView();
+    });
 
-      try {
-        const model = modelSelect?.value || 'grok-3';
-        storage.setSelectedModel(model);
-
-        const response = await grokApi.chatCompletion(
-          [
-            { role: 'system', content: 'You are a helpful assistant.' },
-            ...this.chatMessages
-          ],
-          model
-        );
+    document.getElementById('clear-comparison')?.addEventListener('click', () => {
+      this.comparison = null;
+      this.comparisonPostId = null;
+      this.comparePrompt = '';
+      this.compareSystemPrompt = '';
+      this.refreshView();
+    });
+  }
 
-        const assistantMessage = response.choices[0]?.message.content || 'No response';
-        this.chatMessages.push({ role: 'assistant', content: assistantMessage });
+  private async runComparison(): Promise<void> {
+    const prompt = this.comparePrompt.trim();
+    const modelIds = storage.getCompareModels();
+    if (!prompt || this.isLoading) return;
 
-        // Update existing saved chat if we're in one
-        if (this.currentChatId) {
-          cloudStorage.updateChatInCloud(this.currentChatId, this.chatMessages, model);
-        }
-      } catch (error) {
-        this.showToast(`Error: ${(error as Error).message}`, 'error');
-        this.chatMessages.pop(); // Remove the failed user message
-      } finally {
-        this.isLoading = false;
-        this.refreshView();
-        // Scroll to bottom
-        const messagesDiv = document.getElementById('chat-messages');
-        if (messagesDiv) {
-          messagesDiv.scrollTop = messagesDiv.scrollHeight;
-        }
-      }
-    };
+    if (!grokApi.getApiKey()) {
+      this.showToast('Please set your API key in Settings first', 'error');
+      return;
+    }
+    if (modelIds.length < 2) {
+      this.showToast('Pick at least two models to compare', 'error');
+      return;
+    }
 
-    sendBtn?.addEventListener('click', sendMessage);
-    input?.addEventListener('keydown', (e) => {
-      if (e.key === 'Enter' && !e.shiftKey) {
-        e.preventDefault();
-        sendMessage();
-      }
-    });
+    this.isLoading = true;
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
+    this.compareProgress = modelIds.map(model => ({ model, answer: null }));
+    this.refreshView();
 
-    // Model selector - update current chat's model
-    modelSelect?.addEventListener('change', () => {
-      const model = modelSelect.value;
-      storage.setSelectedModel(model);
-      // If we have a current chat, update its model too
-      if (this.currentChatId) {
-        cloudStorage.updateChatInCloud(this.currentChatId, this.chatMessages, model);
+    try {
+      const comparison = await runComparison(
+        grokApi,
+        prompt,
+        this.compareSystemPrompt.trim(),
+        modelIds,
+        (answer, index) => {
+          if (!this.compareProgress) return;
+          this.compareProgress[index].answer = answer;
+          this.refreshComparisonResults();
+          this.refreshSidebar();
+        },
+        { signal, onRetry: (attempt, delayMs) => this.showRetryStatus(attempt, delayMs) }
+      );
+      this.comparison = comparison;
+      this.comparisonPostId = null;
+      if (comparison.answers.every(answer => answer.error)) {
+        this.showToast('Every model failed to answer', 'error');
       }
-    });
-
-    // Chat selector - switch between chats or start new
-    chatSelector?.addEventListener('change', () => {
-      const selectedValue = chatSelector.value;
-      
-      if (selectedValue === 'new') {
-        // Start a new chat
-        this.chatMessages = [];
-        this.currentChatId = null;
-        storage.setCurrentChatId(null);
+    } catch (error) {
+      // The previous comparison stays on screen
+      if (isAbortError(error)) {
+        this.showToast('Comparison stopped', 'success');
       } else {
-        // Load selected chat
-        const chat = storage.getChat(selectedValue);
-        if (chat?.messages) {
-          this.chatMessages = [...chat.messages];
-          this.currentChatId = chat.id;
-          storage.setCurrentChatId(chat.id);
-        }
+        this.showApiError(error);
       }
+    } finally {
+      this.isLoading = false;
+      this.abortController = null;
+      this.compareProgress = null;
+      this.clearRetryStatus();
       this.refreshView();
-    });
+    }
+  }
 
-    // Delete current chat
-    deleteBtn?.addEventListener('click', async () => {
-      if (this.currentChatId) {
-        const confirmed = await this.showConfirmModal({
-          title: 'Delete Chat',
-          message: 'Are you sure you want to delete this chat? This cannot be undone.',
-          confirmText: 'Delete',
-          confirmClass: 'btn-danger'
-        });
-        if (confirmed) {
-          cloudStorage.removeFavoriteFromCloud(this.currentChatId);
-          this.chatMessages = [];
-          this.currentChatId = null;
-          storage.setCurrentChatId(null);
-          this.refreshView();
-          this.showToast('Chat deleted', 'success');
-        }
-      }
-    });
+  // Redraw the answer columns without touching the prompt form
+  private refreshComparisonResults(): void {
+    const resultDiv = document.getElementById('comparison-result');
+    if (!resultDiv || this.currentView !== 'compare') return;
+    resultDiv.innerHTML = this.renderComparisonResults();
+    this.attachComparisonResultListeners();
+  }
 
-    // Save chat as favorite
-    saveBtn?.addEventListener('click', async () => {
-      if (this.chatMessages.length >= 2) {
-        const model = modelSelect?.value || storage.getSelectedModel();
-        if (this.currentChatId) {
-          // Already saved, just update
-          cloudStorage.updateChatInCloud(this.currentChatId, this.chatMessages, model);
-          this.showToast('Chat updated!', 'success');
-        } else {
-          // Save as new favorite
-          const newChat = await cloudStorage.createChatInCloud(this.chatMessages, model);
-          this.currentChatId = newChat.id;
-          storage.setCurrentChatId(newChat.id);
-          this.showToast('Chat saved!', 'success');
-        }
-        this.refreshView();
-      }
-    });
+  private getWinningAnswer(comparison: Comparison): string {
+    return comparison.answers.find(answer => answer.model === comparison.winner)?.content || '';
+  }
+
+  // Store votes and the winner on a saved comparison
+  private async updateComparison(): Promise<void> {
+    if (!this.comparison) return;
+    if (this.comparisonPostId) {
+      await cloudStorage.updateFavoriteInCloud(this.comparisonPostId, {
+        comparison: this.comparison,
+        response: this.getWinningAnswer(this.comparison),
+      });
+    }
+    this.refreshComparisonResults();
   }
 
   private attachImageGenListeners(): void {
@@ -1223,6 +3826,12 @@ export class App {
     const promptInput = document.getElementById('image-prompt') as HTMLTextAreaElement;
     const countSelect = document.getElementById('image-count') as HTMLSelectElement;
     const aspectRatioSelect = document.getElementById('aspect-ratio') as HTMLSelectElement;
+    const imageModelSelect = document.getElementById('image-model') as HTMLSelectElement;
+
+    // Save model preference
+    imageModelSelect?.addEventListener('change', () => {
+      storage.setSelectedImageModel(imageModelSelect.value);
+    });
 
     // Save count preference
     countSelect?.addEventListener('change', () => {
@@ -1237,12 +3846,17 @@ export class App {
     // Save prompt on input
     promptInput?.addEventListener('input', () => {
       this.imageGenPrompt = promptInput.value;
+      // Once edited it is the user's own prompt again
+      if (this.acceptedEnhancement && promptInput.value.trim() !== this.acceptedEnhancement.enhanced) {
+        this.acceptedEnhancement = null;
+      }
     });
 
     generateBtn?.addEventListener('click', async () => {
       const prompt = promptInput?.value.trim();
       const imageCount = parseInt(countSelect?.value || '1');
       const aspectRatio = aspectRatioSelect?.value || '1:1';
+      const imageModel = imageModelSelect?.value || storage.getActiveProvider().defaultImageModel;
       if (!prompt || this.isLoading) return;
 
       if (!grokApi.getApiKey()) {
@@ -1250,20 +3864,39 @@ export class App {
         return;
       }
 
+      const source = this.imageGenSource;
+      const capabilities = models.getModelCapabilities(imageModel);
+      if (source && capabilities.known && !capabilities.inputModalities.includes('image')) {
+        this.showToast(`${capabilities.label} can't edit images - pick another model or remove the source image`, 'error');
+        return;
+      }
+
       this.isLoading = true;
+      this.abortController = new AbortController();
+      const signal = this.abortController.signal;
+      // Keep previous results so a cancelled request can restore them
+      const previousResults = this.imageGenResults;
+      const previousSavedUrls = new Set(this.imageGenSavedUrls);
       // Clear previous results to show loading state
       this.imageGenResults = [];
       this.refreshView();
 
+      const provider = storage.getActiveProvider();
+
       try {
-        const response = await grokApi.generateImage(prompt, 'grok-imagine-image', { 
-          n: imageCount,
-          aspect_ratio: aspectRatio
-        });
+        const options = { n: imageCount, aspect_ratio: aspectRatio };
+        const requestOptions = { signal, onRetry: (attempt: number, delayMs: number) => this.showRetryStatus(attempt, delayMs) };
+        const response = source
+          ? await grokApi.editImage(prompt, await this.resolveImageSourceUrl(source), imageModel, options, requestOptions)
+          : await grokApi.generateImage(prompt, imageModel, options, requestOptions);
         const images = response.data;
 
         // Cache the results on successful response
         this.imageGenPrompt = prompt;
+        this.imageGenModel = imageModel;
+        this.imageGenProviderId = provider.id;
+        this.imageGenParentPostId = source?.postId || '';
+        this.imageGenOriginalPrompt = this.acceptedEnhancement?.enhanced === prompt ? this.acceptedEnhancement.original : '';
         this.imageGenResults = images
           .filter(img => img.url)
           .map(img => ({
@@ -1277,15 +3910,244 @@ export class App {
         
         this.refreshSidebar();
       } catch (error) {
-        this.showToast(`Error: ${(error as Error).message}`, 'error');
+        if (isAbortError(error)) {
+          this.imageGenResults = previousResults;
+          this.imageGenSavedUrls = previousSavedUrls;
+          this.showToast('Image generation stopped', 'success');
+        } else {
+          this.showApiError(error);
+        }
       } finally {
         this.isLoading = false;
+        this.abortController = null;
+        this.clearRetryStatus();
+        this.refreshView();
+      }
+    });
+
+    document.getElementById('stop-image-generation')?.addEventListener('click', () => {
+      this.abortController?.abort();
+    });
+
+    // Prompt enhancer
+    document.getElementById('enhance-prompt')?.addEventListener('click', async () => {
+      const prompt = promptInput?.value.trim();
+      if (!prompt || this.isEnhancing) return;
+      if (!grokApi.getApiKey()) {
+        this.showToast('Please set your API key in Settings first', 'error');
+        return;
+      }
+
+      this.isEnhancing = true;
+      this.enhanceAbortController = new AbortController();
+      const signal = this.enhanceAbortController.signal;
+      this.refreshView();
+      try {
+        const onRetry = (attempt: number) => {
+          this.enhanceStatus = `Retrying (${attempt}/${getRetryPolicy().maxRetries})...`;
+          const statusEl = document.getElementById('enhance-status');
+          if (statusEl) statusEl.textContent = this.enhanceStatus;
+        };
+        const requestOptions = { signal, onRetry };
+        const enhanced = await enhancePrompt(grokApi, storage.getEnhancerModel(), prompt, storage.getPromptStyleGuide(), requestOptions);
+        this.promptEnhancement = { original: prompt, enhanced, editing: false };
+        this.refreshSidebar();
+      } catch (error) {
+        if (isAbortError(error)) {
+          this.showToast('Prompt enhancement stopped', 'success');
+        } else {
+          this.showApiError(error, 'Failed to enhance the prompt');
+        }
+      } finally {
+        this.isEnhancing = false;
+        this.enhanceAbortController = null;
+        this.enhanceStatus = '';
+        this.refreshView();
+      }
+    });
+
+    document.getElementById('stop-enhance')?.addEventListener('click', () => {
+      this.enhanceAbortController?.abort();
+    });
+
+    const enhancedInput = document.getElementById('enhanced-prompt-input') as HTMLTextAreaElement;
+    enhancedInput?.addEventListener('input', () => {
+      if (this.promptEnhancement) this.promptEnhancement.enhanced = enhancedInput.value;
+    });
+
+    document.getElementById('accept-enhancement')?.addEventListener('click', () => {
+      const enhancement = this.promptEnhancement;
+      if (!enhancement?.enhanced.trim()) return;
+      // Enhancing an enhanced prompt still remembers what the user first wrote
+      const previous = this.acceptedEnhancement;
+      const original = previous?.enhanced === enhancement.original ? previous.original : enhancement.original;
+      this.imageGenPrompt = enhancement.enhanced.trim();
+      this.acceptedEnhancement = original !== this.imageGenPrompt ? { original, enhanced: this.imageGenPrompt } : null;
+      this.promptEnhancement = null;
+      this.refreshView();
+    });
+
+    document.getElementById('edit-enhancement')?.addEventListener('click', () => {
+      if (!this.promptEnhancement) return;
+      this.promptEnhancement.editing = true;
+      this.refreshView();
+      document.getElementById('enhanced-prompt-input')?.focus();
+    });
+
+    document.getElementById('reject-enhancement')?.addEventListener('click', () => {
+      this.promptEnhancement = null;
+      this.refreshView();
+    });
+
+    // Source image for edits
+    const sourceInput = document.getElementById('image-source-input') as HTMLInputElement;
+    document.getElementById('upload-image-source')?.addEventListener('click', () => sourceInput?.click());
+    sourceInput?.addEventListener('change', async () => {
+      const file = sourceInput.files?.[0];
+      if (!file) return;
+      try {
+        this.imageGenSource = { previewUrl: await readImageFile(file), label: file.name || 'Uploaded image' };
+      } catch (error) {
+        this.showToast(error instanceof Error ? error.message : 'Could not read image', 'error');
+        return;
+      }
+      this.refreshView();
+    });
+    document.getElementById('clear-image-source')?.addEventListener('click', () => {
+      this.imageGenSource = null;
+      this.refreshView();
+    });
+
+    document.querySelectorAll<HTMLElement>('[data-image-gen-mode]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.imageGenMode = btn.dataset.imageGenMode as 'single' | 'batch';
         this.refreshView();
+      });
+    });
+
+    this.attachTemplatePickerListeners('image');
+    this.attachImageBatchListeners();
+
+    // Attach handlers for cached results
+    this.attachImageResultHandlers();
+  }
+
+  private attachImageBatchListeners(): void {
+    const promptsInput = document.getElementById('batch-prompts') as HTMLTextAreaElement;
+    if (!promptsInput) return;
+
+    const updateEstimate = () => {
+      const estimate = document.getElementById('batch-estimate');
+      if (estimate) estimate.innerHTML = this.renderBatchEstimate();
+    };
+
+    promptsInput.addEventListener('input', () => {
+      this.batchPromptText = promptsInput.value;
+      updateEstimate();
+    });
+    // The preference listeners store these first, the estimate reads them back
+    for (const id of ['image-model', 'image-count', 'aspect-ratio']) {
+      document.getElementById(id)?.addEventListener('change', updateEstimate);
+    }
+
+    const autoSaveCheckbox = document.getElementById('batch-auto-save') as HTMLInputElement;
+    autoSaveCheckbox?.addEventListener('change', () => {
+      this.batchAutoSave = autoSaveCheckbox.checked;
+    });
+
+    const fileInput = document.getElementById('batch-file-input') as HTMLInputElement;
+    document.getElementById('upload-batch-file')?.addEventListener('click', () => fileInput?.click());
+    fileInput?.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      if (!file) return;
+      this.batchPromptText = await file.text();
+      fileInput.value = '';
+      this.refreshView();
+    });
+
+    document.getElementById('start-batch')?.addEventListener('click', async () => {
+      if (!grokApi.getApiKey()) {
+        this.showToast('Please set your API key in Settings first', 'error');
+        return;
+      }
+
+      let inputs: BatchPromptInput[];
+      try {
+        inputs = this.parseBatchInput();
+      } catch (error) {
+        this.showToast(error instanceof Error ? error.message : 'Could not read the prompts', 'error');
+        return;
+      }
+      if (inputs.length === 0) {
+        this.showToast('Add at least one prompt', 'error');
+        return;
+      }
+
+      const model = this.resolveSelectedModel('image', storage.getSelectedImageModel());
+      const images = countBatchImages(inputs);
+      // Read once, so the batch runs on the provider it was priced for
+      const providerId = storage.getActiveProvider().id;
+      const cost = estimateBatchCost(providerId, model, inputs);
+      const previous = imageBatchQueue.getBatch();
+      const confirmed = await this.showConfirmModal({
+        title: 'Start Batch',
+        message: `Generate ${images} image${images === 1 ? '' : 's'} from ${inputs.length} prompt${inputs.length === 1 ? '' : 's'} with ${models.getModelCapabilities(model).label}? `
+          + (cost === null ? 'No price is known for this model, so the cost can\'t be estimated.' : `Estimated cost: $${cost.toFixed(2)}.`)
+          + (previous ? ' This replaces the current batch; images you haven\'t saved will be lost.' : ''),
+        confirmText: 'Start',
+        confirmClass: 'btn-primary',
+      });
+      if (!confirmed) return;
+
+      imageBatchQueue.start(inputs, model, providerId, this.batchAutoSave);
+      this.refreshView();
+    });
+
+    this.attachBatchStatusListeners();
+  }
+
+  private attachBatchStatusListeners(): void {
+    document.getElementById('pause-batch')?.addEventListener('click', () => imageBatchQueue.pause());
+    document.getElementById('resume-batch')?.addEventListener('click', () => imageBatchQueue.resume());
+
+    document.getElementById('clear-batch')?.addEventListener('click', async () => {
+      const batch = imageBatchQueue.getBatch();
+      const unsaved = batch?.items.reduce((count, item) => count + item.images.filter(image => !image.postId).length, 0) || 0;
+      if (batch?.status === 'running' || unsaved > 0) {
+        const confirmed = await this.showConfirmModal({
+          title: 'Clear Batch',
+          message: `${batch?.status === 'running' ? 'The batch is still running. ' : ''}${unsaved > 0 ? `${unsaved} image${unsaved === 1 ? ' is' : 's are'} not saved and will be lost.` : ''}`,
+          confirmText: 'Clear',
+          confirmClass: 'btn-danger',
+        });
+        if (!confirmed) return;
       }
+      imageBatchQueue.clear();
+      this.refreshView();
+    });
+
+    document.getElementById('save-batch-images')?.addEventListener('click', async (e) => {
+      (e.currentTarget as HTMLButtonElement).disabled = true;
+      const saved = await imageBatchQueue.saveResults();
+      this.showToast(`Saved ${saved} image${saved === 1 ? '' : 's'} to the gallery`, 'success');
     });
 
-    // Attach handlers for cached results
-    this.attachImageResultHandlers();
+    document.querySelectorAll<HTMLButtonElement>('.save-batch-image').forEach(btn => {
+      btn.addEventListener('click', async () => {
+        btn.disabled = true;
+        await imageBatchQueue.saveResults(btn.dataset.itemId, Number(btn.dataset.imageIndex));
+      });
+    });
+  }
+
+  // Redraw the progress and results without touching the prompt list
+  private refreshBatchStatus(): void {
+    const statusDiv = document.getElementById('batch-status');
+    if (!statusDiv) return;
+    statusDiv.innerHTML = this.renderBatchStatus();
+    const startBtn = document.getElementById('start-batch') as HTMLButtonElement | null;
+    if (startBtn) startBtn.disabled = imageBatchQueue.getBatch()?.status === 'running';
+    this.attachBatchStatusListeners();
   }
 
   private attachImageResultHandlers(): void {
@@ -1295,6 +4157,8 @@ export class App {
     const generateBtn = document.getElementById('generate-image');
     const prompt = this.imageGenPrompt;
     const images = this.imageGenResults;
+    const model = this.imageGenModel || storage.getActiveProvider().defaultImageModel;
+    const provider = storage.getProvider(this.imageGenProviderId) || storage.getActiveProvider();
 
     // Regenerate handler
     document.getElementById('regenerate-images')?.addEventListener('click', () => {
@@ -1311,7 +4175,11 @@ export class App {
           prompt: prompt,
           response: revisedPrompt,
           imageUrl: url,
-          model: 'grok-imagine-image',
+          parentPostId: this.imageGenParentPostId || undefined,
+          originalPrompt: this.imageGenOriginalPrompt || undefined,
+          model,
+          providerId: provider.id,
+          providerName: provider.name,
           tags: [],
         });
         // Track saved state
@@ -1333,7 +4201,11 @@ export class App {
           prompt: prompt,
           response: img.revised_prompt || `Generated image ${idx + 1}`,
           imageUrl: img.url,
-          model: 'grok-imagine-image',
+          parentPostId: this.imageGenParentPostId || undefined,
+          originalPrompt: this.imageGenOriginalPrompt || undefined,
+          model,
+          providerId: provider.id,
+          providerName: provider.name,
           tags: [],
         });
         // Track saved state
@@ -1352,47 +4224,152 @@ export class App {
     });
   }
 
+  // URL the API can fetch the source image from. A gallery post's local copy
+  // is sent as a data URL, since the post's own link may have expired.
+  private async resolveImageSourceUrl(source: ImageSource): Promise<string> {
+    if (!source.postId) return source.previewUrl;
+
+    const post = storage.getFavorites().find(f => f.id === source.postId);
+    if (!post?.imageUrl) {
+      throw new Error('The source image has been deleted');
+    }
+    const blob = await mediaStore.getMediaBlob(mediaStore.getImageKey(post.id));
+    if (blob) {
+      return readImageFile(new File([blob], 'source', { type: blob.type }));
+    }
+    return (post.imagePath && await getSignedUrl(post.imagePath)) || post.imageUrl;
+  }
+
   private saveImageGenCache(): void {
     storage.setImageGenCache({
       prompt: this.imageGenPrompt,
+      model: this.imageGenModel,
+      providerId: this.imageGenProviderId,
       results: this.imageGenResults,
-      savedUrls: Array.from(this.imageGenSavedUrls)
+      savedUrls: Array.from(this.imageGenSavedUrls),
+      parentPostId: this.imageGenParentPostId || undefined,
+      originalPrompt: this.imageGenOriginalPrompt || undefined,
     });
   }
 
   private attachSettingsListeners(): void {
-    const saveApiKeyBtn = document.getElementById('save-api-key');
-    const apiKeyInput = document.getElementById('api-key') as HTMLInputElement;
-
-    saveApiKeyBtn?.addEventListener('click', async () => {
-      const apiKey = apiKeyInput?.value.trim();
-      if (apiKey) {
-        // Temporarily set key to validate it
-        grokApi.setApiKey(apiKey);
-        saveApiKeyBtn.textContent = 'Validating...';
-        saveApiKeyBtn.setAttribute('disabled', 'true');
-        
-        try {
-          const isValid = await grokApi.validateApiKey();
-          if (isValid) {
-            storage.setApiKey(apiKey);
-            this.showToast('API key validated and saved!', 'success');
-            this.refreshView();
-          } else {
-            grokApi.setApiKey(null);
-            this.showToast('Invalid API key. Please check and try again.', 'error');
-            this.refreshView();
-          }
-        } catch (error) {
-          grokApi.setApiKey(null);
-          this.showToast('Failed to validate API key. Please try again.', 'error');
-          this.refreshView();
-        }
+    const providerSelect = document.getElementById('provider-select') as HTMLSelectElement;
+    const saveProviderBtn = document.getElementById('save-provider') as HTMLButtonElement;
+    const deleteProviderBtn = document.getElementById('delete-provider');
+
+    // Selecting a saved provider makes it the active one
+    providerSelect?.addEventListener('change', () => {
+      if (providerSelect.value === 'new') {
+        this.editingProviderId = 'new';
       } else {
+        const provider = storage.getProvider(providerSelect.value);
+        if (provider) {
+          this.activateProvider(provider);
+          this.showToast(`Switched to ${provider.name}`, 'success');
+        }
+      }
+      this.refreshView();
+    });
+
+    saveProviderBtn?.addEventListener('click', async () => {
+      const value = (id: string) => (document.getElementById(id) as HTMLInputElement)?.value.trim() || '';
+      const isNew = this.editingProviderId === 'new';
+      const existing = isNew ? undefined : storage.getActiveProvider();
+
+      const profile: ProviderProfile = {
+        id: existing?.id || crypto.randomUUID(),
+        name: value('provider-name'),
+        baseUrl: value('provider-base-url'),
+        apiKey: value('api-key') || null,
+        defaultChatModel: value('provider-chat-model'),
+        defaultImageModel: value('provider-image-model'),
+        defaultVideoModel: value('provider-video-model'),
+      };
+
+      if (!profile.name || !profile.baseUrl) {
+        this.showToast('Please enter a name and base URL', 'error');
+        return;
+      }
+      if (!profile.apiKey) {
         this.showToast('Please enter an API key', 'error');
+        return;
+      }
+      if (!profile.defaultChatModel || !profile.defaultImageModel || !profile.defaultVideoModel) {
+        this.showToast('Please enter the default models', 'error');
+        return;
+      }
+
+      saveProviderBtn.textContent = 'Validating...';
+      saveProviderBtn.disabled = true;
+
+      // Validate against the new settings without touching the active client
+      const isValid = await new GrokApiClient(profile.baseUrl, profile.apiKey).validateApiKey();
+      if (isValid) {
+        storage.saveProvider(profile);
+        this.activateProvider(profile);
+        this.showToast(isNew ? 'Provider added!' : 'Provider validated and saved!', 'success');
+        this.refreshView();
+      } else {
+        // Keep the form as typed so it can be corrected
+        this.showToast('Could not connect. Please check the base URL and API key.', 'error');
+        saveProviderBtn.innerHTML = `${icons.check} ${isNew ? 'Add Provider' : 'Save Provider'}`;
+        saveProviderBtn.disabled = false;
+      }
+    });
+
+    document.getElementById('refresh-models')?.addEventListener('click', async () => {
+      await this.loadModels(true);
+      this.refreshView();
+    });
+
+    deleteProviderBtn?.addEventListener('click', async () => {
+      const provider = storage.getActiveProvider();
+      const confirmed = await this.showConfirmModal({
+        title: 'Delete Provider',
+        message: `Are you sure you want to delete "${provider.name}"? Saved posts keep their provider name.`,
+        confirmText: 'Delete',
+        confirmClass: 'btn-danger'
+      });
+      if (confirmed) {
+        storage.removeProvider(provider.id);
+        this.activateProvider(storage.getActiveProvider());
+        this.refreshView();
+        this.showToast('Provider deleted', 'success');
       }
     });
 
+    const retryGenerationsCheckbox = document.getElementById('retry-generations') as HTMLInputElement;
+    retryGenerationsCheckbox?.addEventListener('change', () => {
+      storage.setRetryGenerations(retryGenerationsCheckbox.checked);
+      setRetryPolicy({ retryGenerations: retryGenerationsCheckbox.checked });
+    });
+
+    const contextStrategySelect = document.getElementById('context-strategy') as HTMLSelectElement;
+    const helperModelSelect = document.getElementById('helper-model') as HTMLSelectElement;
+    contextStrategySelect?.addEventListener('change', () => {
+      storage.setContextStrategy(contextStrategySelect.value as ContextStrategy);
+    });
+
+    const autoTitleCheckbox = document.getElementById('auto-title-chats') as HTMLInputElement;
+    autoTitleCheckbox?.addEventListener('change', () => {
+      storage.setAutoTitleChats(autoTitleCheckbox.checked);
+    });
+
+    helperModelSelect?.addEventListener('change', () => {
+      storage.setHelperModel(helperModelSelect.value);
+    });
+
+    const styleGuideInput = document.getElementById('prompt-style-guide') as HTMLTextAreaElement;
+    styleGuideInput?.addEventListener('change', () => {
+      storage.setPromptStyleGuide(styleGuideInput.value.trim());
+      this.showToast('Style guide saved', 'success');
+    });
+
+    const enhancerModelSelect = document.getElementById('enhancer-model') as HTMLSelectElement;
+    enhancerModelSelect?.addEventListener('change', () => {
+      storage.setEnhancerModel(enhancerModelSelect.value);
+    });
+
     const resetUsageBtn = document.getElementById('reset-usage');
     resetUsageBtn?.addEventListener('click', async () => {
       const confirmed = await this.showConfirmModal({
@@ -1407,6 +4384,344 @@ export class App {
         this.refreshView();
       }
     });
+
+    // Offline media summary and manual backfill
+    this.refreshMediaUsage();
+    document.getElementById('backfill-media')?.addEventListener('click', async () => {
+      await mediaBackfill.run(true);
+      let missing: number;
+      try {
+        missing = await mediaStore.countLinkOnlyMedia();
+      } catch {
+        this.showToast('Local media storage is not available in this browser', 'error');
+        return;
+      }
+      // Failed downloads are reported when the run ends (handleMediaBackfillUpdate)
+      if (missing === 0) {
+        this.showToast('All media is stored locally', 'success');
+      }
+    });
+
+    document.querySelectorAll('.remove-price-override').forEach(btn => {
+      btn.addEventListener('click', () => btn.closest('tr')?.remove());
+    });
+
+    document.getElementById('save-price-overrides')?.addEventListener('click', () => {
+      const overrides: ModelPricing[] = [];
+      for (const row of document.querySelectorAll<HTMLTableRowElement>('.price-override-row')) {
+        const field = (name: string) => (row.querySelector(`[data-field="${name}"]`) as HTMLInputElement).value.trim();
+        const id = field('id');
+        if (!id) continue;
+
+        const imagePrice = field('image');
+        // Dollars per 1M tokens back to cents per 100M tokens
+        overrides.push({
+          id,
+          promptTextTokenPrice: Math.round(Number(field('prompt') || 0) * 10_000),
+          completionTextTokenPrice: Math.round(Number(field('completion') || 0) * 10_000),
+          promptImageTokenPrice: 0,
+          generatedImageTokenPrice: 0,
+          ...(imagePrice && { imagePrice: Number(imagePrice) }),
+        });
+      }
+
+      if (overrides.some(o => [o.promptTextTokenPrice, o.completionTextTokenPrice, o.imagePrice ?? 0].some(p => !Number.isFinite(p) || p < 0))) {
+        this.showToast('Prices must be positive numbers', 'error');
+        return;
+      }
+
+      pricing.setPricingOverrides(storage.getActiveProvider().id, overrides);
+      this.showToast('Price overrides saved', 'success');
+      this.refreshView();
+    });
+
+    document.getElementById('recompute-costs')?.addEventListener('click', () => {
+      const before = storage.getUsageStats().totalCost;
+      const stats = storage.recomputeUsageCosts();
+      this.updateUsageDisplay();
+      this.refreshView();
+      this.showToast(`Costs recomputed: $${before.toFixed(4)} → $${stats.totalCost.toFixed(4)}`, 'success');
+    });
+
+    document.getElementById('estimate-current-prices')?.addEventListener('click', () => {
+      const { recorded, current, unpriced } = storage.estimateUsageAtCurrentPrices();
+      const note = unpriced > 0 ? ` (${unpriced} request${unpriced === 1 ? '' : 's'} without a current price)` : '';
+      this.showToast(`Recent requests: $${recorded.toFixed(4)} recorded, $${current.toFixed(4)} at current prices${note}`);
+    });
+
+    this.attachPersonaListeners();
+    this.attachTemplateListeners();
+  }
+
+  private attachPersonaListeners(): void {
+    document.getElementById('new-persona')?.addEventListener('click', () => {
+      this.editingPersonaId = 'new';
+      this.refreshView();
+    });
+
+    document.querySelectorAll<HTMLElement>('.edit-persona').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.editingPersonaId = btn.dataset.personaId || null;
+        this.refreshView();
+      });
+    });
+
+    document.getElementById('cancel-persona')?.addEventListener('click', () => {
+      this.editingPersonaId = null;
+      this.refreshView();
+    });
+
+    document.getElementById('save-persona')?.addEventListener('click', async () => {
+      const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value.trim();
+      const name = value('persona-name');
+      if (!name) {
+        this.showToast('Please name the persona', 'error');
+        return;
+      }
+      const settings = this.readChatSettingsFields('persona');
+      if (!settings) return;
+
+      const existing = this.editingPersonaId === 'new' ? undefined : storage.getPersona(this.editingPersonaId!);
+      await cloudStorage.savePersonaToCloud({
+        id: existing?.id || crypto.randomUUID(),
+        name,
+        avatar: value('persona-avatar') || DEFAULT_PERSONA_AVATAR,
+        model: value('persona-model') || null,
+        settings,
+        createdAt: existing?.createdAt || Date.now(),
+      });
+      this.editingPersonaId = null;
+      this.refreshView();
+      this.showToast(existing ? 'Persona saved' : 'Persona added', 'success');
+    });
+
+    document.querySelectorAll<HTMLElement>('.delete-persona').forEach(btn => {
+      btn.addEventListener('click', async () => {
+        const persona = storage.getPersona(btn.dataset.personaId || '');
+        if (!persona) return;
+        const confirmed = await this.showConfirmModal({
+          title: 'Delete Persona',
+          message: `Are you sure you want to delete "${persona.name}"? Existing chats keep their settings.`,
+          confirmText: 'Delete',
+          confirmClass: 'btn-danger'
+        });
+        if (confirmed) {
+          await cloudStorage.removePersonaFromCloud(persona.id);
+          if (this.draftPersonaId === persona.id) {
+            this.draftPersonaId = null;
+          }
+          this.refreshView();
+          this.showToast('Persona deleted', 'success');
+        }
+      });
+    });
+
+    document.getElementById('export-personas')?.addEventListener('click', () => {
+      this.downloadFile('grok-bud-personas.json', exportPersonas(storage.getPersonas()), 'application/json');
+    });
+
+    const fileInput = document.getElementById('persona-file-input') as HTMLInputElement;
+    document.getElementById('import-personas')?.addEventListener('click', () => fileInput?.click());
+    fileInput?.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      if (!file) return;
+
+      try {
+        const personas = importPersonas(await file.text());
+        for (const persona of personas) {
+          await cloudStorage.savePersonaToCloud(persona);
+        }
+        this.refreshView();
+        this.showToast(`Imported ${personas.length} persona${personas.length === 1 ? '' : 's'}`, 'success');
+      } catch (error) {
+        this.showToast(error instanceof Error ? error.message : 'Could not import personas', 'error');
+      } finally {
+        fileInput.value = '';
+      }
+    });
+  }
+
+  private attachTemplateListeners(): void {
+    document.getElementById('new-template')?.addEventListener('click', () => {
+      this.editingTemplateId = 'new';
+      this.refreshView();
+    });
+
+    document.querySelectorAll<HTMLElement>('.edit-template').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.editingTemplateId = btn.dataset.templateId || null;
+        this.refreshView();
+      });
+    });
+
+    document.getElementById('cancel-template')?.addEventListener('click', () => {
+      this.editingTemplateId = null;
+      this.refreshView();
+    });
+
+    document.getElementById('save-template')?.addEventListener('click', async () => {
+      const name = (document.getElementById('template-name') as HTMLInputElement).value.trim();
+      const text = (document.getElementById('template-text') as HTMLTextAreaElement).value;
+      const kind = (document.getElementById('template-kind') as HTMLSelectElement).value as TemplateKind;
+      if (!name) {
+        this.showToast('Please name the template', 'error');
+        return;
+      }
+      if (!text.trim()) {
+        this.showToast('Please write the template prompt', 'error');
+        return;
+      }
+
+      const existing = this.editingTemplateId === 'new' ? undefined : storage.getTemplate(this.editingTemplateId!);
+      await cloudStorage.saveTemplateToCloud({
+        id: existing?.id || crypto.randomUUID(),
+        name,
+        kind,
+        text,
+        createdAt: existing?.createdAt || Date.now(),
+      });
+      this.editingTemplateId = null;
+      this.refreshView();
+      this.showToast(existing ? 'Template saved' : 'Template added', 'success');
+    });
+
+    document.querySelectorAll<HTMLElement>('.delete-template').forEach(btn => {
+      btn.addEventListener('click', async () => {
+        const template = storage.getTemplate(btn.dataset.templateId || '');
+        if (!template) return;
+        const confirmed = await this.showConfirmModal({
+          title: 'Delete Template',
+          message: `Are you sure you want to delete "${template.name}"?`,
+          confirmText: 'Delete',
+          confirmClass: 'btn-danger'
+        });
+        if (confirmed) {
+          await cloudStorage.removeTemplateFromCloud(template.id);
+          if (this.activeTemplate?.id === template.id) {
+            this.activeTemplate = null;
+          }
+          this.refreshView();
+          this.showToast('Template deleted', 'success');
+        }
+      });
+    });
+
+    document.getElementById('export-templates')?.addEventListener('click', () => {
+      this.downloadFile('grok-bud-templates.json', exportTemplates(storage.getTemplates()), 'application/json');
+    });
+
+    const fileInput = document.getElementById('template-file-input') as HTMLInputElement;
+    document.getElementById('import-templates')?.addEventListener('click', () => fileInput?.click());
+    fileInput?.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      if (!file) return;
+
+      try {
+        const templates = importTemplates(await file.text());
+        for (const template of templates) {
+          await cloudStorage.saveTemplateToCloud(template);
+        }
+        this.refreshView();
+        this.showToast(`Imported ${templates.length} template${templates.length === 1 ? '' : 's'}`, 'success');
+      } catch (error) {
+        this.showToast(error instanceof Error ? error.message : 'Could not import templates', 'error');
+      } finally {
+        fileInput.value = '';
+      }
+    });
+  }
+
+  /**
+   * Template picker and variable form on the chat and image generation views
+   */
+  private attachTemplatePickerListeners(kind: TemplateKind): void {
+    const promptInput = document.getElementById(kind === 'chat' ? 'chat-input' : 'image-prompt') as HTMLTextAreaElement;
+
+    // Put the prompt where it is sent from, and optionally send it right away
+    const usePrompt = (text: string, submit: boolean) => {
+      this.activeTemplate = null;
+      if (kind === 'chat') {
+        this.pendingChatInput = text;
+      } else {
+        this.imageGenPrompt = text;
+      }
+      this.refreshView();
+      if (submit) {
+        document.getElementById(kind === 'chat' ? 'send-message' : 'generate-image')?.click();
+      } else {
+        document.getElementById(kind === 'chat' ? 'chat-input' : 'image-prompt')?.focus();
+      }
+    };
+
+    const select = document.getElementById(`${kind}-template`) as HTMLSelectElement;
+    select?.addEventListener('change', () => {
+      if (select.value === 'manage') {
+        this.currentView = 'settings';
+        this.editingTemplateId = null;
+        this.refreshView();
+        return;
+      }
+
+      const template = storage.getTemplate(select.value);
+      if (!template) return;
+      if (getTemplateVariables(template.text).length === 0) {
+        usePrompt(template.text, false);
+        return;
+      }
+
+      if (kind === 'chat') {
+        this.pendingChatInput = promptInput?.value || '';
+      }
+      this.activeTemplate = { id: template.id, values: {} };
+      this.refreshView();
+      (document.querySelector('.template-variable') as HTMLInputElement | null)?.focus();
+    });
+
+    const template = this.activeTemplate ? storage.getTemplate(this.activeTemplate.id) : undefined;
+    if (!template || template.kind !== kind) return;
+    const values = this.activeTemplate!.values;
+
+    const preview = document.getElementById('template-preview');
+    document.querySelectorAll<HTMLInputElement>('.template-variable').forEach(input => {
+      input.addEventListener('input', () => {
+        values[input.dataset.variable!] = input.value;
+        if (preview) preview.textContent = fillTemplate(template.text, values);
+      });
+      input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          document.getElementById('submit-template')?.click();
+        }
+      });
+    });
+
+    document.getElementById('close-template-form')?.addEventListener('click', () => {
+      if (kind === 'chat') {
+        this.pendingChatInput = promptInput?.value || '';
+      }
+      this.activeTemplate = null;
+      this.refreshView();
+    });
+
+    document.getElementById('insert-template')?.addEventListener('click', () => {
+      usePrompt(fillTemplate(template.text, values), false);
+    });
+
+    document.getElementById('submit-template')?.addEventListener('click', () => {
+      const missing = getTemplateVariables(template.text).filter(name => !values[name]?.trim());
+      if (missing.length > 0) {
+        this.showToast(`Fill in ${missing.join(', ')} first`, 'error');
+        return;
+      }
+      usePrompt(fillTemplate(template.text, values), true);
+    });
+  }
+
+  private activateProvider(provider: ProviderProfile): void {
+    storage.setActiveProviderId(provider.id);
+    useProvider(provider);
+    this.editingProviderId = null;
+    this.loadModels();
   }
 
   private attachPostListeners(): void {
@@ -1498,6 +4813,51 @@ export class App {
       }
     });
 
+    // Start an edit with this image as the source
+    document.getElementById('edit-post-image')?.addEventListener('click', () => {
+      const post = storage.getFavorites().find(f => f.id === this.currentPostId);
+      if (!post?.imageUrl) return;
+
+      this.imageGenSource = {
+        postId: post.id,
+        previewUrl: mediaStore.getCachedMediaUrl(mediaStore.getImageKey(post.id)) || post.imageUrl,
+        label: post.prompt,
+      };
+      this.imageGenMode = 'single';
+      this.currentView = 'image-gen';
+      this.refreshView();
+      document.getElementById('image-prompt')?.focus();
+    });
+
+    document.querySelectorAll<HTMLElement>('.lineage-item').forEach(item => {
+      item.addEventListener('click', () => {
+        this.currentPostId = item.dataset.postId!;
+        this.mediaView = 'image';
+        this.currentVideoIndex = 0;
+        this.refreshView();
+      });
+    });
+
+    // Start a new chat with the image attached
+    document.getElementById('discuss-post')?.addEventListener('click', () => {
+      const post = storage.getFavorites().find(f => f.id === this.currentPostId);
+      if (!post?.imageUrl) return;
+      if (this.isLoading) {
+        this.showToast('Wait for the current reply to finish', 'error');
+        return;
+      }
+
+      this.chatTree = createChatTree();
+      this.currentChatId = null;
+      this.resetChatDraft();
+      storage.setCurrentChatId(null);
+      this.pendingChatImages = [post.imageUrl];
+      this.pendingChatInput = '';
+      this.currentView = 'chat';
+      this.refreshView();
+      document.getElementById('chat-input')?.focus();
+    });
+
     // Copy prompt
     const copyBtn = document.getElementById('copy-post-prompt');
     copyBtn?.addEventListener('click', async () => {
@@ -1555,22 +4915,25 @@ export class App {
 
       const videoPromptInput = document.getElementById('video-prompt') as HTMLTextAreaElement;
       const videoDurationSelect = document.getElementById('video-duration') as HTMLSelectElement;
+      const videoModelSelect = document.getElementById('video-model') as HTMLSelectElement;
       const videoPrompt = videoPromptInput?.value.trim() || post.prompt;
       const videoDuration = parseInt(videoDurationSelect?.value || '6');
+      const videoModel = videoModelSelect?.value || storage.getActiveProvider().defaultVideoModel;
+      storage.setSelectedVideoModel(videoModel);
 
       // Start the job in background
-      const job = await videoJobManager.startJob(
-        post.id,
-        videoPrompt,
-        post.imageUrl,
-        videoDuration
-      );
-
-      if (job) {
+      try {
+        await videoJobManager.startJob(
+          post.id,
+          videoPrompt,
+          post.imageUrl,
+          videoDuration,
+          videoModel
+        );
         this.showToast('Video generation started in background', 'success');
         this.refreshView();
-      } else {
-        this.showToast('Failed to start video generation', 'error');
+      } catch (error) {
+        this.showApiError(error, 'Failed to start video generation');
       }
     });
   }
@@ -1687,21 +5050,97 @@ export class App {
     });
   }
 
-  private showToast(message: string, type: 'success' | 'error' = 'success'): void {
+  private showToast(message: string, type: 'success' | 'error' = 'success', action?: ToastAction): void {
     const container = document.getElementById('toast-container');
     if (!container) return;
 
     const toast = document.createElement('div');
     toast.className = `toast ${type}`;
-    toast.innerHTML = `
-      ${type === 'success' ? icons.check : icons.x}
-      <span>${message}</span>
-    `;
+    toast.innerHTML = type === 'success' ? icons.check : icons.x;
+
+    // Message is plain text - never interpreted as HTML
+    const text = document.createElement('span');
+    text.textContent = message;
+    toast.appendChild(text);
+
+    if (action) {
+      const actionEl = document.createElement(action.href ? 'a' : 'button');
+      actionEl.className = 'toast-action';
+      actionEl.textContent = action.label;
+      if (action.href && actionEl instanceof HTMLAnchorElement) {
+        actionEl.href = action.href;
+        actionEl.target = '_blank';
+        actionEl.rel = 'noopener';
+      }
+      if (action.onClick) {
+        actionEl.addEventListener('click', () => {
+          action.onClick?.();
+          toast.remove();
+        });
+      }
+      toast.appendChild(actionEl);
+    }
+
     container.appendChild(toast);
 
     setTimeout(() => {
       toast.remove();
-    }, 3000);
+    }, action ? 6000 : 3000);
+  }
+
+  // Toast for a failed API call, with help specific to the error type
+  private showApiError(error: unknown, fallbackMessage = 'Something went wrong'): void {
+    if (!(error instanceof ApiError)) {
+      this.showToast(`Error: ${error instanceof Error ? error.message : fallbackMessage}`, 'error');
+      return;
+    }
+
+    let message = error.message;
+    if (error instanceof RateLimitError && error.retryAfterMs) {
+      message = `Rate limit exceeded. Try again in ${Math.ceil(error.retryAfterMs / 1000)}s.`;
+    }
+    if (error.kind === 'server' && error.requestId) {
+      message += ` (request ${error.requestId})`;
+    }
+    if (error.kind === 'quota' && !this.getAddFundsUrl()) {
+      message += ` Add funds to your ${storage.getActiveProvider().name} account.`;
+    }
+
+    this.showToast(message, 'error', this.getErrorAction(error.kind));
+  }
+
+  // Billing page for a provider - only known for xAI
+  private getAddFundsUrl(providerId = storage.getActiveProvider().id): string | null {
+    return providerId === storage.DEFAULT_PROVIDER_ID ? XAI_CONSOLE_URL : null;
+  }
+
+  // Jobs from before providers were tracked ran on xAI
+  private renderAddFunds(providerId = storage.DEFAULT_PROVIDER_ID): string {
+    const href = this.getAddFundsUrl(providerId);
+    if (href) {
+      return `<a href="${href}" target="_blank" rel="noopener" class="text-sm">Add funds →</a>`;
+    }
+    const name = storage.getProvider(providerId)?.name || 'the provider';
+    return `<p class="text-sm text-muted">Add funds to your ${this.escapeHtml(name)} account to keep generating.</p>`;
+  }
+
+  private getErrorAction(kind?: ApiErrorKind): ToastAction | undefined {
+    switch (kind) {
+      case 'quota': {
+        const href = this.getAddFundsUrl();
+        return href ? { label: 'Add funds →', href } : undefined;
+      }
+      case 'auth':
+        return {
+          label: 'Open Settings',
+          onClick: () => {
+            this.currentView = 'settings';
+            this.refreshView();
+          },
+        };
+      default:
+        return undefined;
+    }
   }
 
   private renderAuthModal(): string {
@@ -1907,4 +5346,9 @@ export class App {
     div.textContent = text;
     return div.innerHTML;
   }
+
+  // escapeHtml leaves quotes alone, which breaks out of attribute values
+  private escapeAttribute(text: string): string {
+    return this.escapeHtml(text).replace(/"/g, '&quot;');
+  }
 }
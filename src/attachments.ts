@@ -0,0 +1,108 @@
+import { authService } from './auth';
+import * as mediaStore from './mediaStore';
+import * as mediaStorage from './mediaStorage';
+import { getMessageImages } from './messages';
+import type { ChatTree, GrokMessage } from './types';
+
+/**
+ * Chat Attachments
+ * Images attached to chat messages are kept as files - in IndexedDB, and in
+ * the storage bucket when signed in - instead of inline data URLs, which
+ * would fill up localStorage and the synced chat rows. Messages only hold an
+ * "attachment:<id>" reference (also the IndexedDB key), turned back into a
+ * data URL when the message is sent.
+ */
+
+const ATTACHMENT_PREFIX = 'attachment:';
+const ATTACHMENT_EXTENSION = 'jpg'; // readImageFile always produces JPEG
+
+export function isAttachmentUrl(url: string): boolean {
+  return url.startsWith(ATTACHMENT_PREFIX);
+}
+
+/**
+ * Bucket path of an attachment for the signed-in user, for devices without a local copy
+ */
+export function getAttachmentPath(url: string): string | undefined {
+  const user = authService.getUser();
+  if (!user || !isAttachmentUrl(url)) return undefined;
+  return mediaStorage.getStoragePath(user.id, 'attachments', url.slice(ATTACHMENT_PREFIX.length), ATTACHMENT_EXTENSION);
+}
+
+/**
+ * Keep an image data URL as a file and return the reference to put in the message.
+ * Throws if it can't be stored locally; the bucket upload only logs failures.
+ */
+export async function saveAttachment(dataUrl: string): Promise<string> {
+  const url = `${ATTACHMENT_PREFIX}${crypto.randomUUID()}`;
+  const blob = await mediaStore.fetchMedia(dataUrl);
+  await mediaStore.saveMediaBlob(url, blob);
+
+  const path = getAttachmentPath(url);
+  if (path) {
+    mediaStorage.uploadMedia(path, blob).catch(error => {
+      console.error('[Attachments] Failed to upload attachment:', error);
+    });
+  }
+  return url;
+}
+
+/**
+ * Delete attachments from this device and, when signed in, from the bucket
+ */
+export async function deleteAttachments(urls: string[]): Promise<void> {
+  const attachments = urls.filter(isAttachmentUrl);
+  if (attachments.length === 0) return;
+  await mediaStore.deleteMedia(attachments);
+  await mediaStorage.removeMedia(attachments.map(getAttachmentPath).filter((path): path is string => !!path));
+}
+
+// Attachment references in the given messages, each once
+export function getAttachmentUrls(messages: GrokMessage[]): string[] {
+  return [...new Set(messages.flatMap(getMessageImages).filter(isAttachmentUrl))];
+}
+
+// Attachment references on every branch of a chat. An edited message keeps the
+// original's images, so the same reference can be on several branches.
+export function getTreeAttachmentUrls(tree: ChatTree): string[] {
+  return getAttachmentUrls(Object.values(tree.nodes).map(node => node.message));
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// The attachment as a data URL, downloading it from the bucket if this device has no copy
+async function resolveAttachmentUrl(url: string): Promise<string> {
+  let blob = await mediaStore.getMediaBlob(url);
+  if (!blob) {
+    const path = getAttachmentPath(url);
+    const signedUrl = path && await mediaStorage.getSignedUrl(path);
+    if (!signedUrl) {
+      throw new Error('An attached image is not available on this device');
+    }
+    blob = await mediaStore.fetchMedia(signedUrl);
+    await mediaStore.saveMediaBlob(url, blob).catch(() => {});
+  }
+  return blobToDataUrl(blob);
+}
+
+/**
+ * Messages with attachment references replaced by the images themselves, for the API
+ */
+export async function resolveAttachments(messages: GrokMessage[]): Promise<GrokMessage[]> {
+  return Promise.all(messages.map(async message => {
+    if (typeof message.content === 'string') return message;
+    const content = await Promise.all(message.content.map(async part =>
+      part.type === 'image_url' && isAttachmentUrl(part.image_url.url)
+        ? { ...part, image_url: { ...part.image_url, url: await resolveAttachmentUrl(part.image_url.url) } }
+        : part
+    ));
+    return { ...message, content };
+  }));
+}
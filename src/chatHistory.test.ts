@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { appendToActivePath, createChatTree, getActivePath, truncateActivePath } from './chatTree';
+import { searchChats } from './chatHistory';
+import type { FavoritePost, GrokMessage } from './types';
+
+function chat(id: string, title: string, messages: GrokMessage[], createdAt = 1): FavoritePost {
+  return {
+    id,
+    type: 'chat',
+    title,
+    prompt: '',
+    response: '',
+    messages,
+    model: 'grok-3',
+    createdAt,
+    tags: [],
+  };
+}
+
+const recipes = chat('recipes', 'Weeknight dinners', [
+  { role: 'user', content: 'Something quick with chickpeas?' },
+  { role: 'assistant', content: 'For a fast midweek meal, try a chickpea curry with spinach and coconut milk. It is ready in about twenty minutes and keeps well for lunch the next day.' },
+]);
+const travel = chat('travel', 'Trip to Lisbon', [
+  { role: 'user', content: 'Where should I eat in Lisbon?' },
+  { role: 'assistant', content: 'Go to Time Out Market for a bit of everything.' },
+], 2);
+
+describe('searchChats', () => {
+  it('returns nothing for an empty query', () => {
+    expect(searchChats([recipes, travel], '')).toEqual([]);
+    expect(searchChats([recipes, travel], '   ')).toEqual([]);
+  });
+
+  it('matches titles without a snippet', () => {
+    expect(searchChats([recipes, travel], 'weeknight')).toEqual([{ chat: recipes, snippet: null }]);
+  });
+
+  it('matches message text, showing where the first word appears', () => {
+    const [result] = searchChats([recipes, travel], 'coconut');
+
+    expect(result.chat).toBe(recipes);
+    expect(result.snippet).toBe('…, try a chickpea curry with spinach and coconut milk. It is ready in about twenty minut…');
+  });
+
+  it('ignores case in the query and the chats', () => {
+    expect(searchChats([recipes, travel], 'LISBON').map(result => result.chat.id)).toEqual(['travel']);
+    expect(searchChats([recipes, travel], 'time out').map(result => result.chat.id)).toEqual(['travel']);
+  });
+
+  it('needs every word, in any order and across messages and title', () => {
+    expect(searchChats([recipes, travel], 'market lisbon')).toHaveLength(1);
+    expect(searchChats([recipes, travel], 'chickpea lisbon')).toEqual([]);
+  });
+
+  it('orders matches by last activity, newest first', () => {
+    expect(searchChats([recipes, travel], 'e').map(result => result.chat.id)).toEqual(['travel', 'recipes']);
+  });
+
+  it('searches every branch but not tool results', () => {
+    const tree = createChatTree([{ role: 'user', content: 'Name a color' }, { role: 'assistant', content: 'Teal' }]);
+    truncateActivePath(tree, getActivePath(tree)[0].id);
+    appendToActivePath(tree, [
+      { role: 'tool', tool_call_id: 'call-1', content: 'secret tool output' },
+      { role: 'assistant', content: 'Crimson' },
+    ]);
+    const colors = { ...chat('colors', 'Colors', []), messageTree: tree };
+
+    expect(searchChats([colors], 'teal')).toHaveLength(1);
+    expect(searchChats([colors], 'crimson')).toHaveLength(1);
+    expect(searchChats([colors], 'secret')).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { getMessageText } from './messages';
+import { getChatTree } from './storage';
+import type { FavoritePost } from './types';
+
+/**
+ * Chat History
+ * Grouping and full-text search for the saved chats list.
+ */
+
+const SNIPPET_CONTEXT = 40; // Characters shown either side of a search match
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ChatGroup {
+  label: string;
+  chats: FavoritePost[];
+}
+
+export interface ChatSearchResult {
+  chat: FavoritePost;
+  snippet: string | null; // Matching message excerpt, null when only the title matched
+}
+
+// Last activity, which is what the list is ordered by
+export function getChatTime(chat: FavoritePost): number {
+  return chat.updatedAt || chat.createdAt;
+}
+
+function getDateLabel(time: number, now: Date): string {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  if (time >= startOfToday) return 'Today';
+  if (time >= startOfToday - DAY_MS) return 'Yesterday';
+  if (time >= startOfToday - 7 * DAY_MS) return 'Previous 7 days';
+  if (time >= startOfToday - 30 * DAY_MS) return 'Previous 30 days';
+
+  const date = new Date(time);
+  return date.getFullYear() === now.getFullYear()
+    ? date.toLocaleDateString(undefined, { month: 'long' })
+    : date.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+}
+
+/**
+ * Group chats by last activity (Today, Yesterday, ... then by month), newest first
+ */
+export function groupChatsByDate(chats: FavoritePost[], now = new Date()): ChatGroup[] {
+  const groups: ChatGroup[] = [];
+  for (const chat of [...chats].sort((a, b) => getChatTime(b) - getChatTime(a))) {
+    const label = getDateLabel(getChatTime(chat), now);
+    const group = groups[groups.length - 1];
+    if (group?.label === label) {
+      group.chats.push(chat);
+    } else {
+      groups.push({ label, chats: [chat] });
+    }
+  }
+  return groups;
+}
+
+// Folder names in use, alphabetical
+export function getChatFolders(chats: FavoritePost[]): string[] {
+  const folders = new Set(chats.flatMap(chat => chat.folder ? [chat.folder] : []));
+  return Array.from(folders).sort((a, b) => a.localeCompare(b));
+}
+
+function getSnippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Chats whose title or messages (on any branch) contain every word of the query
+ */
+export function searchChats(chats: FavoritePost[], query: string): ChatSearchResult[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const results: ChatSearchResult[] = [];
+  for (const chat of chats) {
+    const texts = Object.values(getChatTree(chat).nodes)
+      .filter(node => node.message.role === 'user' || node.message.role === 'assistant')
+      .map(node => getMessageText(node.message));
+    const haystack = [chat.title || '', chat.prompt, ...texts].join('\n').toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) continue;
+
+    // Show where the first word appears in a message
+    let snippet: string | null = null;
+    for (const text of texts) {
+      const index = text.toLowerCase().indexOf(terms[0]);
+      if (index !== -1) {
+        snippet = getSnippet(text, index, terms[0].length);
+        break;
+      }
+    }
+    results.push({ chat, snippet });
+  }
+
+  return results.sort((a, b) => getChatTime(b.chat) - getChatTime(a.chat));
+}
@@ -0,0 +1,57 @@
+import type { GrokApiClient, RequestOptions } from './api';
+import { getMessageText } from './messages';
+import type { GrokMessage } from './types';
+
+/**
+ * Chat Titles
+ * Names a chat from its first exchange with a cheap model.
+ */
+
+const MAX_TITLE_LENGTH = 60;
+const MAX_EXCERPT_LENGTH = 2_000; // Of each message - the start says what the chat is about
+
+const TITLE_PROMPT = 'Write a title of at most 6 words for the conversation below. ' +
+  'Reply with the title only: no quotes, no trailing punctuation.';
+
+// Models sometimes add quotes, a "Title:" label or a second line anyway
+function cleanTitle(text: string): string {
+  return text
+    .split('\n')[0]
+    .replace(/^\s*title:\s*/i, '')
+    .replace(/^["'*\s]+|["'*.\s]+$/g, '')
+    .slice(0, MAX_TITLE_LENGTH)
+    .trim();
+}
+
+/**
+ * Title for a chat from its first user message and reply.
+ * Throws if the model gives nothing usable.
+ */
+export async function generateChatTitle(
+  client: GrokApiClient,
+  model: string,
+  messages: GrokMessage[],
+  requestOptions: RequestOptions = {}
+): Promise<string> {
+  const excerpt = messages
+    .filter(m => m.role === 'user' || m.role === 'assistant')
+    .slice(0, 2)
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${getMessageText(m).slice(0, MAX_EXCERPT_LENGTH)}`)
+    .join('\n\n');
+
+  const response = await client.chatCompletion(
+    [
+      { role: 'system', content: TITLE_PROMPT },
+      { role: 'user', content: excerpt },
+    ],
+    model,
+    { temperature: 0.3, max_tokens: 30 },
+    requestOptions
+  );
+
+  const title = cleanTitle(response.choices[0]?.message.content || '');
+  if (!title) {
+    throw new Error('The model returned an empty title');
+  }
+  return title;
+}
@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendToActivePath,
+  cloneChatTree,
+  countDescendants,
+  createChatTree,
+  getActiveMessages,
+  getActivePath,
+  getSiblingIds,
+  getTurnStart,
+  parseChatTree,
+  removeNode,
+  removeSubtree,
+  selectSibling,
+  truncateActivePath,
+} from './chatTree';
+import type { ChatTree, GrokMessage, ToolCall } from './types';
+
+const user = (content: string): GrokMessage => ({ role: 'user', content });
+const assistant = (content: string): GrokMessage => ({ role: 'assistant', content });
+
+const contents = (tree: ChatTree) => getActiveMessages(tree).map(message => message.content);
+
+describe('building a chat', () => {
+  it('keeps appended messages in order on the active path', () => {
+    const tree = createChatTree([user('Hi'), assistant('Hello')]);
+    appendToActivePath(tree, [user('How are you?')]);
+
+    expect(contents(tree)).toEqual(['Hi', 'Hello', 'How are you?']);
+    expect(tree.rootIds).toHaveLength(1);
+    const [hi, hello] = getActivePath(tree);
+    expect(hello.parentId).toBe(hi.id);
+  });
+
+  it('starts an empty tree with no active path', () => {
+    const tree = createChatTree();
+
+    expect(getActivePath(tree)).toEqual([]);
+    expect(tree.activeRootId).toBeNull();
+  });
+
+  it('gives a deep copy that rolls back independently', () => {
+    const tree = createChatTree([user('Hi')]);
+    const copy = cloneChatTree(tree);
+    appendToActivePath(tree, [assistant('Hello')]);
+
+    expect(contents(copy)).toEqual(['Hi']);
+  });
+});
+
+describe('branches', () => {
+  // A regenerated reply becomes a sibling of the original one
+  function regenerated(): { tree: ChatTree; hiId: string; firstId: string; secondId: string } {
+    const tree = createChatTree([user('Hi'), assistant('Hello'), user('Bye')]);
+    const [hi, hello] = getActivePath(tree);
+    truncateActivePath(tree, hi.id);
+    appendToActivePath(tree, [assistant('Hey')]);
+    return { tree, hiId: hi.id, firstId: hello.id, secondId: getActivePath(tree)[1].id };
+  }
+
+  it('branches from a truncated path and keeps the old branch', () => {
+    const { tree, hiId, firstId, secondId } = regenerated();
+
+    expect(contents(tree)).toEqual(['Hi', 'Hey']);
+    expect(getSiblingIds(tree, secondId)).toEqual([firstId, secondId]);
+    expect(tree.nodes[hiId].childIds).toHaveLength(2);
+  });
+
+  it('switches between siblings and restores where each branch was', () => {
+    const { tree, firstId, secondId } = regenerated();
+
+    selectSibling(tree, secondId, -1);
+    expect(contents(tree)).toEqual(['Hi', 'Hello', 'Bye']);
+
+    selectSibling(tree, firstId, 1);
+    expect(contents(tree)).toEqual(['Hi', 'Hey']);
+
+    // Past the last sibling nothing changes
+    selectSibling(tree, secondId, 1);
+    expect(contents(tree)).toEqual(['Hi', 'Hey']);
+  });
+
+  it('switches between root branches', () => {
+    const tree = createChatTree([user('Hi')]);
+    truncateActivePath(tree, null);
+    appendToActivePath(tree, [user('Hey')]);
+    const [hey] = getActivePath(tree);
+
+    expect(getSiblingIds(tree, hey.id)).toEqual(tree.rootIds);
+    selectSibling(tree, hey.id, -1);
+    expect(contents(tree)).toEqual(['Hi']);
+  });
+
+  it('stops following a path that loops', () => {
+    const tree = createChatTree([user('Hi'), assistant('Hello')]);
+    const [hi, hello] = getActivePath(tree);
+    tree.nodes[hello.id].activeChildId = hi.id;
+
+    expect(contents(tree)).toEqual(['Hi', 'Hello']);
+  });
+});
+
+describe('parseChatTree', () => {
+  it('accepts a stored tree', () => {
+    const tree = createChatTree([user('Hi'), assistant('Hello')]);
+
+    expect(parseChatTree(JSON.parse(JSON.stringify(tree)))).toEqual(tree);
+  });
+
+  it('defaults a missing active root to none', () => {
+    const { activeRootId: _activeRootId, ...tree } = createChatTree([user('Hi')]);
+
+    expect(parseChatTree(tree)?.activeRootId).toBeNull();
+  });
+
+  it('rejects trees with missing parts or dangling ids', () => {
+    const tree = createChatTree([user('Hi'), assistant('Hello')]);
+    const [hi] = getActivePath(tree);
+
+    expect(parseChatTree(null)).toBeNull();
+    expect(parseChatTree({ nodes: {} })).toBeNull();
+    expect(parseChatTree({ ...tree, rootIds: ['missing'] })).toBeNull();
+    expect(parseChatTree({ ...tree, activeRootId: 'missing' })).toBeNull();
+
+    const dangling = cloneChatTree(tree);
+    dangling.nodes[hi.id].childIds.push('missing');
+    expect(parseChatTree(dangling)).toBeNull();
+  });
+});
+
+describe('removing messages', () => {
+  it('removes a user message with everything below it, keeping the roles alternating', () => {
+    const tree = createChatTree([user('Hi'), assistant('Hello'), user('Tell a joke'), assistant('Knock knock'), user('Who is there?')]);
+    const [, , joke] = getActivePath(tree);
+
+    expect(countDescendants(tree, joke.id)).toBe(2);
+    removeSubtree(tree, joke.id);
+
+    expect(contents(tree)).toEqual(['Hi', 'Hello']);
+    expect(Object.keys(tree.nodes)).toHaveLength(2);
+    expect(getActivePath(tree)[1].childIds).toEqual([]);
+  });
+
+  it('falls back to a sibling branch when the active one is removed', () => {
+    const tree = createChatTree([user('Hi'), assistant('Hello')]);
+    const [hi] = getActivePath(tree);
+    // An edit of the first message starts a second branch
+    truncateActivePath(tree, null);
+    appendToActivePath(tree, [user('Hey'), assistant('Hey there')]);
+    const [hey] = getActivePath(tree);
+
+    removeSubtree(tree, hey.id);
+
+    expect(tree.rootIds).toEqual([hi.id]);
+    expect(contents(tree)).toEqual(['Hi', 'Hello']);
+  });
+
+  it('moves the replies of a removed message up in its place', () => {
+    const tree = createChatTree([user('Hi'), assistant('Hello'), user('Bye'), assistant('Goodbye')]);
+    const [, hello] = getActivePath(tree);
+
+    removeNode(tree, hello.id);
+
+    expect(contents(tree)).toEqual(['Hi', 'Bye', 'Goodbye']);
+    expect(tree.nodes[hello.id]).toBeUndefined();
+  });
+
+  it('removes an assistant reply with the tool calls of its turn and everything after it', () => {
+    const call: ToolCall = { id: 'call-1', type: 'function', function: { name: 'search', arguments: '{}' } };
+    const tree = createChatTree([
+      user('Hi'),
+      { role: 'assistant', content: '', tool_calls: [call] },
+      { role: 'tool', tool_call_id: 'call-1', content: 'results' },
+      assistant('Found it'),
+      user('Thanks'),
+      assistant('Welcome'),
+    ]);
+    const path = getActivePath(tree);
+
+    expect(getTurnStart(path, 3)).toBe(1);
+    expect(getTurnStart(path, 4)).toBe(4);
+    removeSubtree(tree, path[getTurnStart(path, 3)].id);
+
+    expect(contents(tree)).toEqual(['Hi']);
+  });
+
+  it('keeps the other replies to a user message as branches of their own', () => {
+    const tree = createChatTree([user('Hi'), assistant('Hello'), user('Bye')]);
+    const [hi, hello] = getActivePath(tree);
+    truncateActivePath(tree, hi.id);
+    appendToActivePath(tree, [assistant('Hey')]);
+    const path = getActivePath(tree);
+
+    removeSubtree(tree, path[getTurnStart(path, 1)].id);
+
+    expect(contents(tree)).toEqual(['Hi', 'Hello', 'Bye']);
+    expect(getSiblingIds(tree, hello.id)).toEqual([hello.id]);
+  });
+});
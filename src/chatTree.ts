@@ -0,0 +1,197 @@
+import type { ChatNode, ChatTree, GrokMessage } from './types';
+
+/**
+ * Chat Tree
+ * Chats are stored as a tree so editing or regenerating a message adds a
+ * sibling branch instead of overwriting. The active path (following each
+ * node's active child) is the conversation shown and sent to the API.
+ */
+
+export function createChatTree(messages: GrokMessage[] = []): ChatTree {
+  const tree: ChatTree = { nodes: {}, rootIds: [], activeRootId: null };
+  appendToActivePath(tree, messages);
+  return tree;
+}
+
+// Deep copy, used to roll back a failed request
+export function cloneChatTree(tree: ChatTree): ChatTree {
+  return JSON.parse(JSON.stringify(tree));
+}
+
+export function getActivePath(tree: ChatTree): ChatNode[] {
+  const path: ChatNode[] = [];
+  const seen = new Set<string>(); // Guards against a corrupted tree looping
+  let node = tree.activeRootId ? tree.nodes[tree.activeRootId] : undefined;
+  while (node && !seen.has(node.id)) {
+    seen.add(node.id);
+    path.push(node);
+    node = node.activeChildId ? tree.nodes[node.activeChildId] : undefined;
+  }
+  return path;
+}
+
+export function getActiveMessages(tree: ChatTree): GrokMessage[] {
+  return getActivePath(tree).map(node => node.message);
+}
+
+/**
+ * Add messages after the last one on the active path. If that message already
+ * has replies, the first new message starts a new branch beside them.
+ */
+export function appendToActivePath(tree: ChatTree, messages: GrokMessage[]): void {
+  const path = getActivePath(tree);
+  let parent: ChatNode | null = path[path.length - 1] || null;
+
+  for (const message of messages) {
+    const node: ChatNode = {
+      id: crypto.randomUUID(),
+      parentId: parent?.id || null,
+      message,
+      childIds: [],
+      activeChildId: null,
+    };
+    tree.nodes[node.id] = node;
+
+    if (parent) {
+      parent.childIds.push(node.id);
+      parent.activeChildId = node.id;
+    } else {
+      tree.rootIds.push(node.id);
+      tree.activeRootId = node.id;
+    }
+    parent = node;
+  }
+}
+
+/**
+ * End the active path at a node (null for an empty path), so the next
+ * append branches from there. Later branches are kept.
+ */
+export function truncateActivePath(tree: ChatTree, nodeId: string | null): void {
+  if (nodeId === null) {
+    tree.activeRootId = null;
+  } else if (tree.nodes[nodeId]) {
+    tree.nodes[nodeId].activeChildId = null;
+  }
+}
+
+// Alternatives to a node (including itself), oldest first
+export function getSiblingIds(tree: ChatTree, nodeId: string): string[] {
+  const parentId = tree.nodes[nodeId]?.parentId;
+  return parentId ? tree.nodes[parentId]?.childIds || [] : tree.rootIds;
+}
+
+/**
+ * Switch the active path to the sibling `offset` places from a node.
+ * Each branch remembers where it was, so switching back restores it.
+ */
+export function selectSibling(tree: ChatTree, nodeId: string, offset: number): void {
+  const siblings = getSiblingIds(tree, nodeId);
+  const target = siblings[siblings.indexOf(nodeId) + offset];
+  if (!target) return;
+
+  const parentId = tree.nodes[nodeId].parentId;
+  if (parentId) {
+    tree.nodes[parentId].activeChildId = target;
+  } else {
+    tree.activeRootId = target;
+  }
+}
+
+/**
+ * Remove a single message. Its replies move up to take its place, so only
+ * that message disappears from every branch going through it. Only use this
+ * where the roles still alternate afterwards (see removeSubtree).
+ */
+export function removeNode(tree: ChatTree, nodeId: string): void {
+  const node = tree.nodes[nodeId];
+  if (!node) return;
+
+  const parent = node.parentId ? tree.nodes[node.parentId] : null;
+  const siblings = parent ? parent.childIds : tree.rootIds;
+  siblings.splice(siblings.indexOf(nodeId), 1, ...node.childIds);
+  for (const childId of node.childIds) {
+    tree.nodes[childId].parentId = node.parentId;
+  }
+
+  // Keep following the same branch through the removed node
+  const activeId = parent ? parent.activeChildId : tree.activeRootId;
+  const replacement = activeId === nodeId ? node.activeChildId : activeId;
+  if (parent) {
+    parent.activeChildId = replacement;
+  } else {
+    tree.activeRootId = replacement;
+  }
+
+  delete tree.nodes[nodeId];
+}
+
+/**
+ * Remove a message together with everything below it, on every branch.
+ * The active path falls back to a neighbouring branch, if there is one.
+ */
+export function removeSubtree(tree: ChatTree, nodeId: string): void {
+  const node = tree.nodes[nodeId];
+  if (!node) return;
+
+  const parent = node.parentId ? tree.nodes[node.parentId] : null;
+  const siblings = parent ? parent.childIds : tree.rootIds;
+  const index = siblings.indexOf(nodeId);
+  siblings.splice(index, 1);
+
+  const activeId = parent ? parent.activeChildId : tree.activeRootId;
+  if (activeId === nodeId) {
+    const replacement = siblings[Math.min(index, siblings.length - 1)] ?? null;
+    if (parent) {
+      parent.activeChildId = replacement;
+    } else {
+      tree.activeRootId = replacement;
+    }
+  }
+
+  const pending = [nodeId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    pending.push(...(tree.nodes[id]?.childIds || []));
+    delete tree.nodes[id];
+  }
+}
+
+/**
+ * Index of the message that starts the turn at the given path index: a user
+ * message starts its own turn, while an assistant reply goes back to the first
+ * tool call after the user message, so no tool call is left without its result
+ */
+export function getTurnStart(path: ChatNode[], index: number): number {
+  let start = index;
+  while (start > 0 && path[start].message.role !== 'user' && path[start - 1].message.role !== 'user') start--;
+  return start;
+}
+
+// Number of messages below a node, on every branch
+export function countDescendants(tree: ChatTree, nodeId: string): number {
+  const childIds = tree.nodes[nodeId]?.childIds || [];
+  return childIds.reduce((count, childId) => count + 1 + countDescendants(tree, childId), 0);
+}
+
+/**
+ * Check a tree loaded from storage, returning null if it is unusable
+ */
+export function parseChatTree(value: unknown): ChatTree | null {
+  const tree = value as Partial<ChatTree> | null;
+  if (!tree || typeof tree !== 'object' || !tree.nodes || typeof tree.nodes !== 'object' || !Array.isArray(tree.rootIds)) {
+    return null;
+  }
+
+  const nodes = tree.nodes as Record<string, ChatNode>;
+  const exists = (id: unknown) => typeof id === 'string' && id in nodes;
+  for (const node of Object.values(nodes)) {
+    if (!node?.message || !Array.isArray(node.childIds) || !node.childIds.every(exists)) return null;
+    if (node.activeChildId !== null && !exists(node.activeChildId)) return null;
+  }
+  if (!tree.rootIds.every(exists) || (tree.activeRootId != null && !exists(tree.activeRootId))) {
+    return null;
+  }
+
+  return { nodes, rootIds: tree.rootIds, activeRootId: tree.activeRootId ?? null };
+}
@@ -1,7 +1,13 @@
 import { supabase } from './supabase';
 import { authService } from './auth';
-import type { FavoritePost, UsageStats, PostVideo, GrokMessage } from './types';
+import type { FavoritePost, UsageStats, PostVideo, ProviderProfile, ChatSettings, Persona, ChatTree, Comparison, PromptTemplate } from './types';
+import type { Json } from './database.types';
+import { getActiveMessages, parseChatTree } from './chatTree';
+import { parseComparison } from './compare';
 import * as localStorage from './storage';
+import * as mediaStore from './mediaStore';
+import * as mediaStorage from './mediaStorage';
+import { getAttachmentPath, getAttachmentUrls, getTreeAttachmentUrls } from './attachments';
 
 /**
  * Cloud Storage Module
@@ -23,11 +29,22 @@ export async function syncFavoritesToCloud(): Promise<void> {
       id: post.id,
       user_id: user.id,
       type: post.type,
+      title: post.title || null,
+      pinned: post.pinned || false,
+      folder: post.folder || null,
       prompt: post.prompt,
       model: post.model,
       image_url: post.imageUrl || null,
+      image_path: post.imagePath || null,
+      parent_post_id: post.parentPostId || null,
+      original_prompt: post.originalPrompt || null,
       response: post.response || null,
       videos: post.videos || [],
+      provider_id: post.providerId || null,
+      provider_name: post.providerName || null,
+      chat_settings: post.chatSettings ? { ...post.chatSettings } : null,
+      message_tree: post.type === 'chat' ? toMessageTreeJson(localStorage.getChatTree(post)) : null,
+      comparison: post.comparison ? toComparisonJson(post.comparison) : null,
       created_at: new Date(post.createdAt).toISOString(),
     }, { onConflict: 'id' });
   }
@@ -48,22 +65,47 @@ export async function fetchFavoritesFromCloud(): Promise<FavoritePost[]> {
     return localStorage.getFavorites();
   }
 
-  return data.map(row => ({
-    id: row.id,
-    type: row.type as 'image' | 'chat',
-    prompt: row.prompt,
-    model: row.model,
-    imageUrl: row.image_url || undefined,
-    response: row.response || undefined,
-    videos: (row.videos as PostVideo[]) || [],
-    createdAt: new Date(row.created_at).getTime(),
-    tags: [],
-  }));
+  return data.map(row => {
+    const messageTree = parseChatTree(row.message_tree) || undefined;
+    return {
+      id: row.id,
+      type: row.type,
+      title: row.title || undefined,
+      pinned: row.pinned || undefined,
+      folder: row.folder || undefined,
+      prompt: row.prompt,
+      model: row.model,
+      imageUrl: row.image_url || undefined,
+      imagePath: row.image_path || undefined,
+      parentPostId: row.parent_post_id || undefined,
+      originalPrompt: row.original_prompt || undefined,
+      response: row.response || undefined,
+      messages: messageTree && getActiveMessages(messageTree),
+      messageTree,
+      videos: (row.videos as PostVideo[]) || [],
+      providerId: row.provider_id || undefined,
+      providerName: row.provider_name || undefined,
+      chatSettings: (row.chat_settings as unknown as ChatSettings | null) || undefined,
+      comparison: parseComparison(row.comparison) || undefined,
+      createdAt: new Date(row.created_at).getTime(),
+      tags: [],
+    };
+  });
+}
+
+function toMessageTreeJson(tree: ChatTree): Json {
+  return tree as unknown as Json;
+}
+
+function toComparisonJson(comparison: Comparison): Json {
+  return comparison as unknown as Json;
 }
 
 export async function addFavoriteToCloud(post: Omit<FavoritePost, 'id' | 'createdAt'>): Promise<FavoritePost> {
   // Always save to local first
   const localPost = localStorage.addFavorite(post);
+  // Download the media while its link still works
+  const localCopy = mediaStore.savePostMedia(localPost);
 
   const user = authService.getUser();
   if (!user) return localPost;
@@ -72,16 +114,29 @@ export async function addFavoriteToCloud(post: Omit<FavoritePost, 'id' | 'create
     id: localPost.id,
     user_id: user.id,
     type: localPost.type,
+    title: localPost.title || null,
+    pinned: localPost.pinned || false,
+    folder: localPost.folder || null,
     prompt: localPost.prompt,
     model: localPost.model,
     image_url: localPost.imageUrl || null,
+    image_path: localPost.imagePath || null,
+    parent_post_id: localPost.parentPostId || null,
+    original_prompt: localPost.originalPrompt || null,
     response: localPost.response || null,
     videos: localPost.videos || [],
+    provider_id: localPost.providerId || null,
+    provider_name: localPost.providerName || null,
+    chat_settings: localPost.chatSettings ? { ...localPost.chatSettings } : null,
+    message_tree: localPost.type === 'chat' ? toMessageTreeJson(localStorage.getChatTree(localPost)) : null,
+    comparison: localPost.comparison ? toComparisonJson(localPost.comparison) : null,
     created_at: new Date(localPost.createdAt).toISOString(),
   });
 
   if (error) {
     console.error('[CloudStorage] Failed to add post:', error);
+  } else {
+    localCopy.then(() => uploadPostMediaToCloud(localPost.id));
   }
 
   return localPost;
@@ -89,7 +144,12 @@ export async function addFavoriteToCloud(post: Omit<FavoritePost, 'id' | 'create
 
 export async function removeFavoriteFromCloud(id: string): Promise<void> {
   // Always remove locally first
+  const post = localStorage.getFavorites().find(f => f.id === id);
   localStorage.removeFavorite(id);
+  if (post) {
+    mediaStore.deletePostMedia(post);
+    mediaStore.deleteMedia(getPostAttachments(post));
+  }
 
   const user = authService.getUser();
   if (!user) return;
@@ -102,6 +162,11 @@ export async function removeFavoriteFromCloud(id: string): Promise<void> {
 
   if (error) {
     console.error('[CloudStorage] Failed to remove post:', error);
+    return;
+  }
+
+  if (post) {
+    await mediaStorage.removeMedia(getPostStoragePaths(post));
   }
 }
 
@@ -113,11 +178,18 @@ export async function updateFavoriteInCloud(id: string, updates: Partial<Favorit
   if (!user) return;
 
   const cloudUpdates: Record<string, unknown> = {};
+  if (updates.title !== undefined) cloudUpdates.title = updates.title;
+  if (updates.pinned !== undefined) cloudUpdates.pinned = updates.pinned;
+  if (updates.folder !== undefined) cloudUpdates.folder = updates.folder || null;
   if (updates.prompt !== undefined) cloudUpdates.prompt = updates.prompt;
   if (updates.model !== undefined) cloudUpdates.model = updates.model;
   if (updates.imageUrl !== undefined) cloudUpdates.image_url = updates.imageUrl;
+  if (updates.imagePath !== undefined) cloudUpdates.image_path = updates.imagePath;
   if (updates.response !== undefined) cloudUpdates.response = updates.response;
   if (updates.videos !== undefined) cloudUpdates.videos = updates.videos;
+  if (updates.chatSettings !== undefined) cloudUpdates.chat_settings = updates.chatSettings;
+  if (updates.messageTree !== undefined) cloudUpdates.message_tree = updates.messageTree;
+  if (updates.comparison !== undefined) cloudUpdates.comparison = updates.comparison;
 
   if (Object.keys(cloudUpdates).length > 0) {
     const { error } = await supabase
@@ -138,6 +210,9 @@ export async function updateFavoriteInCloud(id: string, updates: Partial<Favorit
 
 export async function addVideoToPostCloud(postId: string, video: Omit<PostVideo, 'id' | 'createdAt' | 'starred'>): Promise<PostVideo> {
   const newVideo = localStorage.addVideoToPost(postId, video);
+  const localCopy = mediaStore.saveMediaFromUrl(mediaStore.getVideoKey(newVideo.id), newVideo.url).catch(error => {
+    console.error('[CloudStorage] Failed to keep a local copy of the video:', error);
+  });
 
   const user = authService.getUser();
   if (!user) return newVideo;
@@ -146,13 +221,16 @@ export async function addVideoToPostCloud(postId: string, video: Omit<PostVideo,
   const post = localStorage.getFavorites().find(f => f.id === postId);
   if (post) {
     await updateFavoriteInCloud(postId, { videos: post.videos });
+    localCopy.then(() => uploadPostMediaToCloud(postId));
   }
 
   return newVideo;
 }
 
 export async function removeVideoFromPostCloud(postId: string, videoId: string): Promise<void> {
+  const videoPath = localStorage.getFavorites().find(f => f.id === postId)?.videos?.find(v => v.id === videoId)?.path;
   localStorage.removeVideoFromPost(postId, videoId);
+  mediaStore.deleteMedia([mediaStore.getVideoKey(videoId)]);
 
   const user = authService.getUser();
   if (!user) return;
@@ -161,6 +239,9 @@ export async function removeVideoFromPostCloud(postId: string, videoId: string):
   if (post) {
     await updateFavoriteInCloud(postId, { videos: post.videos });
   }
+  if (videoPath) {
+    await mediaStorage.removeMedia([videoPath]);
+  }
 }
 
 export async function toggleVideoStarCloud(postId: string, videoId: string): Promise<void> {
@@ -175,6 +256,119 @@ export async function toggleVideoStarCloud(postId: string, videoId: string): Pro
   }
 }
 
+// ============================================
+// MEDIA STORAGE
+// ============================================
+
+let isUploadingMedia = false; // A full upload pass is running
+const mediaUploads = new Map<string, Promise<void>>(); // In-flight uploads by post id
+
+function getPostStoragePaths(post: FavoritePost): string[] {
+  const paths = post.imagePath ? [post.imagePath] : [];
+  for (const video of post.videos || []) {
+    if (video.path) paths.push(video.path);
+  }
+  for (const url of getPostAttachments(post)) {
+    const path = getAttachmentPath(url);
+    if (path) paths.push(path);
+  }
+  return paths;
+}
+
+// Images attached to a chat's messages, on every branch
+function getPostAttachments(post: FavoritePost): string[] {
+  return post.messageTree ? getTreeAttachmentUrls(post.messageTree) : getAttachmentUrls(post.messages || []);
+}
+
+/**
+ * Upload one file, from its local copy if there is one. Returns the storage path, or null on failure.
+ */
+async function uploadMediaFile(userId: string, folder: mediaStorage.MediaFolder, id: string, key: string, url: string): Promise<string | null> {
+  try {
+    const blob = await mediaStore.getMediaBlob(key) ?? await mediaStore.fetchMedia(url);
+    const path = mediaStorage.getStoragePath(userId, folder, id, mediaStore.getFileExtension(blob.type));
+    await mediaStorage.uploadMedia(path, blob);
+    return path;
+  } catch (error) {
+    console.error('[CloudStorage] Failed to upload media:', error);
+    return null;
+  }
+}
+
+/**
+ * Copy a post's image and videos to the storage bucket, so other devices can
+ * still show them once the API links expire. Uploads for the same post run one
+ * after another, so a file is never uploaded twice at once.
+ */
+export function uploadPostMediaToCloud(postId: string): Promise<void> {
+  const running = mediaUploads.get(postId);
+  // The running upload may have started before the latest changes - go again after it
+  const upload = (running ? running.catch(() => {}).then(() => uploadPostMedia(postId)) : uploadPostMedia(postId))
+    .finally(() => {
+      if (mediaUploads.get(postId) === upload) mediaUploads.delete(postId);
+    });
+  mediaUploads.set(postId, upload);
+  return upload;
+}
+
+async function uploadPostMedia(postId: string): Promise<void> {
+  const user = authService.getUser();
+  const post = localStorage.getFavorites().find(f => f.id === postId);
+  if (!user || !post) return;
+
+  const uploaded: string[] = [];
+  if (post.imageUrl && !post.imagePath) {
+    const path = await uploadMediaFile(user.id, 'images', post.id, mediaStore.getImageKey(post.id), post.imageUrl);
+    if (path) {
+      uploaded.push(path);
+      await updateFavoriteInCloud(post.id, { imagePath: path });
+    }
+  }
+
+  const videoPaths = new Map<string, string>();
+  for (const video of post.videos || []) {
+    if (video.path) continue;
+    const path = await uploadMediaFile(user.id, 'videos', video.id, mediaStore.getVideoKey(video.id), video.url);
+    if (path) {
+      uploaded.push(path);
+      videoPaths.set(video.id, path);
+    }
+  }
+
+  // The post may have been deleted or changed while uploading
+  const current = localStorage.getFavorites().find(f => f.id === postId);
+  if (!current) {
+    await mediaStorage.removeMedia(uploaded);
+    return;
+  }
+  if (videoPaths.size > 0) {
+    const videos = (current.videos || []).map(v => videoPaths.has(v.id) ? { ...v, path: videoPaths.get(v.id) } : v);
+    await updateFavoriteInCloud(postId, { videos });
+  }
+}
+
+/**
+ * Upload media for every post that isn't in the storage bucket yet
+ */
+export async function uploadMissingMediaToCloud(): Promise<void> {
+  if (isUploadingMedia) return;
+
+  const posts = localStorage.getFavorites().filter(post =>
+    (post.imageUrl && !post.imagePath) || (post.videos || []).some(video => !video.path)
+  );
+  if (posts.length === 0) return;
+
+  console.log(`[CloudStorage] Uploading media for ${posts.length} posts`);
+  isUploadingMedia = true;
+  try {
+    for (const post of posts) {
+      await uploadPostMediaToCloud(post.id);
+    }
+  } finally {
+    isUploadingMedia = false;
+  }
+}
+
 // ============================================
 // SETTINGS
 // ============================================
@@ -265,8 +459,14 @@ export async function fetchUsageFromCloud(): Promise<UsageStats | null> {
 // CHATS
 // ============================================
 
-export async function createChatInCloud(messages: GrokMessage[], model: string, title?: string): Promise<FavoritePost> {
-  const chat = localStorage.createChat(messages, model, title);
+export async function createChatInCloud(
+  tree: ChatTree,
+  model: string,
+  title?: string,
+  provider?: Pick<ProviderProfile, 'id' | 'name'>,
+  chatSettings?: ChatSettings
+): Promise<FavoritePost> {
+  const chat = localStorage.createChat(tree, model, title, provider, chatSettings);
 
   const user = authService.getUser();
   if (!user) return chat;
@@ -275,17 +475,22 @@ export async function createChatInCloud(messages: GrokMessage[], model: string,
     id: chat.id,
     user_id: user.id,
     type: 'chat',
+    title: chat.title || null,
     prompt: chat.prompt,
     model: chat.model,
     response: chat.response || null,
+    provider_id: chat.providerId || null,
+    provider_name: chat.providerName || null,
+    chat_settings: chat.chatSettings ? { ...chat.chatSettings } : null,
+    message_tree: toMessageTreeJson(tree),
     created_at: new Date(chat.createdAt).toISOString(),
   });
 
   return chat;
 }
 
-export async function updateChatInCloud(id: string, messages: GrokMessage[], model: string): Promise<void> {
-  localStorage.updateChat(id, messages, model);
+export async function updateChatInCloud(id: string, tree: ChatTree, model: string): Promise<void> {
+  localStorage.updateChat(id, tree, model);
 
   const chat = localStorage.getChat(id);
   if (!chat) return;
@@ -297,9 +502,146 @@ export async function updateChatInCloud(id: string, messages: GrokMessage[], mod
     prompt: chat.prompt,
     model: chat.model,
     response: chat.response || null,
+    message_tree: toMessageTreeJson(tree),
   }).eq('id', id).eq('user_id', user.id);
 }
 
+// ============================================
+// PERSONAS
+// ============================================
+
+export async function fetchPersonasFromCloud(): Promise<Persona[]> {
+  const user = authService.getUser();
+  if (!user) return localStorage.getPersonas();
+
+  const { data, error } = await supabase
+    .from('personas')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[CloudStorage] Failed to fetch personas:', error);
+    return localStorage.getPersonas();
+  }
+
+  return data.map(row => ({
+    id: row.id,
+    name: row.name,
+    avatar: row.avatar,
+    model: row.model,
+    settings: { ...localStorage.DEFAULT_CHAT_SETTINGS, ...(row.settings as Partial<ChatSettings>) },
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime(),
+  }));
+}
+
+export async function savePersonaToCloud(persona: Persona): Promise<void> {
+  localStorage.savePersona(persona);
+
+  const user = authService.getUser();
+  if (!user) return;
+
+  const { error } = await supabase.from('personas').upsert({
+    id: persona.id,
+    user_id: user.id,
+    name: persona.name,
+    avatar: persona.avatar,
+    model: persona.model,
+    settings: { ...persona.settings },
+    created_at: new Date(persona.createdAt).toISOString(),
+    updated_at: new Date().toISOString(),
+  }, { onConflict: 'id' });
+
+  if (error) {
+    console.error('[CloudStorage] Failed to save persona:', error);
+  }
+}
+
+export async function removePersonaFromCloud(id: string): Promise<void> {
+  localStorage.removePersona(id);
+
+  const user = authService.getUser();
+  if (!user) return;
+
+  const { error } = await supabase
+    .from('personas')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('[CloudStorage] Failed to remove persona:', error);
+  }
+}
+
+// ============================================
+// PROMPT TEMPLATES
+// ============================================
+
+export async function fetchTemplatesFromCloud(): Promise<PromptTemplate[]> {
+  const user = authService.getUser();
+  if (!user) return localStorage.getTemplates();
+
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[CloudStorage] Failed to fetch templates:', error);
+    return localStorage.getTemplates();
+  }
+
+  return data.map(row => ({
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    text: row.text,
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime(),
+  }));
+}
+
+export async function saveTemplateToCloud(template: PromptTemplate): Promise<void> {
+  localStorage.saveTemplate(template);
+
+  const user = authService.getUser();
+  if (!user) return;
+
+  const { error } = await supabase.from('prompt_templates').upsert({
+    id: template.id,
+    user_id: user.id,
+    name: template.name,
+    kind: template.kind,
+    text: template.text,
+    created_at: new Date(template.createdAt).toISOString(),
+    updated_at: new Date().toISOString(),
+  }, { onConflict: 'id' });
+
+  if (error) {
+    console.error('[CloudStorage] Failed to save template:', error);
+  }
+}
+
+export async function removeTemplateFromCloud(id: string): Promise<void> {
+  localStorage.removeTemplate(id);
+
+  const user = authService.getUser();
+  if (!user) return;
+
+  const { error } = await supabase
+    .from('prompt_templates')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('[CloudStorage] Failed to remove template:', error);
+  }
+}
+
 // ============================================
 // FULL SYNC
 // ============================================
@@ -322,8 +664,13 @@ export async function performFullSync(): Promise<void> {
     const merged = new Map<string, FavoritePost>();
     
     // Add cloud posts first
+    const localById = new Map(localPosts.map(p => [p.id, p]));
     for (const post of cloudPosts) {
-      merged.set(post.id, post);
+      // Chats synced before message trees were stored keep their local history
+      const local = localById.get(post.id);
+      merged.set(post.id, post.type === 'chat' && !post.messageTree && local
+        ? { ...post, messages: local.messages, messageTree: local.messageTree }
+        : post);
     }
 
     // Add local-only posts
@@ -339,9 +686,34 @@ export async function performFullSync(): Promise<void> {
     const mergedArray = Array.from(merged.values()).sort((a, b) => b.createdAt - a.createdAt);
     localStorage.saveState({ favorites: mergedArray });
 
+    // Merge personas the same way
+    const cloudPersonas = await fetchPersonasFromCloud();
+    const mergedPersonas = new Map(cloudPersonas.map(p => [p.id, p]));
+    for (const persona of localStorage.getPersonas()) {
+      if (!mergedPersonas.has(persona.id)) {
+        mergedPersonas.set(persona.id, persona);
+        await savePersonaToCloud(persona);
+      }
+    }
+    localStorage.setPersonas(Array.from(mergedPersonas.values()));
+
+    // And prompt templates
+    const cloudTemplates = await fetchTemplatesFromCloud();
+    const mergedTemplates = new Map(cloudTemplates.map(t => [t.id, t]));
+    for (const template of localStorage.getTemplates()) {
+      if (!mergedTemplates.has(template.id)) {
+        mergedTemplates.set(template.id, template);
+        await saveTemplateToCloud(template);
+      }
+    }
+    localStorage.setTemplates(Array.from(mergedTemplates.values()));
+
     // Sync settings
     await fetchSettingsFromCloud();
 
+    // Media saved before it was uploaded (or on a device that was signed out) - runs in the background
+    uploadMissingMediaToCloud();
+
     console.log('[CloudStorage] Sync complete');
   } catch (error) {
     console.error('[CloudStorage] Sync failed:', error);
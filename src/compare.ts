@@ -0,0 +1,98 @@
+import { isAbortError, type GrokApiClient, type RequestOptions } from './api';
+import { calculateChatCost } from './storage';
+import type { Comparison, ComparisonAnswer, GrokMessage } from './types';
+
+/**
+ * Model Comparison
+ * Sends one prompt to several chat models in parallel and measures each
+ * answer: latency, token usage and estimated cost.
+ */
+
+export const MAX_COMPARE_MODELS = 4;
+
+async function askModel(
+  client: GrokApiClient,
+  messages: GrokMessage[],
+  model: string,
+  requestOptions: RequestOptions
+): Promise<ComparisonAnswer> {
+  const startedAt = performance.now();
+  try {
+    const response = await client.chatCompletion(messages, model, {}, requestOptions);
+    const promptTokens = response.usage?.prompt_tokens ?? 0;
+    const completionTokens = response.usage?.completion_tokens ?? 0;
+    return {
+      model,
+      content: response.choices[0]?.message.content || '',
+      latencyMs: Math.round(performance.now() - startedAt),
+      promptTokens,
+      completionTokens,
+      cost: calculateChatCost(model, promptTokens, completionTokens, client.getProviderId()),
+      votes: 0,
+    };
+  } catch (error) {
+    // Stopping cancels the whole comparison; any other failure only this column
+    if (isAbortError(error)) throw error;
+    return {
+      model,
+      content: '',
+      error: error instanceof Error ? error.message : 'Request failed',
+      latencyMs: Math.round(performance.now() - startedAt),
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: null,
+      votes: 0,
+    };
+  }
+}
+
+/**
+ * Ask every model at once. onAnswer is called as each one finishes, so
+ * fast models show up without waiting for the slowest.
+ */
+export async function runComparison(
+  client: GrokApiClient,
+  prompt: string,
+  systemPrompt: string,
+  modelIds: string[],
+  onAnswer: (answer: ComparisonAnswer, index: number) => void,
+  requestOptions: RequestOptions = {}
+): Promise<Comparison> {
+  const messages: GrokMessage[] = [
+    ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+    { role: 'user', content: prompt },
+  ];
+
+  const answers = await Promise.all(modelIds.map(async (model, index) => {
+    const answer = await askModel(client, messages, model, requestOptions);
+    onAnswer(answer, index);
+    return answer;
+  }));
+
+  return { prompt, systemPrompt, answers, winner: null };
+}
+
+// Model list shown on a saved comparison, e.g. "grok-4 vs grok-3"
+export function getComparisonModelLabel(comparison: Comparison): string {
+  return comparison.answers.map(answer => answer.model).join(' vs ');
+}
+
+/**
+ * Check a comparison loaded from storage, returning null if it is unusable
+ */
+export function parseComparison(value: unknown): Comparison | null {
+  const comparison = value as Partial<Comparison> | null;
+  if (!comparison || typeof comparison !== 'object' || typeof comparison.prompt !== 'string' || !Array.isArray(comparison.answers)) {
+    return null;
+  }
+  if (!comparison.answers.every(answer => typeof answer?.model === 'string' && typeof answer.content === 'string')) {
+    return null;
+  }
+
+  return {
+    prompt: comparison.prompt,
+    systemPrompt: comparison.systemPrompt || '',
+    answers: comparison.answers.map(answer => ({ ...answer, votes: answer.votes || 0 })),
+    winner: comparison.winner ?? null,
+  };
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { GrokApiClient } from './api';
+import { createChatTree, getActivePath } from './chatTree';
+import { buildContextMessages, estimateTokens, getContextBudget, planContext, summarizeDroppedTurns } from './context';
+import { getMessageText } from './messages';
+import type { ChatNode, GrokMessage } from './types';
+
+// 400 characters - 104 estimated tokens with the per-message overhead
+const long = (label: string) => label.padEnd(400, '.');
+
+function chatPath(messages: GrokMessage[]): ChatNode[] {
+  return getActivePath(createChatTree(messages));
+}
+
+// Three turns of 2 x 104 tokens
+const threeTurns = () => chatPath([
+  { role: 'user', content: long('q1') },
+  { role: 'assistant', content: long('a1') },
+  { role: 'user', content: long('q2') },
+  { role: 'assistant', content: long('a2') },
+  { role: 'user', content: long('q3') },
+  { role: 'assistant', content: long('a3') },
+]);
+
+describe('estimateTokens', () => {
+  it('counts text, tool calls and images', () => {
+    expect(estimateTokens([{ role: 'user', content: long('q') }])).toBe(104);
+    expect(estimateTokens([{
+      role: 'assistant',
+      content: '',
+      tool_calls: [{ id: 'call-1', type: 'function', function: { name: 'search', arguments: '{"q":"cats"}' } }],
+    }])).toBe(4 + Math.ceil(18 / 4));
+    expect(estimateTokens([{
+      role: 'user',
+      content: [{ type: 'image_url', image_url: { url: 'https://example.com/a.png' } }, { type: 'text', text: 'What?' }],
+    }])).toBe(4 + 2 + 1_000);
+  });
+});
+
+describe('getContextBudget', () => {
+  it('keeps a safety margin and room for the reply', () => {
+    expect(getContextBudget('grok-3', 1_000)).toBe(Math.floor(131_072 * 0.9) - 1_000);
+    expect(getContextBudget('grok-3', null)).toBe(Math.floor(131_072 * 0.9) - 4_096);
+    expect(getContextBudget('grok-imagine-image', null)).toBe(0);
+  });
+});
+
+describe('planContext', () => {
+  it('sends everything that fits', () => {
+    const path = threeTurns();
+    const plan = planContext(path, '', 1_000);
+
+    expect(plan).toEqual({ summaryIndex: -1, startIndex: 0, tokens: 624, budget: 1_000, overBudget: false });
+    expect(buildContextMessages(path, '', plan)).toHaveLength(6);
+  });
+
+  it('drops whole turns, oldest first', () => {
+    const path = threeTurns();
+    const plan = planContext(path, '', 450);
+
+    expect(plan.startIndex).toBe(2);
+    expect(plan.tokens).toBe(416);
+    expect(buildContextMessages(path, 'Be brief', plan).map(getMessageText)).toEqual(['Be brief', long('q2'), long('a2'), long('q3'), long('a3')]);
+  });
+
+  it('always keeps the latest turn and flags when it still does not fit', () => {
+    const plan = planContext(threeTurns(), '', 100);
+
+    expect(plan.startIndex).toBe(4);
+    expect(plan.overBudget).toBe(true);
+  });
+
+  it('never separates tool calls from their results', () => {
+    const path = chatPath([
+      { role: 'user', content: long('q1') },
+      { role: 'assistant', content: '', tool_calls: [{ id: 'call-1', type: 'function', function: { name: 'search', arguments: '{}' } }] },
+      { role: 'tool', tool_call_id: 'call-1', content: long('result') },
+      { role: 'assistant', content: long('a1') },
+      { role: 'user', content: long('q2') },
+    ]);
+
+    expect(planContext(path, '', 200).startIndex).toBe(4);
+  });
+
+  it('uses the latest stored summary where a turn ends', () => {
+    const path = threeTurns();
+    path[1].summary = 'Talked about q1';
+    path[3].summary = 'Talked about q1 and q2';
+
+    const plan = planContext(path, '', 1_000);
+
+    expect(plan.summaryIndex).toBe(3);
+    expect(plan.startIndex).toBe(4);
+    expect(buildContextMessages(path, '', plan)[0]).toEqual({
+      role: 'system',
+      content: 'Summary of the earlier conversation:\nTalked about q1 and q2',
+    });
+  });
+});
+
+describe('summarizeDroppedTurns', () => {
+  it('stores a summary of the dropped turns on the last of them', async () => {
+    const chatCompletion = vi.fn(async () => ({ choices: [{ message: { content: ' Talked about q1. ' } }] }));
+    const client = { chatCompletion } as unknown as GrokApiClient;
+    const path = threeTurns();
+    const plan = planContext(path, '', 450);
+
+    await expect(summarizeDroppedTurns(client, 'grok-3', path, plan)).resolves.toBe(true);
+
+    expect(path[1].summary).toBe('Talked about q1.');
+    const [messages] = chatCompletion.mock.calls[0] as unknown as [GrokMessage[]];
+    expect(messages[1].content).toContain(`User: ${long('q1')}`);
+    expect(messages[1].content).not.toContain('q2');
+  });
+
+  it('does nothing when no turns are dropped', async () => {
+    const chatCompletion = vi.fn();
+    const client = { chatCompletion } as unknown as GrokApiClient;
+    const path = threeTurns();
+
+    await expect(summarizeDroppedTurns(client, 'grok-3', path, planContext(path, '', 1_000))).resolves.toBe(false);
+    expect(chatCompletion).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,142 @@
+import type { GrokApiClient, RequestOptions } from './api';
+import { getMessageImages, getMessageText } from './messages';
+import { getModelCapabilities } from './models';
+import type { ChatNode, GrokMessage } from './types';
+
+/**
+ * Context Window
+ * Keeps chat requests inside the model's context window. Token counts are
+ * estimated locally (no tokenizer round trip); older turns are either left
+ * out or replaced by a summary that is stored on the chat tree.
+ */
+
+const CHARS_PER_TOKEN = 4; // Typical for English text with these tokenizers
+const MESSAGE_OVERHEAD_TOKENS = 4; // Role and separators
+const IMAGE_TOKENS = 1_000; // Rough cost of one attached image
+const DEFAULT_REPLY_TOKENS = 4_096; // Room kept for the reply when max tokens isn't set
+const SAFETY_MARGIN = 0.9; // Estimates are rough - never plan to the last token
+const SUMMARY_MAX_TOKENS = 1_024;
+
+const SUMMARY_PROMPT = 'Summarize the conversation below for an assistant that will continue it without seeing it. ' +
+  'Keep names, facts, decisions, open questions and anything the user asked to remember. ' +
+  'Write at most 300 words in plain prose.';
+
+export function estimateTokens(messages: GrokMessage[]): number {
+  return messages.reduce((total, message) => {
+    const calls = (message.tool_calls || []).map(call => call.function.name + call.function.arguments).join('');
+    const chars = getMessageText(message).length + calls.length;
+    return total + MESSAGE_OVERHEAD_TOKENS + Math.ceil(chars / CHARS_PER_TOKEN)
+      + getMessageImages(message).length * IMAGE_TOKENS;
+  }, 0);
+}
+
+/**
+ * Tokens a request may use for its messages, leaving room for the reply
+ */
+export function getContextBudget(model: string, maxTokens: number | null): number {
+  const { contextWindow } = getModelCapabilities(model);
+  return Math.max(0, Math.floor(contextWindow * SAFETY_MARGIN) - (maxTokens ?? DEFAULT_REPLY_TOKENS));
+}
+
+export interface ContextPlan {
+  summaryIndex: number; // Path index whose stored summary stands in for everything up to it, -1 for none
+  startIndex: number; // First path message sent in full; those between the summary and here are left out
+  tokens: number; // Estimated request size
+  budget: number;
+  overBudget: boolean; // Still too big with only the latest turn
+}
+
+function summaryMessage(summary: string): GrokMessage {
+  return { role: 'system', content: `Summary of the earlier conversation:\n${summary}` };
+}
+
+/**
+ * Work out which part of the active path fits in the budget. Whole turns are
+ * dropped oldest first (a turn starts at a user message), so tool calls are
+ * never separated from their results. The latest turn is always kept.
+ */
+export function planContext(path: ChatNode[], systemPrompt: string, budget: number): ContextPlan {
+  const turnStarts = path.flatMap((node, index) => node.message.role === 'user' ? [index] : []);
+  const lastTurnStart = turnStarts[turnStarts.length - 1] ?? 0;
+
+  // Summaries are only usable where a turn ends
+  let summaryIndex = -1;
+  for (let i = lastTurnStart - 1; i >= 0; i--) {
+    if (path[i].summary && path[i + 1]?.message.role === 'user') {
+      summaryIndex = i;
+      break;
+    }
+  }
+
+  const base = estimateTokens([
+    ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+    ...(summaryIndex >= 0 ? [summaryMessage(path[summaryIndex].summary!)] : []),
+  ]);
+
+  let startIndex = summaryIndex + 1;
+  let tokens = base + estimateTokens(path.slice(startIndex).map(node => node.message));
+  for (const turnStart of turnStarts) {
+    if (tokens <= budget) break;
+    if (turnStart <= startIndex) continue;
+    tokens -= estimateTokens(path.slice(startIndex, turnStart).map(node => node.message));
+    startIndex = turnStart;
+  }
+
+  return { summaryIndex, startIndex, tokens, budget, overBudget: tokens > budget };
+}
+
+/**
+ * Messages to send for a plan: system prompt, any summary, then the kept turns
+ */
+export function buildContextMessages(path: ChatNode[], systemPrompt: string, plan: ContextPlan): GrokMessage[] {
+  return [
+    ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+    ...(plan.summaryIndex >= 0 ? [summaryMessage(path[plan.summaryIndex].summary!)] : []),
+    ...path.slice(plan.startIndex).map(node => node.message),
+  ];
+}
+
+/**
+ * Summarize the turns a plan leaves out (together with any earlier summary)
+ * and store the result on the last of them, so later requests reuse it.
+ * Returns false if there was nothing to summarize.
+ */
+export async function summarizeDroppedTurns(
+  client: GrokApiClient,
+  model: string,
+  path: ChatNode[],
+  plan: ContextPlan,
+  requestOptions: RequestOptions = {}
+): Promise<boolean> {
+  const dropped = path.slice(plan.summaryIndex + 1, plan.startIndex);
+  if (dropped.length === 0) return false;
+
+  const previous = plan.summaryIndex >= 0 ? path[plan.summaryIndex].summary : null;
+  let transcript = dropped
+    .filter(node => node.message.role === 'user' || node.message.role === 'assistant')
+    .map(node => `${node.message.role === 'user' ? 'User' : 'Assistant'}: ${getMessageText(node.message)}`)
+    .join('\n\n');
+
+  // Keep the most recent part if the summary model can't read it all
+  const maxChars = getContextBudget(model, SUMMARY_MAX_TOKENS) * CHARS_PER_TOKEN;
+  if (transcript.length > maxChars) {
+    transcript = transcript.slice(transcript.length - maxChars);
+  }
+
+  const response = await client.chatCompletion(
+    [
+      { role: 'system', content: SUMMARY_PROMPT },
+      { role: 'user', content: `${previous ? `Summary so far:\n${previous}\n\n` : ''}Conversation:\n${transcript}` },
+    ],
+    model,
+    { temperature: 0.2, max_tokens: SUMMARY_MAX_TOKENS },
+    requestOptions
+  );
+
+  const summary = response.choices[0]?.message.content?.trim();
+  if (!summary) {
+    throw new Error('The summary model returned an empty summary');
+  }
+  dropped[dropped.length - 1].summary = summary;
+  return true;
+}
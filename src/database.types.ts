@@ -13,34 +13,67 @@ export interface Database {
         Row: {
           id: string
           user_id: string
-          type: 'image' | 'chat'
+          type: 'image' | 'chat' | 'comparison'
+          title: string | null
+          pinned: boolean
+          folder: string | null
           prompt: string
           model: string
           image_url: string | null
+          image_path: string | null
+          parent_post_id: string | null
+          original_prompt: string | null
           response: string | null
           videos: Json | null
+          provider_id: string | null
+          provider_name: string | null
+          chat_settings: Json | null
+          message_tree: Json | null
+          comparison: Json | null
           created_at: string
         }
         Insert: {
           id?: string
           user_id: string
-          type: 'image' | 'chat'
+          type: 'image' | 'chat' | 'comparison'
+          title?: string | null
+          pinned?: boolean
+          folder?: string | null
           prompt: string
           model: string
           image_url?: string | null
+          image_path?: string | null
+          parent_post_id?: string | null
+          original_prompt?: string | null
           response?: string | null
           videos?: Json | null
+          provider_id?: string | null
+          provider_name?: string | null
+          chat_settings?: Json | null
+          message_tree?: Json | null
+          comparison?: Json | null
           created_at?: string
         }
         Update: {
           id?: string
           user_id?: string
-          type?: 'image' | 'chat'
+          type?: 'image' | 'chat' | 'comparison'
+          title?: string | null
+          pinned?: boolean
+          folder?: string | null
           prompt?: string
           model?: string
           image_url?: string | null
+          image_path?: string | null
+          parent_post_id?: string | null
+          original_prompt?: string | null
           response?: string | null
           videos?: Json | null
+          provider_id?: string | null
+          provider_name?: string | null
+          chat_settings?: Json | null
+          message_tree?: Json | null
+          comparison?: Json | null
           created_at?: string
         }
       }
@@ -73,6 +106,67 @@ export interface Database {
           updated_at?: string
         }
       }
+      personas: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          avatar: string
+          model: string | null
+          settings: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          avatar?: string
+          model?: string | null
+          settings?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          avatar?: string
+          model?: string | null
+          settings?: Json
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      prompt_templates: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          kind: 'chat' | 'image'
+          text: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          kind: 'chat' | 'image'
+          text: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          kind?: 'chat' | 'image'
+          text?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
       usage_stats: {
         Row: {
           user_id: string
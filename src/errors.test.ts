@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ApiError,
+  AuthError,
+  QuotaError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  errorFromResponse,
+} from './errors';
+
+describe('errorFromResponse', () => {
+  it.each([
+    [400, ValidationError, 'validation'],
+    [401, AuthError, 'auth'],
+    [402, QuotaError, 'quota'],
+    [403, AuthError, 'auth'],
+    [404, ValidationError, 'validation'],
+    [408, TimeoutError, 'timeout'],
+    [413, ValidationError, 'validation'],
+    [422, ValidationError, 'validation'],
+    [429, RateLimitError, 'rate-limit'],
+    [500, ServerError, 'server'],
+    [503, ServerError, 'server'],
+    [418, ApiError, 'unknown'],
+  ])('maps status %i', (status, errorClass, kind) => {
+    const error = errorFromResponse(status, '', null);
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error.kind).toBe(kind);
+    expect(error.status).toBe(status);
+    expect(error.name).toBe(errorClass.name);
+    expect(error.message).not.toBe('');
+  });
+
+  it('shows the API message for bad requests but not for auth failures', () => {
+    expect(errorFromResponse(400, 'temperature must be <= 2', null).message).toBe('temperature must be <= 2');
+    expect(errorFromResponse(422, 'Unknown model', null).message).toBe('Unknown model');
+    expect(errorFromResponse(418, 'I am a teapot', null).message).toBe('I am a teapot');
+
+    const auth = errorFromResponse(401, 'Incorrect API key provided: xai-abc***', null);
+    expect(auth.message).not.toContain('xai-abc');
+    expect(auth.apiMessage).toBe('Incorrect API key provided: xai-abc***');
+  });
+
+  it('keeps the request id and the Retry-After delay', () => {
+    const error = errorFromResponse(429, 'Too many requests', 'req-123', 5000);
+
+    expect(error.requestId).toBe('req-123');
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(5000);
+    expect((errorFromResponse(429, '', null) as RateLimitError).retryAfterMs).toBeNull();
+  });
+
+  it('names the provider in server errors', () => {
+    expect(errorFromResponse(502, '', null, null, 'OpenRouter').message).toContain('OpenRouter servers');
+    expect(errorFromResponse(502, '', null).message).not.toContain('xAI');
+  });
+
+  it('falls back to the status code when an unknown error has no message', () => {
+    expect(errorFromResponse(409, '', null).message).toBe('Request failed (409)');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Typed API errors
+ * Thrown by GrokApiClient so views can branch on the failure type
+ * and render their own (safe) markup instead of parsing messages.
+ */
+
+export type ApiErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate-limit'
+  | 'validation'
+  | 'server'
+  | 'network'
+  | 'timeout'
+  | 'unknown';
+
+interface ApiErrorDetails {
+  status?: number; // HTTP status code, if a response was received
+  apiMessage?: string; // Raw error message from the API body
+  requestId?: string | null; // x-request-id header, for support requests
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind = 'unknown';
+  readonly status?: number;
+  readonly apiMessage: string;
+  readonly requestId: string | null;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.apiMessage = details.apiMessage || '';
+    this.requestId = details.requestId ?? null;
+  }
+}
+
+// 401/403 or missing API key
+export class AuthError extends ApiError {
+  readonly kind = 'auth';
+}
+
+// 402 - out of credits
+export class QuotaError extends ApiError {
+  readonly kind = 'quota';
+}
+
+// 429 - too many requests
+export class RateLimitError extends ApiError {
+  readonly kind = 'rate-limit';
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, details: ApiErrorDetails & { retryAfterMs?: number | null } = {}) {
+    super(message, details);
+    this.retryAfterMs = details.retryAfterMs ?? null;
+  }
+}
+
+// 400/404/413/422 - the request itself is wrong
+export class ValidationError extends ApiError {
+  readonly kind = 'validation';
+}
+
+// 5xx
+export class ServerError extends ApiError {
+  readonly kind = 'server';
+}
+
+// The request never got a response
+export class NetworkError extends ApiError {
+  readonly kind = 'network';
+}
+
+// 408 or a polling deadline was exceeded
+export class TimeoutError extends ApiError {
+  readonly kind = 'timeout';
+}
+
+/**
+ * Map an HTTP error response to a typed error with a user-friendly message
+ */
+export function errorFromResponse(
+  status: number,
+  apiMessage: string,
+  requestId: string | null,
+  retryAfterMs: number | null = null,
+  providerName = 'The API' // e.g. "xAI", for the 5xx message
+): ApiError {
+  const details = { status, apiMessage, requestId };
+
+  switch (status) {
+    case 400:
+      return new ValidationError(apiMessage || 'Bad request. Check your input and try again.', details);
+    case 401:
+      return new AuthError('Invalid API key. Please check your key in Settings.', details);
+    case 402:
+      return new QuotaError('Insufficient credits.', details);
+    case 403:
+      return new AuthError('Access denied. Your API key may not have permission for this action.', details);
+    case 404:
+      return new ValidationError('Resource not found. The requested endpoint or model may not exist.', details);
+    case 408:
+      return new TimeoutError('The request timed out. Please try again.', details);
+    case 413:
+      return new ValidationError('Request too large. Try reducing your message length.', details);
+    case 422:
+      return new ValidationError(apiMessage || 'Invalid request parameters.', details);
+    case 429:
+      return new RateLimitError('Rate limit exceeded. Please wait a moment and try again.', { ...details, retryAfterMs });
+    default:
+      if (status >= 500) {
+        return new ServerError(`${providerName} servers are experiencing issues. Please try again later.`, details);
+      }
+      return new ApiError(apiMessage || `Request failed (${status})`, details);
+  }
+}
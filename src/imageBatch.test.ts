@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { MAX_BATCH_PROMPTS, countBatchImages, estimateBatchCost, parseBatchPrompts } from './imageBatch';
+import { setPricingOverrides } from './pricing';
+
+const defaults = { aspectRatio: '1:1', count: 1 };
+
+describe('parseBatchPrompts', () => {
+  it('reads one prompt per line, skipping blank lines and comments', () => {
+    const text = 'A red fox\n\n# Landscapes\n  A misty lake at dawn  \r\nA city at night, neon';
+
+    expect(parseBatchPrompts(text, defaults)).toEqual([
+      { prompt: 'A red fox', aspectRatio: '1:1', count: 1 },
+      { prompt: 'A misty lake at dawn', aspectRatio: '1:1', count: 1 },
+      { prompt: 'A city at night, neon', aspectRatio: '1:1', count: 1 },
+    ]);
+  });
+
+  it('reads a CSV with per-row aspect ratio and count', () => {
+    const text = 'prompt,aspect_ratio,count\nA red fox,16:9,2\nA misty lake,,\n';
+
+    expect(parseBatchPrompts(text, defaults)).toEqual([
+      { prompt: 'A red fox', aspectRatio: '16:9', count: 2 },
+      { prompt: 'A misty lake', aspectRatio: '1:1', count: 1 },
+    ]);
+  });
+
+  it('accepts other header spellings and column orders', () => {
+    const text = 'Images,Ratio,Prompt\n3,9:16,A tall tower';
+
+    expect(parseBatchPrompts(text, defaults)).toEqual([{ prompt: 'A tall tower', aspectRatio: '9:16', count: 3 }]);
+  });
+
+  it('handles quoted fields with commas, quotes and line breaks', () => {
+    const text = 'prompt,count\r\n"A fox, a hound and a ""friendly"" owl",1\r\n"Line one\nline two",2\r\n';
+
+    expect(parseBatchPrompts(text, defaults).map(input => input.prompt)).toEqual([
+      'A fox, a hound and a "friendly" owl',
+      'Line one\nline two',
+    ]);
+  });
+
+  it('skips rows without a prompt', () => {
+    expect(parseBatchPrompts('prompt,count\n,2\nA fox,1\n,,\n', defaults)).toHaveLength(1);
+  });
+
+  it('rejects unsupported aspect ratios and counts with the row number', () => {
+    expect(() => parseBatchPrompts('prompt,aspect_ratio\nA fox,1:1\nA hound,2:1', defaults))
+      .toThrow('Row 3: aspect ratio must be one of');
+    expect(() => parseBatchPrompts('prompt,count\nA fox,5', defaults)).toThrow('Row 2: count must be a whole number from 1 to 4');
+    expect(() => parseBatchPrompts('prompt,count\nA fox,1.5', defaults)).toThrow('Row 2');
+    expect(() => parseBatchPrompts('prompt,count\nA fox,two', defaults)).toThrow('Row 2');
+  });
+
+  it('limits the number of prompts', () => {
+    const text = Array.from({ length: MAX_BATCH_PROMPTS + 1 }, (_, i) => `Prompt ${i}`).join('\n');
+
+    expect(() => parseBatchPrompts(text, defaults)).toThrow(`at most ${MAX_BATCH_PROMPTS} prompts`);
+  });
+});
+
+describe('batch estimates', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('counts images and prices them when the model has a price', () => {
+    const inputs = parseBatchPrompts('prompt,count\nA fox,2\nA hound,3', defaults);
+
+    expect(countBatchImages(inputs)).toBe(5);
+    expect(estimateBatchCost('xai', 'grok-imagine-image', inputs)).toBeCloseTo(0.35);
+    expect(estimateBatchCost('xai', 'unknown-image-model', inputs)).toBeNull();
+  });
+
+  it('prices with the provider the batch runs on, not the active one', () => {
+    const inputs = parseBatchPrompts('A fox', defaults);
+    setPricingOverrides('openrouter', [{
+      id: 'grok-imagine-image',
+      promptTextTokenPrice: 0,
+      completionTextTokenPrice: 0,
+      promptImageTokenPrice: 0,
+      generatedImageTokenPrice: 0,
+      imagePrice: 0.5,
+    }]);
+
+    expect(estimateBatchCost('openrouter', 'grok-imagine-image', inputs)).toBeCloseTo(0.5);
+    expect(estimateBatchCost('xai', 'grok-imagine-image', inputs)).toBeCloseTo(0.07);
+  });
+});
@@ -0,0 +1,395 @@
+import { grokApi, getApiClient, isAbortError, type GrokApiClient } from './api';
+import * as storage from './storage';
+import * as cloudStorage from './cloudStorage';
+import { ApiError } from './errors';
+import type { ImageBatch, ImageBatchItem } from './types';
+
+/**
+ * Batch Image Generation
+ * Parses prompt lists (one per line, or CSV with per-row aspect ratio and
+ * count) and generates them one at a time through a throttled queue that
+ * can be paused and resumed. The batch lives in storage, so a reload picks
+ * it up again, paused where it stopped.
+ */
+
+export const MAX_BATCH_PROMPTS = 200;
+const MAX_IMAGES_PER_PROMPT = 4;
+const ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+const THROTTLE_MS = 3_000; // Gap between requests, to stay clear of rate limits
+
+export interface BatchPromptInput {
+  prompt: string;
+  aspectRatio: string;
+  count: number;
+}
+
+type BatchUpdateCallback = (batch: ImageBatch | null) => void;
+
+// Rows of a CSV file: quoted fields may contain commas, newlines and "" for a quote
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function findColumn(header: string[], names: string[]): number {
+  return header.findIndex(cell => names.includes(cell.trim().toLowerCase().replace(/[\s_-]+/g, '')));
+}
+
+/**
+ * Prompts from pasted text or an uploaded file. A first line naming a
+ * "prompt" column is read as a CSV header (with optional "aspect_ratio" and
+ * "count" columns); otherwise every non-empty line is a prompt and lines
+ * starting with # are skipped. Throws with a readable message on bad rows.
+ */
+export function parseBatchPrompts(text: string, defaults: Omit<BatchPromptInput, 'prompt'>): BatchPromptInput[] {
+  const firstLine = text.trimStart().split(/\r?\n/)[0] || '';
+  const header = firstLine.includes(',') ? parseCsv(firstLine)[0] || [] : [];
+  const promptColumn = findColumn(header, ['prompt']);
+
+  let inputs: BatchPromptInput[];
+  if (promptColumn === -1) {
+    inputs = text.split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'))
+      .map(prompt => ({ prompt, ...defaults }));
+  } else {
+    const ratioColumn = findColumn(header, ['aspectratio', 'ratio']);
+    const countColumn = findColumn(header, ['count', 'n', 'images']);
+
+    inputs = parseCsv(text.trimStart()).slice(1).flatMap((cells, index) => {
+      const row = `Row ${index + 2}`;
+      const prompt = (cells[promptColumn] || '').trim();
+      if (!prompt) return [];
+
+      const aspectRatio = (ratioColumn !== -1 && cells[ratioColumn]?.trim()) || defaults.aspectRatio;
+      if (!ASPECT_RATIOS.includes(aspectRatio)) {
+        throw new Error(`${row}: aspect ratio must be one of ${ASPECT_RATIOS.join(', ')}`);
+      }
+
+      const countText = countColumn !== -1 ? cells[countColumn]?.trim() : '';
+      const count = countText ? Number(countText) : defaults.count;
+      if (!Number.isInteger(count) || count < 1 || count > MAX_IMAGES_PER_PROMPT) {
+        throw new Error(`${row}: count must be a whole number from 1 to ${MAX_IMAGES_PER_PROMPT}`);
+      }
+
+      return [{ prompt, aspectRatio, count }];
+    });
+  }
+
+  if (inputs.length > MAX_BATCH_PROMPTS) {
+    throw new Error(`A batch can have at most ${MAX_BATCH_PROMPTS} prompts (found ${inputs.length})`);
+  }
+  return inputs;
+}
+
+export function countBatchImages(inputs: Array<{ count: number }>): number {
+  return inputs.reduce((total, input) => total + input.count, 0);
+}
+
+/**
+ * Estimated cost in USD at the prices of the provider the batch runs on,
+ * null when the model has no known price there
+ */
+export function estimateBatchCost(providerId: string, model: string, inputs: Array<{ count: number }>): number | null {
+  return storage.calculateImageCost(model, countBatchImages(inputs), providerId);
+}
+
+export function getBatchProgress(batch: ImageBatch): { finished: number; total: number; images: number } {
+  return {
+    finished: batch.items.filter(item => item.status === 'done' || item.status === 'error').length,
+    total: batch.items.length,
+    images: batch.items.reduce((total, item) => total + item.images.length, 0),
+  };
+}
+
+// Resolves early (without throwing) when the signal aborts
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Runs the stored batch one prompt at a time
+ */
+class ImageBatchQueue {
+  private isRunning = false;
+  private requestController: AbortController | null = null; // In-flight generation, aborted by clear()
+  private waitController: AbortController | null = null; // Gap between requests, cut short by pause/clear
+  private onUpdateCallbacks: Set<BatchUpdateCallback> = new Set();
+
+  /**
+   * Pick up a batch left over from an earlier session, paused
+   */
+  restore(): void {
+    const batch = storage.getImageBatch();
+    if (!batch || batch.status !== 'running') return;
+
+    for (const item of batch.items) {
+      if (item.status === 'running') item.status = 'queued';
+    }
+    storage.setImageBatch({ ...batch, status: 'paused' });
+  }
+
+  /**
+   * Register a callback to be notified when the batch changes
+   */
+  onUpdate(callback: BatchUpdateCallback): () => void {
+    this.onUpdateCallbacks.add(callback);
+    return () => this.onUpdateCallbacks.delete(callback);
+  }
+
+  private notifyUpdate(batch: ImageBatch | null): void {
+    this.onUpdateCallbacks.forEach(cb => {
+      try {
+        cb(batch);
+      } catch (e) {
+        console.error('[ImageBatchQueue] Callback error:', e);
+      }
+    });
+  }
+
+  getBatch(): ImageBatch | null {
+    return storage.getImageBatch();
+  }
+
+  /**
+   * Replace any previous batch and start generating with the given provider
+   */
+  start(inputs: BatchPromptInput[], model: string, providerId: string, autoSave: boolean): void {
+    this.clear();
+    const batch: ImageBatch = {
+      id: crypto.randomUUID(),
+      model,
+      providerId,
+      autoSave,
+      status: 'running',
+      items: inputs.map(input => ({ id: crypto.randomUUID(), ...input, status: 'queued', images: [] })),
+      createdAt: Date.now(),
+    };
+    storage.setImageBatch(batch);
+    this.notifyUpdate(batch);
+    this.run();
+  }
+
+  /**
+   * Stop after the image being generated - a request already sent is still paid for
+   */
+  pause(): void {
+    this.updateBatch(null, batch => {
+      if (batch.status === 'running') batch.status = 'paused';
+    });
+    this.waitController?.abort();
+  }
+
+  resume(): void {
+    this.updateBatch(null, batch => {
+      // Failed prompts get another go
+      for (const item of batch.items) {
+        if (item.status === 'error') {
+          item.status = 'queued';
+          item.errorMessage = undefined;
+        }
+      }
+      batch.status = 'running';
+      batch.pauseReason = undefined;
+    });
+    this.run();
+  }
+
+  /**
+   * Drop the batch. Images already saved stay in the gallery.
+   */
+  clear(): void {
+    this.requestController?.abort();
+    this.waitController?.abort();
+    if (storage.getImageBatch()) {
+      storage.setImageBatch(null);
+      this.notifyUpdate(null);
+    }
+  }
+
+  /**
+   * Save one result (or every unsaved one) to the gallery
+   */
+  async saveResults(itemId?: string, imageIndex?: number): Promise<number> {
+    const batch = storage.getImageBatch();
+    if (!batch) return 0;
+
+    let saved = 0;
+    for (const item of batch.items) {
+      if (itemId && item.id !== itemId) continue;
+      for (let index = 0; index < item.images.length; index++) {
+        const image = item.images[index];
+        if (image.postId || (imageIndex !== undefined && index !== imageIndex)) continue;
+
+        const postId = await this.saveImage(batch, item, image.url, image.revisedPrompt);
+        // The queue may have moved on meanwhile, so only touch this image
+        this.updateBatch(batch.id, current => {
+          const stored = current.items.find(i => i.id === item.id)?.images[index];
+          if (stored) stored.postId = postId;
+        });
+        saved++;
+      }
+    }
+    return saved;
+  }
+
+  private async saveImage(batch: ImageBatch, item: ImageBatchItem, url: string, revisedPrompt?: string): Promise<string> {
+    const provider = storage.getProvider(batch.providerId);
+    const post = await cloudStorage.addFavoriteToCloud({
+      type: 'image',
+      prompt: item.prompt,
+      response: revisedPrompt || item.prompt,
+      imageUrl: url,
+      model: batch.model,
+      providerId: batch.providerId,
+      providerName: provider?.name,
+      tags: [],
+    });
+    return post.id;
+  }
+
+  // Change the stored batch (only if it is still the one expected) and notify
+  private updateBatch(batchId: string | null, mutate: (batch: ImageBatch) => void): ImageBatch | null {
+    const batch = storage.getImageBatch();
+    if (!batch || (batchId && batch.id !== batchId)) return null;
+    mutate(batch);
+    storage.setImageBatch(batch);
+    this.notifyUpdate(batch);
+    return batch;
+  }
+
+  private updateItem(batchId: string, itemId: string, updates: Partial<ImageBatchItem>): void {
+    this.updateBatch(batchId, batch => {
+      const item = batch.items.find(i => i.id === itemId);
+      if (item) Object.assign(item, updates);
+    });
+  }
+
+  private async run(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      for (;;) {
+        const batch = storage.getImageBatch();
+        if (!batch || batch.status !== 'running') return;
+
+        const item = batch.items.find(i => i.status === 'queued');
+        if (!item) {
+          this.updateBatch(batch.id, current => {
+            current.status = 'done';
+          });
+          return;
+        }
+
+        await this.generate(batch, item);
+
+        const next = storage.getImageBatch();
+        if (next?.status === 'running' && next.items.some(i => i.status === 'queued')) {
+          this.waitController = new AbortController();
+          await wait(THROTTLE_MS, this.waitController.signal);
+          this.waitController = null;
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async generate(batch: ImageBatch, item: ImageBatchItem): Promise<void> {
+    this.updateItem(batch.id, item.id, { status: 'running' });
+    this.requestController = new AbortController();
+
+    try {
+      const response = await this.getClient(batch).generateImage(item.prompt, batch.model, {
+        n: item.count,
+        aspect_ratio: item.aspectRatio,
+      }, { signal: this.requestController.signal });
+
+      const images = [];
+      for (const image of response.data) {
+        if (!image.url) continue;
+        images.push({
+          url: image.url,
+          revisedPrompt: image.revised_prompt,
+          postId: batch.autoSave ? await this.saveImage(batch, item, image.url, image.revised_prompt) : undefined,
+        });
+      }
+      this.updateItem(batch.id, item.id, { status: 'done', images });
+    } catch (error) {
+      // Cleared while generating - the batch is gone
+      if (isAbortError(error)) return;
+
+      console.error('[ImageBatchQueue] Generation failed:', error);
+      const message = error instanceof Error ? error.message : 'Image generation failed';
+      this.updateBatch(batch.id, current => {
+        const failed = current.items.find(i => i.id === item.id);
+        if (failed) {
+          failed.status = 'error';
+          failed.errorMessage = message;
+        }
+        // No point carrying on with a bad key or no credits
+        if (this.isFatalError(error)) {
+          current.status = 'paused';
+          current.pauseReason = message;
+        }
+      });
+    } finally {
+      this.requestController = null;
+    }
+  }
+
+  /**
+   * Client for the provider the batch was started on
+   */
+  private getClient(batch: ImageBatch): GrokApiClient {
+    const provider = storage.getProvider(batch.providerId);
+    return provider ? getApiClient(provider) : grokApi;
+  }
+
+  private isFatalError(error: unknown): boolean {
+    return error instanceof ApiError && (error.kind === 'auth' || error.kind === 'quota');
+  }
+}
+
+// Singleton instance
+export const imageBatchQueue = new ImageBatchQueue();
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { parseSchema, validate } from './jsonSchema';
+
+const recipe = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    servings: { type: 'integer', minimum: 1, maximum: 12 },
+    difficulty: { enum: ['easy', 'medium', 'hard'] },
+    ingredients: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    notes: { type: ['string', 'null'] },
+  },
+  required: ['title', 'servings', 'ingredients'],
+  additionalProperties: false,
+};
+
+describe('validate', () => {
+  it('accepts a value that matches the schema', () => {
+    const value = { title: 'Soup', servings: 4, difficulty: 'easy', ingredients: ['water'], notes: null };
+    expect(validate(value, recipe)).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    const value = { title: '', servings: 2.5, difficulty: 'extreme', ingredients: ['salt', 3], extra: true };
+
+    expect(validate(value, recipe)).toEqual([
+      '$.title: must be at least 1 characters',
+      '$.servings: expected integer, got number',
+      '$.difficulty: must be one of "easy", "medium", "hard"',
+      '$.ingredients[1]: expected string, got integer',
+      '$: unexpected property "extra"',
+    ]);
+  });
+
+  it('reports missing required properties and out-of-range numbers', () => {
+    expect(validate({ servings: 20 }, recipe)).toEqual([
+      '$: missing required property "title"',
+      '$: missing required property "ingredients"',
+      '$.servings: must be <= 12',
+    ]);
+  });
+
+  it('treats integers as numbers but not the other way round', () => {
+    expect(validate(3, { type: 'number' })).toEqual([]);
+    expect(validate(3.5, { type: 'integer' })).toEqual(['$: expected integer, got number']);
+  });
+
+  it('stops at a type mismatch instead of checking nested rules', () => {
+    expect(validate('soup', recipe)).toEqual(['$: expected object, got string']);
+  });
+
+  it('checks anyOf, const and pattern', () => {
+    const schema = { anyOf: [{ type: 'string', pattern: '^#[0-9a-f]{6}$' }, { const: 0 }] };
+
+    expect(validate('#ff8800', schema)).toEqual([]);
+    expect(validate(0, schema)).toEqual([]);
+    expect(validate('orange', schema)).toEqual(['$: does not match any allowed shape']);
+  });
+
+  it('validates extra properties against an additionalProperties schema', () => {
+    const schema = { type: 'object', additionalProperties: { type: 'number' } };
+
+    expect(validate({ a: 1, b: 'two' }, schema)).toEqual(['$.b: expected number, got string']);
+  });
+
+  it('ignores patterns JavaScript cannot parse', () => {
+    expect(validate('abc', { type: 'string', pattern: '(?<' })).toEqual([]);
+  });
+});
+
+describe('parseSchema', () => {
+  it('returns the schema for an object schema', () => {
+    expect(parseSchema(JSON.stringify(recipe))).toEqual({ schema: recipe });
+  });
+
+  it('explains why a schema is rejected', () => {
+    expect(parseSchema('{ not json')).toMatchObject({ error: expect.stringContaining('Invalid JSON') });
+    expect(parseSchema('[]')).toEqual({ error: 'Schema must be a JSON object' });
+    expect(parseSchema('{"type":"array"}')).toEqual({ error: 'The top-level schema must have "type": "object"' });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * JSON Schema Validation
+ * Checks structured chat replies against the schema they were requested with.
+ * Covers the subset of JSON Schema that structured outputs support.
+ */
+
+type Schema = Record<string, unknown>;
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function validateNode(value: unknown, schema: Schema, path: string, errors: string[]): void {
+  if (Array.isArray(schema.anyOf)) {
+    const matches = (schema.anyOf as Schema[]).some(option => validate(value, option).length === 0);
+    if (!matches) errors.push(`${path}: does not match any allowed shape`);
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) {
+          errors.push(`${path}: does not match ${schema.pattern}`);
+        }
+      } catch {
+        // Ignore patterns JavaScript can't parse
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, index) => validateNode(item, schema.items as Schema, `${path}[${index}]`, errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = (schema.properties || {}) as Record<string, Schema>;
+
+    for (const key of (schema.required || []) as string[]) {
+      if (!(key in object)) errors.push(`${path}: missing required property "${key}"`);
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (properties[key]) {
+        validateNode(propertyValue, properties[key], `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        validateNode(propertyValue, schema.additionalProperties as Schema, `${path}.${key}`, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value, returning readable errors (empty when valid)
+ */
+export function validate(value: unknown, schema: Schema): string[] {
+  const errors: string[] = [];
+  validateNode(value, schema, '$', errors);
+  return errors;
+}
+
+/**
+ * Parse schema editor text, returning an error message if it isn't a usable schema
+ */
+export function parseSchema(text: string): { schema: Schema } | { error: string } {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (error) {
+    return { error: `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}` };
+  }
+  if (typeOf(schema) !== 'object') {
+    return { error: 'Schema must be a JSON object' };
+  }
+  if ((schema as Schema).type !== 'object') {
+    return { error: 'The top-level schema must have "type": "object"' };
+  }
+  return { schema: schema as Schema };
+}
@@ -1,3 +1,5 @@
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
 import './styles.css';
 import { App } from './app';
 
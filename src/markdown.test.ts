@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+// DOMPurify needs a full DOM: happy-dom drops some elements and skips its hooks
+import { describe, expect, it } from 'vitest';
+import { renderMarkdown, renderTranscript } from './markdown';
+
+// Parse the output the way the app does, through innerHTML
+function render(text: string): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = renderMarkdown(text);
+  return container;
+}
+
+describe('renderMarkdown', () => {
+  it('shows raw HTML as text instead of running it', () => {
+    const container = render('Hi <script>alert(1)</script> <img src="x" onerror="alert(2)">');
+
+    expect(container.querySelector('script')).toBeNull();
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.textContent).toContain('<script>alert(1)</script>');
+    expect(container.textContent).toContain('<img src="x" onerror="alert(2)">');
+  });
+
+  it('drops javascript: links', () => {
+    const container = render('[click me](javascript:alert(1))');
+
+    expect(container.innerHTML).not.toContain('javascript:');
+    expect(container.querySelector('a')?.getAttribute('href') ?? null).toBeNull();
+  });
+
+  it('opens links in a new tab without access back to the app', () => {
+    const link = render('[Docs](https://example.com/docs)').querySelector('a');
+
+    expect(link?.getAttribute('href')).toBe('https://example.com/docs');
+    expect(link?.getAttribute('target')).toBe('_blank');
+    expect(link?.getAttribute('rel')).toBe('noopener noreferrer');
+  });
+
+  it('highlights fenced code and adds a copy button', () => {
+    const container = render('```js\nconst answer = 42;\n```');
+
+    expect(container.querySelector('.code-block-header span')?.textContent).toBe('js');
+    expect(container.querySelector('.copy-code')).not.toBeNull();
+    expect(container.querySelector('code.hljs .hljs-keyword')?.textContent).toBe('const');
+    expect(container.querySelector('code')?.textContent).toBe('const answer = 42;');
+  });
+
+  it('escapes code in languages it cannot highlight', () => {
+    const container = render('```\n<b>bold</b>\n```');
+
+    expect(container.querySelector('code b')).toBeNull();
+    expect(container.querySelector('code')?.textContent).toBe('<b>bold</b>');
+  });
+
+  it('renders TeX math but leaves prices alone', () => {
+    expect(render('Mass $E = mc^2$ here').querySelector('.katex')).not.toBeNull();
+    expect(render('$$\\frac{1}{2}$$').querySelector('.math-block .katex-display')).not.toBeNull();
+
+    const prices = render('It costs $5 and $10');
+    expect(prices.querySelector('.katex')).toBeNull();
+    expect(prices.textContent?.trim()).toBe('It costs $5 and $10');
+  });
+});
+
+describe('renderTranscript', () => {
+  it('escapes user text and the title, and renders assistant markdown', () => {
+    const page = renderTranscript('<Chat>', [
+      { role: 'user', content: '<script>alert(1)</script> **not bold**' },
+      { role: 'assistant', content: '**bold**' },
+      { role: 'tool', tool_call_id: 'call-1', content: 'hidden result' },
+    ]);
+
+    expect(page).toContain('<title>&lt;Chat&gt;</title>');
+    expect(page).toContain('&lt;script&gt;alert(1)&lt;/script&gt; **not bold**');
+    expect(page).not.toContain('<script>');
+    expect(page).toContain('<strong>bold</strong>');
+    expect(page).not.toContain('hidden result');
+  });
+});
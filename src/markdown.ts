@@ -0,0 +1,151 @@
+import { Marked, type Tokens, type TokenizerAndRendererExtension } from 'marked';
+import DOMPurify from 'dompurify';
+import hljs from 'highlight.js/lib/common';
+import katex from 'katex';
+import { icons } from './icons';
+import { getMessageImages, getMessageText } from './messages';
+import type { GrokMessage } from './types';
+
+/**
+ * Markdown Rendering
+ * Turns model replies into sanitized HTML: GitHub-flavored markdown,
+ * highlighted code blocks with a copy button, and TeX math ($...$, $$...$$,
+ * \(...\) and \[...\]). Raw HTML in the text is shown as text, never run.
+ */
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderMath(tex: string, displayMode: boolean): string {
+  // Bad TeX is shown in red rather than throwing
+  return katex.renderToString(tex, { displayMode, throwOnError: false, output: 'htmlAndMathml' });
+}
+
+const blockMath: TokenizerAndRendererExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start: (src) => src.match(/\$\$|\\\[/)?.index,
+  tokenizer(src) {
+    const match = /^\$\$([\s\S]+?)\$\$/.exec(src) || /^\\\[([\s\S]+?)\\\]/.exec(src);
+    if (match) {
+      return { type: 'blockMath', raw: match[0], text: match[1].trim() };
+    }
+    return undefined;
+  },
+  renderer: (token) => `<div class="math-block">${renderMath(token.text, true)}</div>`,
+};
+
+const inlineMath: TokenizerAndRendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start: (src) => src.match(/\$|\\\(/)?.index,
+  tokenizer(src) {
+    // "$5 and $10" is money, not math: no space inside the dollars and no digit after the closing one
+    const match = /^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/.exec(src) || /^\\\(([\s\S]+?)\\\)/.exec(src);
+    if (match) {
+      return { type: 'inlineMath', raw: match[0], text: match[1] };
+    }
+    return undefined;
+  },
+  renderer: (token) => renderMath(token.text, false),
+};
+
+const marked = new Marked({
+  gfm: true,
+  breaks: true, // Models use single newlines as line breaks
+  extensions: [blockMath, inlineMath],
+  renderer: {
+    code({ text, lang }: Tokens.Code): string {
+      const language = (lang || '').trim().split(/\s+/)[0].toLowerCase();
+      const highlighted = language && hljs.getLanguage(language)
+        ? hljs.highlight(text, { language, ignoreIllegals: true }).value
+        : escapeHtml(text);
+
+      return `
+        <div class="code-block">
+          <div class="code-block-header">
+            <span>${escapeHtml(language || 'text')}</span>
+            <button type="button" class="btn btn-ghost btn-sm copy-code" title="Copy code">${icons.copy}</button>
+          </div>
+          <pre><code class="hljs">${highlighted}</code></pre>
+        </div>
+      `;
+    },
+    html({ text }: Tokens.HTML | Tokens.Tag): string {
+      return escapeHtml(text);
+    },
+  },
+});
+
+// Links leave the app, without access back to it
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A' && node.getAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+/**
+ * Render markdown to HTML that is safe to insert into the page
+ */
+export function renderMarkdown(text: string): string {
+  const html = marked.parse(text, { async: false });
+  return DOMPurify.sanitize(html, { ADD_ATTR: ['target'] });
+}
+
+// Exported pages can't load the app's stylesheets - math falls back to the
+// browser's MathML rendering and copy buttons are hidden
+const TRANSCRIPT_STYLES = `
+  body { max-width: 760px; margin: 2rem auto; padding: 0 1rem; font: 15px/1.6 system-ui, sans-serif; color: #1f2328; }
+  h1 { font-size: 1.4rem; }
+  .message { margin: 1.5rem 0; }
+  .role { font-size: 0.8rem; font-weight: 600; text-transform: uppercase; color: #656d76; }
+  .user .content { white-space: pre-wrap; }
+  .content img { max-width: 100%; }
+  pre { background: #f6f8fa; padding: 0.75rem; border-radius: 6px; overflow-x: auto; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d0d7de; padding: 0.25rem 0.75rem; }
+  .code-block-header { font-size: 0.8rem; color: #656d76; }
+  .copy-code, .katex-html { display: none; }
+`;
+
+/**
+ * Standalone HTML page of a chat's messages, for downloading
+ */
+export function renderTranscript(title: string, messages: GrokMessage[]): string {
+  const body = messages
+    .filter(m => m.role === 'user' || m.role === 'assistant')
+    .map(message => {
+      const text = getMessageText(message);
+      const images = getMessageImages(message);
+      // Skip assistant turns that only called tools
+      if (!text && images.length === 0) return '';
+
+      const content = message.role === 'assistant' ? renderMarkdown(text) : escapeHtml(text);
+      return `
+        <section class="message ${message.role}">
+          <div class="role">${message.role === 'user' ? 'You' : 'Grok'}</div>
+          <div class="content">${images.map(url => `<img src="${escapeHtml(url)}" alt="Attached image">`).join('')}${content}</div>
+        </section>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${TRANSCRIPT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,62 @@
+import { supabase } from './supabase';
+
+/**
+ * Media Storage
+ * Signed-in users' saved images and videos live in a private Supabase
+ * Storage bucket, one folder per user, and are read through signed URLs.
+ */
+
+const BUCKET = 'media';
+const SIGNED_URL_TTL_S = 60 * 60;
+const SIGNED_URL_MARGIN_MS = 5 * 60 * 1000; // Renew a URL this long before it expires
+
+export type MediaFolder = 'images' | 'videos' | 'attachments';
+
+const signedUrls = new Map<string, { url: string; expiresAt: number }>();
+
+/**
+ * Path of a file in the bucket, e.g. "<user_id>/images/<post_id>.jpg".
+ * The first folder must be the user's id for the storage policies to allow it.
+ */
+export function getStoragePath(userId: string, folder: MediaFolder, id: string, extension: string): string {
+  return `${userId}/${folder}/${id}.${extension}`;
+}
+
+/**
+ * Upload a file, replacing any earlier upload at the same path. Throws on failure.
+ */
+export async function uploadMedia(path: string, blob: Blob): Promise<void> {
+  const { error } = await supabase.storage.from(BUCKET).upload(path, blob, {
+    contentType: blob.type || undefined,
+    upsert: true,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Time-limited URL for a stored file, or null if it can't be signed
+ * (not signed in, or the file is gone)
+ */
+export async function getSignedUrl(path: string): Promise<string | null> {
+  const cached = signedUrls.get(path);
+  if (cached && cached.expiresAt - SIGNED_URL_MARGIN_MS > Date.now()) return cached.url;
+
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(path, SIGNED_URL_TTL_S);
+  if (error || !data) {
+    console.error('[MediaStorage] Failed to sign URL:', error);
+    return null;
+  }
+
+  signedUrls.set(path, { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_TTL_S * 1000 });
+  return data.signedUrl;
+}
+
+export async function removeMedia(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+  paths.forEach(path => signedUrls.delete(path));
+
+  const { error } = await supabase.storage.from(BUCKET).remove(paths);
+  if (error) {
+    console.error('[MediaStorage] Failed to remove media:', error);
+  }
+}
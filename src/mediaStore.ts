@@ -0,0 +1,297 @@
+import * as storage from './storage';
+import { getSignedUrl } from './mediaStorage';
+import type { FavoritePost } from './types';
+
+/**
+ * Media Store
+ * Generated image and video links expire, so saved media is also kept as
+ * blobs in IndexedDB. Views render the remote link first and swap in the
+ * local copy once it has been read (see getMediaUrl). Media uploaded to the
+ * storage bucket is downloaded from there rather than from the old link.
+ */
+
+const DB_NAME = 'grok-bud-media';
+const DB_VERSION = 1;
+const STORE_NAME = 'media';
+const BACKFILL_DELAY_MS = 500; // Between downloads, so the backfill stays in the background
+
+interface StoredMedia {
+  key: string;
+  blob: Blob;
+  sourceUrl: string;
+  savedAt: number;
+}
+
+export interface LocalMedia {
+  url: string; // Object URL for the stored blob
+  type: string; // MIME type
+}
+
+export interface MediaUsage {
+  count: number;
+  bytes: number;
+}
+
+export interface BackfillProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+type BackfillUpdateCallback = (progress: BackfillProgress | null) => void;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const objectUrls = new Map<string, LocalMedia>(); // Blobs already read this session
+
+export function getImageKey(postId: string): string {
+  return `image:${postId}`;
+}
+
+export function getVideoKey(videoId: string): string {
+  return `video:${videoId}`;
+}
+
+interface MediaSource {
+  key: string;
+  url: string; // Link from the API
+  path?: string; // Copy in the storage bucket
+}
+
+// Every piece of media a post links to, with its storage key
+function getPostMedia(post: FavoritePost): MediaSource[] {
+  const media: MediaSource[] = post.imageUrl ? [{ key: getImageKey(post.id), url: post.imageUrl, path: post.imagePath }] : [];
+  for (const video of post.videos || []) {
+    media.push({ key: getVideoKey(video.id), url: video.url, path: video.path });
+  }
+  return media;
+}
+
+// The bucket copy outlives the API link, so prefer it
+async function getDownloadUrl(media: MediaSource): Promise<string> {
+  return (media.path && await getSignedUrl(media.path)) || media.url;
+}
+
+export function getFileExtension(type: string): string {
+  return FILE_EXTENSIONS[type] || type.split('/')[1] || 'bin';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again (e.g. private browsing blocked it once)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getStoredKeys(): Promise<Set<string>> {
+  const keys = await withStore('readonly', store => store.getAllKeys());
+  return new Set(keys.map(String));
+}
+
+export async function fetchMedia(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Download failed (${response.status})`);
+  }
+  return response.blob();
+}
+
+/**
+ * Download a remote file (or data: URL) and keep it under the given key
+ */
+export async function saveMediaFromUrl(key: string, url: string): Promise<void> {
+  await saveMediaBlob(key, await fetchMedia(url), url);
+}
+
+export async function saveMediaBlob(key: string, blob: Blob, sourceUrl = ''): Promise<void> {
+  const record: StoredMedia = { key, blob, sourceUrl, savedAt: Date.now() };
+  await withStore('readwrite', store => store.put(record));
+}
+
+/**
+ * The stored file itself, or null if there is no local copy
+ */
+export async function getMediaBlob(key: string): Promise<Blob | null> {
+  try {
+    const record = await withStore<StoredMedia | undefined>('readonly', store => store.get(key));
+    return record?.blob ?? null;
+  } catch (error) {
+    console.error('[MediaStore] Failed to read media:', error);
+    return null;
+  }
+}
+
+/**
+ * Object URL for a stored file, or null if there is no local copy
+ */
+export async function getMediaUrl(key: string): Promise<LocalMedia | null> {
+  const cached = objectUrls.get(key);
+  if (cached) return cached;
+
+  const blob = await getMediaBlob(key);
+  if (!blob) return null;
+  const media = { url: URL.createObjectURL(blob), type: blob.type };
+  objectUrls.set(key, media);
+  return media;
+}
+
+// Object URL if the file has already been read, so re-renders don't flicker
+export function getCachedMediaUrl(key: string): string | undefined {
+  return objectUrls.get(key)?.url;
+}
+
+export async function deleteMedia(keys: string[]): Promise<void> {
+  for (const key of keys) {
+    const cached = objectUrls.get(key);
+    if (cached) {
+      URL.revokeObjectURL(cached.url);
+      objectUrls.delete(key);
+    }
+    try {
+      await withStore('readwrite', store => store.delete(key));
+    } catch (error) {
+      console.error('[MediaStore] Failed to delete media:', error);
+    }
+  }
+}
+
+/**
+ * Keep local copies of a post's image and videos. Failures are logged and
+ * left for the backfill to retry.
+ */
+export async function savePostMedia(post: FavoritePost): Promise<void> {
+  for (const media of getPostMedia(post)) {
+    try {
+      await saveMediaFromUrl(media.key, await getDownloadUrl(media));
+    } catch (error) {
+      console.error('[MediaStore] Failed to save media:', error);
+    }
+  }
+}
+
+export function deletePostMedia(post: FavoritePost): Promise<void> {
+  return deleteMedia(getPostMedia(post).map(media => media.key));
+}
+
+export async function getMediaUsage(): Promise<MediaUsage> {
+  const records = await withStore<StoredMedia[]>('readonly', store => store.getAll());
+  return {
+    count: records.length,
+    bytes: records.reduce((total, record) => total + record.blob.size, 0),
+  };
+}
+
+/**
+ * Number of saved images and videos that only exist as remote links
+ */
+export async function countLinkOnlyMedia(): Promise<number> {
+  const stored = await getStoredKeys();
+  return storage.getFavorites().flatMap(getPostMedia).filter(media => !stored.has(media.key)).length;
+}
+
+/**
+ * Background job that downloads media saved before local copies existed,
+ * or whose download failed when it was saved
+ */
+class MediaBackfill {
+  private progress: BackfillProgress | null = null;
+  private failedKeys: Set<string> = new Set(); // Not retried again this session
+  private onUpdateCallbacks: Set<BackfillUpdateCallback> = new Set();
+
+  /**
+   * Register a callback to be notified as the backfill progresses
+   */
+  onUpdate(callback: BackfillUpdateCallback): () => void {
+    this.onUpdateCallbacks.add(callback);
+    return () => this.onUpdateCallbacks.delete(callback);
+  }
+
+  private notifyUpdate(): void {
+    this.onUpdateCallbacks.forEach(cb => {
+      try {
+        cb(this.progress);
+      } catch (e) {
+        console.error('[MediaBackfill] Callback error:', e);
+      }
+    });
+  }
+
+  getProgress(): BackfillProgress | null {
+    return this.progress;
+  }
+
+  /**
+   * Download everything that is still link-only. retryFailed also retries
+   * links that already failed this session.
+   */
+  async run(retryFailed = false): Promise<void> {
+    if (this.progress) return;
+    if (retryFailed) this.failedKeys.clear();
+
+    let stored: Set<string>;
+    try {
+      stored = await getStoredKeys();
+    } catch (error) {
+      console.error('[MediaBackfill] IndexedDB unavailable:', error);
+      return;
+    }
+
+    const missing = storage.getFavorites()
+      .flatMap(getPostMedia)
+      .filter(media => !stored.has(media.key) && !this.failedKeys.has(media.key));
+    if (missing.length === 0) return;
+
+    console.log(`[MediaBackfill] Saving ${missing.length} media files`);
+    this.progress = { done: 0, total: missing.length, failed: 0 };
+    this.notifyUpdate();
+
+    for (const media of missing) {
+      try {
+        await saveMediaFromUrl(media.key, await getDownloadUrl(media));
+      } catch (error) {
+        // Usually an expired link that was never uploaded - nothing more can be done for it
+        console.error('[MediaBackfill] Failed to save media:', error);
+        this.failedKeys.add(media.key);
+        this.progress.failed++;
+      }
+      this.progress.done++;
+      this.notifyUpdate();
+      await new Promise(resolve => setTimeout(resolve, BACKFILL_DELAY_MS));
+    }
+
+    console.log('[MediaBackfill] Done', this.progress);
+    this.progress = null;
+    this.notifyUpdate();
+  }
+}
+
+// Singleton instance
+export const mediaBackfill = new MediaBackfill();
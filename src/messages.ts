@@ -0,0 +1,90 @@
+import type { GrokMessage, MessageContentPart } from './types';
+
+/**
+ * Message Content
+ * Helpers for chat messages whose content is either plain text
+ * or a list of text and image parts (vision input).
+ */
+
+const MAX_IMAGE_DIMENSION = 1536; // Longest side sent to the API, in pixels
+const MAX_IMAGE_FILE_SIZE = 20 * 1024 * 1024;
+const JPEG_QUALITY = 0.85;
+
+export function getMessageText(message: GrokMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .flatMap(part => part.type === 'text' ? [part.text] : [])
+    .join('\n');
+}
+
+export function getMessageImages(message: GrokMessage): string[] {
+  if (typeof message.content === 'string') return [];
+  return message.content.flatMap(part => part.type === 'image_url' ? [part.image_url.url] : []);
+}
+
+/**
+ * Messages as the API expects them, without app-only metadata
+ */
+export function toApiMessages(messages: GrokMessage[]): GrokMessage[] {
+  return messages.map(({ meta: _meta, ...message }) => message);
+}
+
+/**
+ * Plain string content unless there are images to attach
+ */
+export function buildMessageContent(text: string, imageUrls: string[]): GrokMessage['content'] {
+  if (imageUrls.length === 0) return text;
+
+  const parts: MessageContentPart[] = imageUrls.map(url => ({
+    type: 'image_url',
+    image_url: { url, detail: 'high' },
+  }));
+  if (text) {
+    parts.push({ type: 'text', text });
+  }
+  return parts;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not read image'));
+    image.src = src;
+  });
+}
+
+/**
+ * Read a pasted, dropped or uploaded image into a JPEG data URL,
+ * scaled down so large photos stay within API and storage limits
+ */
+export async function readImageFile(file: File): Promise<string> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${file.name || 'File'} is not an image`);
+  }
+  if (file.size > MAX_IMAGE_FILE_SIZE) {
+    throw new Error(`${file.name || 'Image'} is larger than 20 MB`);
+  }
+
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(objectUrl);
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not read image');
+    }
+    // Flatten transparency onto white - JPEG has no alpha channel
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
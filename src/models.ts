@@ -0,0 +1,176 @@
+import type { GrokApiClient } from './api';
+import { getModelPricing } from './pricing';
+import { getActiveProvider } from './storage';
+import type { ModelCapabilities, ModelKind } from './types';
+
+/**
+ * Model Registry
+ * Caches the model list fetched per provider and describes what each model can do.
+ * Models we don't know about get capabilities inferred from their id.
+ */
+
+const MODEL_CACHE_KEY = 'grok-bud-model-cache';
+const MODEL_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // Refetch model lists daily
+
+// Built-in capabilities (pricing is looked up separately)
+const KNOWN_MODELS: Array<Omit<ModelCapabilities, 'pricing'>> = [
+  {
+    id: 'grok-4',
+    label: 'Grok 4',
+    kind: 'chat',
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text'],
+    contextWindow: 256_000,
+    reasoning: true,
+    tools: true,
+    known: true,
+  },
+  {
+    id: 'grok-3',
+    label: 'Grok 3',
+    kind: 'chat',
+    inputModalities: ['text'],
+    outputModalities: ['text'],
+    contextWindow: 131_072,
+    reasoning: false,
+    tools: true,
+    known: true,
+  },
+  {
+    id: 'grok-3-mini',
+    label: 'Grok 3 Mini',
+    kind: 'chat',
+    inputModalities: ['text'],
+    outputModalities: ['text'],
+    contextWindow: 131_072,
+    reasoning: true,
+    tools: true,
+    known: true,
+  },
+  {
+    id: 'grok-imagine-image',
+    label: 'Grok Imagine',
+    kind: 'image',
+    inputModalities: ['text', 'image'], // Image input = edits
+    outputModalities: ['image'],
+    contextWindow: 0,
+    reasoning: false,
+    tools: false,
+    known: true,
+  },
+  {
+    id: 'grok-imagine-video',
+    label: 'Grok Imagine Video',
+    kind: 'video',
+    inputModalities: ['text', 'image'],
+    outputModalities: ['video'],
+    contextWindow: 0,
+    reasoning: false,
+    tools: false,
+    known: true,
+  },
+];
+
+// Used for chat models we have no data for
+const FALLBACK_CONTEXT_WINDOW = 131_072;
+
+interface ModelCache {
+  [providerId: string]: {
+    models: string[];
+    fetchedAt: number;
+  };
+}
+
+function loadModelCache(): ModelCache {
+  try {
+    const cached = localStorage.getItem(MODEL_CACHE_KEY);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+  } catch {
+    // Ignore parse errors
+  }
+  return {};
+}
+
+function saveModelCache(cache: ModelCache): void {
+  try {
+    localStorage.setItem(MODEL_CACHE_KEY, JSON.stringify(cache));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+// Best guess from naming conventions (e.g. "grok-2-vision", "grok-imagine-image")
+function inferCapabilities(id: string): Omit<ModelCapabilities, 'pricing'> {
+  const lower = id.toLowerCase();
+
+  if (lower.includes('video')) {
+    return {
+      id, label: id, kind: 'video',
+      inputModalities: ['text', 'image'], outputModalities: ['video'],
+      contextWindow: 0, reasoning: false, tools: false, known: false,
+    };
+  }
+
+  if (lower.includes('image') || lower.includes('dall-e') || lower.includes('imagine')) {
+    return {
+      id, label: id, kind: 'image',
+      inputModalities: ['text'], outputModalities: ['image'],
+      contextWindow: 0, reasoning: false, tools: false, known: false,
+    };
+  }
+
+  return {
+    id,
+    label: id,
+    kind: 'chat',
+    inputModalities: lower.includes('vision') ? ['text', 'image'] : ['text'],
+    outputModalities: ['text'],
+    contextWindow: FALLBACK_CONTEXT_WINDOW,
+    reasoning: lower.includes('mini') || lower.includes('reason'),
+    tools: lower.startsWith('grok-'), // Other providers' models may not support function calling
+    known: false,
+  };
+}
+
+export function getModelCapabilities(id: string): ModelCapabilities {
+  const capabilities = KNOWN_MODELS.find(m => m.id === id) || inferCapabilities(id);
+  return { ...capabilities, pricing: getModelPricing(getActiveProvider().id, id) };
+}
+
+export function getCachedModelIds(providerId: string): string[] | null {
+  return loadModelCache()[providerId]?.models || null;
+}
+
+export function isModelCacheStale(providerId: string): boolean {
+  const entry = loadModelCache()[providerId];
+  return !entry || Date.now() - entry.fetchedAt > MODEL_CACHE_TTL_MS;
+}
+
+/**
+ * Fetch the provider's model list (unless the cached one is still fresh)
+ */
+export async function refreshModels(client: GrokApiClient, providerId: string, force = false): Promise<string[]> {
+  if (!force && !isModelCacheStale(providerId)) {
+    return getCachedModelIds(providerId) || [];
+  }
+
+  const response = await client.listModels();
+  const models = response.data.map(m => m.id).sort();
+
+  const cache = loadModelCache();
+  cache[providerId] = { models, fetchedAt: Date.now() };
+  saveModelCache(cache);
+
+  return models;
+}
+
+/**
+ * Models of one kind for a provider, in selector order.
+ * Falls back to the built-in list until the provider's models have been fetched.
+ */
+export function getModelsForKind(kind: ModelKind, providerId: string): ModelCapabilities[] {
+  const ids = getCachedModelIds(providerId) || KNOWN_MODELS.map(m => m.id);
+  return ids.map(getModelCapabilities).filter(m => m.kind === kind);
+}
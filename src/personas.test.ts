@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PERSONA_AVATAR, exportPersonas, importPersonas } from './personas';
+import { DEFAULT_CHAT_SETTINGS } from './storage';
+import type { Persona } from './types';
+
+const reviewer: Persona = {
+  id: 'p1',
+  name: 'Code Reviewer',
+  avatar: '🧐',
+  model: 'grok-4',
+  settings: { systemPrompt: 'Review code carefully.', temperature: 0.2, topP: 0.9, maxTokens: 2000, reasoningEffort: 'high' },
+  createdAt: 1,
+};
+
+// A persona file with one entry
+const withSettings = (settings: Record<string, unknown>) => JSON.stringify([{ name: 'Tuned', settings }]);
+
+describe('importPersonas', () => {
+  it('reads an exported file as new personas', () => {
+    const [imported] = importPersonas(exportPersonas([reviewer]));
+
+    expect(imported).toMatchObject({ name: 'Code Reviewer', avatar: '🧐', model: 'grok-4', settings: reviewer.settings });
+    expect(imported.id).not.toBe('p1');
+  });
+
+  it('accepts a bare array and fills in missing fields', () => {
+    const [imported] = importPersonas(JSON.stringify([{ name: ' Helper ', avatar: ' ', model: '' }]));
+
+    expect(imported).toMatchObject({ name: 'Helper', avatar: DEFAULT_PERSONA_AVATAR, model: null, settings: DEFAULT_CHAT_SETTINGS });
+  });
+
+  it('ignores settings of the wrong type', () => {
+    const [imported] = importPersonas(withSettings({ systemPrompt: 3, temperature: '1', reasoningEffort: 'extreme' }));
+
+    expect(imported.settings).toEqual(DEFAULT_CHAT_SETTINGS);
+  });
+
+  it('rejects parameters out of range, naming the persona', () => {
+    expect(() => importPersonas(withSettings({ temperature: 2.5 }))).toThrow('Persona 1 (Tuned): Temperature must be between 0 and 2');
+    expect(() => importPersonas(withSettings({ topP: -0.1 }))).toThrow('Top P must be between 0 and 1');
+    expect(() => importPersonas(withSettings({ maxTokens: 1.5 }))).toThrow('Max tokens must be a positive whole number');
+    expect(() => importPersonas(withSettings({ maxTokens: 0 }))).toThrow('Max tokens must be a positive whole number');
+  });
+
+  it('rejects files it cannot use', () => {
+    expect(() => importPersonas('{ not json')).toThrow('not valid JSON');
+    expect(() => importPersonas('{"format":"grok-bud-templates","templates":[]}')).toThrow('No personas found');
+    expect(() => importPersonas(JSON.stringify([{ avatar: '🤖' }]))).toThrow('Persona 1 has no name');
+  });
+
+  it('rejects files from a newer version', () => {
+    const file = JSON.parse(exportPersonas([reviewer]));
+
+    expect(() => importPersonas(JSON.stringify({ ...file, version: file.version + 1 }))).toThrow('newer version');
+  });
+});
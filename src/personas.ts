@@ -0,0 +1,87 @@
+import { DEFAULT_CHAT_SETTINGS, getChatSettingsError } from './storage';
+import type { ChatSettings, Persona } from './types';
+
+/**
+ * Persona Sharing
+ * JSON import/export format for personas, so teammates can share them.
+ * Ids and timestamps are local - imports always create new personas.
+ */
+
+const EXPORT_FORMAT = 'grok-bud-personas';
+const EXPORT_VERSION = 1;
+
+export const DEFAULT_PERSONA_AVATAR = '🤖';
+
+type SharedPersona = Pick<Persona, 'name' | 'avatar' | 'model' | 'settings'>;
+
+interface PersonaExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  personas: SharedPersona[];
+}
+
+export function exportPersonas(personas: Persona[]): string {
+  const file: PersonaExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    personas: personas.map(({ name, avatar, model, settings }) => ({ name, avatar, model, settings })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function parsePersona(value: unknown, index: number): Persona {
+  const entry = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const label = `Persona ${index + 1}`;
+
+  if (typeof entry.name !== 'string' || !entry.name.trim()) {
+    throw new Error(`${label} has no name`);
+  }
+
+  const raw = (entry.settings && typeof entry.settings === 'object' ? entry.settings : {}) as Record<string, unknown>;
+  const number = (key: string) => typeof raw[key] === 'number' ? raw[key] as number : null;
+  const settings: ChatSettings = {
+    systemPrompt: typeof raw.systemPrompt === 'string' ? raw.systemPrompt : DEFAULT_CHAT_SETTINGS.systemPrompt,
+    temperature: number('temperature'),
+    topP: number('topP'),
+    maxTokens: number('maxTokens'),
+    reasoningEffort: raw.reasoningEffort === 'low' || raw.reasoningEffort === 'high' ? raw.reasoningEffort : null,
+  };
+
+  const error = getChatSettingsError(settings);
+  if (error) {
+    throw new Error(`${label} (${entry.name}): ${error}`);
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    name: entry.name.trim(),
+    avatar: typeof entry.avatar === 'string' && entry.avatar.trim() ? entry.avatar.trim() : DEFAULT_PERSONA_AVATAR,
+    model: typeof entry.model === 'string' && entry.model.trim() ? entry.model.trim() : null,
+    settings,
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Parse an exported personas file (or a bare array of personas).
+ * Throws with a readable message if the file can't be used.
+ */
+export function importPersonas(text: string): Persona[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const file = data as Partial<PersonaExport>;
+  const entries = Array.isArray(data) ? data : file?.personas;
+  if (!Array.isArray(entries)) {
+    throw new Error('No personas found in the file');
+  }
+  if (typeof file?.version === 'number' && file.version > EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of Grok Bud');
+  }
+
+  return entries.map(parsePersona);
+}
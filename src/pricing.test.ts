@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GrokApiClient } from './api';
+import {
+  getModelPricing,
+  getPriceVersion,
+  getPricingFetchedAt,
+  getPricingTable,
+  hasPriceVersion,
+  prunePriceVersions,
+  refreshPricing,
+  setPricingOverrides,
+} from './pricing';
+import * as storage from './storage';
+import type { ModelPricing } from './types';
+
+function override(id: string, promptTextTokenPrice: number): ModelPricing {
+  return { id, promptTextTokenPrice, completionTextTokenPrice: 0, promptImageTokenPrice: 0, generatedImageTokenPrice: 0 };
+}
+
+// Only the model-info endpoints refreshPricing reads
+function pricingClient(): GrokApiClient {
+  return {
+    listLanguageModels: vi.fn(async () => ({
+      models: [{
+        id: 'grok-new',
+        aliases: ['grok-new-latest'],
+        prompt_text_token_price: 1000,
+        completion_text_token_price: 2000,
+        prompt_image_token_price: 0,
+      }],
+    })),
+    listImageGenerationModels: vi.fn(async () => ({
+      models: [{ id: 'grok-image-new', input_modalities: ['text'], output_modalities: ['image'], image_price: 500_000_000 }],
+    })),
+  } as unknown as GrokApiClient;
+}
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+describe('pricing table', () => {
+  it('layers live prices and overrides over the built-in prices', async () => {
+    const client = pricingClient();
+    await refreshPricing(client, 'xai');
+    setPricingOverrides('xai', [override('grok-3', 1)]);
+
+    const table = getPricingTable('xai');
+    expect(table.find(p => p.id === 'grok-4')?.source).toBe('builtin');
+    expect(table.find(p => p.id === 'grok-new-latest')).toMatchObject({ source: 'api', promptTextTokenPrice: 1000 });
+    expect(table.find(p => p.id === 'grok-image-new')?.imagePrice).toBe(0.05);
+    expect(table.find(p => p.id === 'grok-3')).toMatchObject({ source: 'override', promptTextTokenPrice: 1 });
+
+    // Fresh prices aren't fetched again unless forced
+    await refreshPricing(client, 'xai');
+    expect(client.listLanguageModels).toHaveBeenCalledTimes(1);
+    await refreshPricing(client, 'xai', true);
+    expect(client.listLanguageModels).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps live prices and overrides per provider', async () => {
+    await refreshPricing(pricingClient(), 'xai');
+    setPricingOverrides('openrouter', [override('grok-3', 1)]);
+
+    expect(getModelPricing('xai', 'grok-new')).not.toBeNull();
+    expect(getModelPricing('openrouter', 'grok-new')).toBeNull();
+    expect(getModelPricing('openrouter', 'grok-3')?.promptTextTokenPrice).toBe(1);
+    expect(getModelPricing('xai', 'grok-3')?.source).toBe('builtin');
+    expect(getPricingFetchedAt('openrouter')).toBe(0);
+  });
+
+  it('moves prices stored before they were per provider to the xAI profile', () => {
+    localStorage.setItem('grok-bud-pricing', JSON.stringify({ live: [], fetchedAt: 123, overrides: [override('grok-3', 7)], versions: [] }));
+
+    expect(getModelPricing('xai', 'grok-3')?.promptTextTokenPrice).toBe(7);
+    expect(getPricingFetchedAt('xai')).toBe(123);
+    expect(getModelPricing('other', 'grok-3')?.source).toBe('builtin');
+  });
+});
+
+describe('price versions', () => {
+  it('looks up a model in the version it was priced with, not the current table', () => {
+    const version = getPriceVersion('xai');
+    setPricingOverrides('xai', [override('grok-3', 1)]);
+
+    expect(getPriceVersion('xai')).not.toBe(version);
+    expect(getModelPricing('xai', 'grok-3', version)?.promptTextTokenPrice).toBe(30000);
+    expect(getModelPricing('xai', 'grok-3')?.promptTextTokenPrice).toBe(1);
+  });
+
+  it('returns null for a version it no longer has instead of the current price', () => {
+    expect(getModelPricing('xai', 'grok-3', 'p-missing')).toBeNull();
+  });
+
+  it('prunes only versions that are neither in use nor current', () => {
+    const inUse = getPriceVersion('xai');
+    setPricingOverrides('xai', [override('grok-3', 1)]);
+    const unused = getPriceVersion('xai');
+    setPricingOverrides('xai', [override('grok-3', 2)]);
+    const current = getPriceVersion('xai');
+
+    prunePriceVersions([inUse]);
+
+    expect(hasPriceVersion(inUse)).toBe(true);
+    expect(hasPriceVersion(unused)).toBe(false);
+    expect(hasPriceVersion(current)).toBe(true);
+  });
+});
+
+describe('usage costs', () => {
+  it('records the provider and price version with each request', () => {
+    storage.recordChatUsage('grok-3', 1_000_000, 0, 1_000_000, 'xai');
+    const [record] = storage.getUsageStats().history;
+
+    expect(record.providerId).toBe('xai');
+    expect(record.priceVersion).toBe(getPriceVersion('xai'));
+    expect(record.estimatedCost).toBeCloseTo(3);
+  });
+
+  it('recomputes with the version each request was priced at and keeps that version', () => {
+    storage.recordChatUsage('grok-3', 1_000_000, 0, 1_000_000, 'xai');
+    const [recorded] = storage.getUsageStats().history;
+    setPricingOverrides('xai', [override('grok-3', 10_000)]);
+
+    const stats = storage.recomputeUsageCosts();
+
+    expect(stats.history[0].priceVersion).toBe(recorded.priceVersion);
+    expect(stats.history[0].estimatedCost).toBeCloseTo(3);
+    expect(stats.totalCost).toBeCloseTo(3);
+  });
+
+  it('compares the history at current prices without changing it', () => {
+    storage.recordChatUsage('grok-3', 1_000_000, 0, 1_000_000, 'xai');
+    storage.recordChatUsage('unknown-model', 1_000_000, 0, 1_000_000, 'xai');
+    setPricingOverrides('xai', [override('grok-3', 10_000)]);
+    const before = storage.getUsageStats();
+
+    expect(storage.estimateUsageAtCurrentPrices()).toEqual({ recorded: before.totalCost, current: 1, unpriced: 1 });
+    expect(storage.getUsageStats()).toEqual(before);
+  });
+});
@@ -0,0 +1,206 @@
+import type { GrokApiClient } from './api';
+import type { ModelPricing } from './types';
+
+/**
+ * Pricing Table
+ * Per-model prices layered as: built-in defaults < live API prices < user overrides.
+ * Live prices and overrides are kept per provider. Every distinct table gets a
+ * version so usage costs can be traced and recomputed.
+ */
+
+const PRICING_KEY = 'grok-bud-pricing';
+const PRICING_TTL_MS = 24 * 60 * 60 * 1000; // Refetch live prices daily
+const LEGACY_PROVIDER_ID = 'xai'; // Owner of prices stored before they were kept per provider
+
+// Fallback prices from the xAI API docs, used until live prices are loaded
+const BUILTIN_PRICING: ModelPricing[] = [
+  { id: 'grok-4', promptTextTokenPrice: 20000, completionTextTokenPrice: 100000, promptImageTokenPrice: 20000, generatedImageTokenPrice: 0 },
+  { id: 'grok-3', promptTextTokenPrice: 30000, completionTextTokenPrice: 150000, promptImageTokenPrice: 0, generatedImageTokenPrice: 0 },
+  { id: 'grok-3-mini', promptTextTokenPrice: 3000, completionTextTokenPrice: 5000, promptImageTokenPrice: 0, generatedImageTokenPrice: 0 },
+  { id: 'grok-imagine-image', promptTextTokenPrice: 0, completionTextTokenPrice: 0, promptImageTokenPrice: 0, generatedImageTokenPrice: 0, imagePrice: 0.07 },
+];
+
+interface ProviderPricing {
+  live: ModelPricing[];
+  fetchedAt: number;
+  overrides: ModelPricing[];
+}
+
+interface PricingStore {
+  providers: Record<string, ProviderPricing>;
+  versions: Array<{ version: string; createdAt: number; models: ModelPricing[] }>;
+}
+
+function loadPricingStore(): PricingStore {
+  try {
+    const stored = localStorage.getItem(PRICING_KEY);
+    if (stored) {
+      const { live, fetchedAt, overrides, ...store } = JSON.parse(stored);
+      const parsed: PricingStore = { providers: {}, versions: [], ...store };
+      // Migrate the single table kept before prices were per provider
+      if (live || overrides) {
+        parsed.providers[LEGACY_PROVIDER_ID] = { live: live || [], fetchedAt: fetchedAt || 0, overrides: overrides || [] };
+      }
+      return parsed;
+    }
+  } catch {
+    // Ignore parse errors
+  }
+  return { providers: {}, versions: [] };
+}
+
+function getProviderPricing(store: PricingStore, providerId: string): ProviderPricing {
+  store.providers[providerId] ??= { live: [], fetchedAt: 0, overrides: [] };
+  return store.providers[providerId];
+}
+
+function savePricingStore(store: PricingStore): void {
+  try {
+    localStorage.setItem(PRICING_KEY, JSON.stringify(store));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+// Short stable hash of the effective table, used as its version
+function hashPricing(models: ModelPricing[]): string {
+  const text = JSON.stringify(models.map(({ source: _source, ...price }) => price));
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `p-${(hash >>> 0).toString(36)}`;
+}
+
+function buildTable(pricing: ProviderPricing | undefined): ModelPricing[] {
+  const table = new Map<string, ModelPricing>();
+  for (const price of BUILTIN_PRICING) table.set(price.id, { ...price, source: 'builtin' });
+  for (const price of pricing?.live || []) table.set(price.id, { ...price, source: 'api' });
+  for (const price of pricing?.overrides || []) table.set(price.id, { ...price, source: 'override' });
+  return Array.from(table.values()).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// Remember a provider's current table under its version (if it's new)
+function recordVersion(store: PricingStore, providerId: string): string {
+  const models = buildTable(store.providers[providerId]);
+  const version = hashPricing(models);
+  if (!store.versions.some(v => v.version === version)) {
+    store.versions = [{ version, createdAt: Date.now(), models }, ...store.versions];
+  }
+  return version;
+}
+
+export function getPricingTable(providerId: string): ModelPricing[] {
+  return buildTable(loadPricingStore().providers[providerId]);
+}
+
+/**
+ * Price for a model in the provider's current table, or in the given version
+ * of a table. Null if nothing is known or the version is gone (no silent fallback).
+ */
+export function getModelPricing(providerId: string, model: string, version?: string): ModelPricing | null {
+  if (version) {
+    const snapshot = loadPricingStore().versions.find(v => v.version === version);
+    return snapshot?.models.find(p => p.id === model) || null;
+  }
+  return getPricingTable(providerId).find(p => p.id === model) || null;
+}
+
+export function hasPriceVersion(version: string): boolean {
+  return loadPricingStore().versions.some(v => v.version === version);
+}
+
+export function getPricingFetchedAt(providerId: string): number {
+  return loadPricingStore().providers[providerId]?.fetchedAt || 0;
+}
+
+/**
+ * Load live prices from the API's model-info endpoints.
+ * Providers without these endpoints keep the built-in prices and overrides.
+ */
+export async function refreshPricing(client: GrokApiClient, providerId: string, force = false): Promise<void> {
+  if (!force && Date.now() - getPricingFetchedAt(providerId) < PRICING_TTL_MS) return;
+
+  const [languageModels, imageModels] = await Promise.all([
+    client.listLanguageModels().catch(() => null),
+    client.listImageGenerationModels().catch(() => null),
+  ]);
+  if (!languageModels && !imageModels) return;
+
+  const live: ModelPricing[] = [];
+  for (const model of languageModels?.models || []) {
+    const price: ModelPricing = {
+      id: model.id,
+      promptTextTokenPrice: model.prompt_text_token_price,
+      completionTextTokenPrice: model.completion_text_token_price,
+      promptImageTokenPrice: model.prompt_image_token_price,
+      generatedImageTokenPrice: 0,
+    };
+    // Aliases (e.g. "grok-4-latest") are billed like the model itself
+    for (const id of [model.id, ...(model.aliases || [])]) {
+      live.push({ ...price, id });
+    }
+  }
+  for (const model of imageModels?.models || []) {
+    const price: ModelPricing = {
+      id: model.id,
+      promptTextTokenPrice: 0,
+      completionTextTokenPrice: 0,
+      promptImageTokenPrice: 0,
+      generatedImageTokenPrice: 0,
+      // Convert from cents per 100M images to dollars per image
+      imagePrice: model.image_price / 100_000_000 / 100,
+    };
+    for (const id of [model.id, ...(model.aliases || [])]) {
+      live.push({ ...price, id });
+    }
+  }
+
+  // Reload the store - another refresh may have saved while this one was waiting
+  const store = loadPricingStore();
+  const pricing = getProviderPricing(store, providerId);
+  pricing.live = live;
+  pricing.fetchedAt = Date.now();
+  recordVersion(store, providerId);
+  savePricingStore(store);
+}
+
+export function getPricingOverrides(providerId: string): ModelPricing[] {
+  return loadPricingStore().providers[providerId]?.overrides || [];
+}
+
+export function setPricingOverrides(providerId: string, overrides: ModelPricing[]): void {
+  const store = loadPricingStore();
+  getProviderPricing(store, providerId).overrides = overrides.map(({ source: _source, ...price }) => price);
+  recordVersion(store, providerId);
+  savePricingStore(store);
+}
+
+/**
+ * Version of the provider's current table, snapshotting it so records can refer to it later
+ */
+export function getPriceVersion(providerId: string): string {
+  const store = loadPricingStore();
+  const count = store.versions.length;
+  const version = recordVersion(store, providerId);
+  if (store.versions.length !== count) {
+    savePricingStore(store);
+  }
+  return version;
+}
+
+/**
+ * Drop old table versions, keeping the ones still in use (by usage records)
+ * and every provider's current table
+ */
+export function prunePriceVersions(inUse: Iterable<string>): void {
+  const store = loadPricingStore();
+  const keep = new Set(inUse);
+  for (const providerId of Object.keys(store.providers)) {
+    keep.add(hashPricing(buildTable(store.providers[providerId])));
+  }
+  const versions = store.versions.filter(v => keep.has(v.version));
+  if (versions.length !== store.versions.length) {
+    savePricingStore({ ...store, versions });
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords, type DiffPart } from './promptEnhancer';
+
+// The text on one side of the diff
+const join = (parts: DiffPart[], skip: DiffPart['type']) => parts.filter(part => part.type !== skip).map(part => part.text).join('');
+
+describe('diffWords', () => {
+  const cases: Array<[string, string]> = [
+    ['a cat on a mat', 'a fluffy cat sitting on a red mat'],
+    ['A red fox', 'A quick brown fox, photorealistic'],
+    ['  leading and trailing  ', 'leading  and\ntrailing'],
+    ['same words', 'same words'],
+    ['', 'all new'],
+    ['all gone', ''],
+  ];
+
+  it.each(cases)('joins back into both texts: %j -> %j', (before, after) => {
+    const parts = diffWords(before, after);
+
+    expect(join(parts, 'added')).toBe(before);
+    expect(join(parts, 'removed')).toBe(after);
+  });
+
+  it('marks inserted and replaced words, merging neighbouring parts', () => {
+    expect(diffWords('a cat on a mat', 'a fluffy cat on a red rug')).toEqual([
+      { type: 'same', text: 'a ' },
+      { type: 'added', text: 'fluffy ' },
+      { type: 'same', text: 'cat on a ' },
+      { type: 'removed', text: 'mat' },
+      { type: 'added', text: 'red rug' },
+    ]);
+  });
+
+  it('treats a change of whitespace as a change', () => {
+    expect(diffWords('a b', 'a  b')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: ' ' },
+      { type: 'added', text: '  ' },
+      { type: 'same', text: 'b' },
+    ]);
+  });
+
+  it('returns no parts for two empty texts', () => {
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import type { GrokApiClient, RequestOptions } from './api';
+
+/**
+ * Prompt Enhancer
+ * Rewrites an image prompt with a chat model, following the user's style
+ * guide, and compares the two versions word by word.
+ */
+
+export const DEFAULT_STYLE_GUIDE = 'Keep the subject and intent of the original. ' +
+  'Add concrete detail about composition, lighting, color palette, mood and medium. ' +
+  'Stay under 80 words.';
+
+const ENHANCE_PROMPT = 'You rewrite prompts for an image generation model. ' +
+  'Reply with the rewritten prompt only: no preamble, no quotes, no lists.';
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Rewrite a prompt following the style guide. Throws if the model gives nothing usable.
+ */
+export async function enhancePrompt(
+  client: GrokApiClient,
+  model: string,
+  prompt: string,
+  styleGuide: string,
+  requestOptions: RequestOptions = {}
+): Promise<string> {
+  const response = await client.chatCompletion(
+    [
+      { role: 'system', content: `${ENHANCE_PROMPT}\n\nStyle guide:\n${styleGuide.trim() || DEFAULT_STYLE_GUIDE}` },
+      { role: 'user', content: prompt },
+    ],
+    model,
+    { temperature: 0.7, max_tokens: 400 },
+    requestOptions
+  );
+
+  // Models sometimes wrap the prompt in quotes anyway
+  const enhanced = (response.choices[0]?.message.content || '').trim().replace(/^["']+|["']+$/g, '').trim();
+  if (!enhanced) {
+    throw new Error('The model returned an empty prompt');
+  }
+  return enhanced;
+}
+
+/**
+ * Word-level diff (longest common subsequence), keeping the whitespace
+ * between words so the parts join back into the original texts
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
@@ -1,17 +1,21 @@
-import type { FavoritePost, AppState, UsageRecord, UsageStats, VideoJob, PostVideo } from './types';
+import type { FavoritePost, AppState, UsageRecord, UsageStats, VideoJob, PostVideo, ProviderProfile, SavedSchema, ChatSettings, Persona, ChatTree, ContextStrategy, PromptTemplate, TemplateKind, ImageBatch } from './types';
+import { getModelPricing, getPriceVersion, hasPriceVersion, prunePriceVersions } from './pricing';
+import { getMessageText } from './messages';
+import { cloneChatTree, createChatTree, getActiveMessages } from './chatTree';
 
 const STORAGE_KEY = 'grok-bud-state';
 
-// Chat model pricing in USD cents per 100 million tokens (from API docs)
-const CHAT_MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
-  'grok-4': { prompt: 20000, completion: 100000 },
-  'grok-3': { prompt: 30000, completion: 150000 },
-  'grok-3-mini': { prompt: 3000, completion: 5000 },
-};
-
-// Image model pricing - flat rate per image in USD (from API docs)
-const IMAGE_PRICING: Record<string, number> = {
-  'grok-imagine-image': 0.07, // $0.07 per image
+// Built-in xAI profile - always present, can be edited but not deleted
+export const DEFAULT_PROVIDER_ID = 'xai';
+
+const DEFAULT_PROVIDER: ProviderProfile = {
+  id: DEFAULT_PROVIDER_ID,
+  name: 'xAI',
+  baseUrl: 'https://api.x.ai/v1',
+  apiKey: null,
+  defaultChatModel: 'grok-3',
+  defaultImageModel: 'grok-imagine-image',
+  defaultVideoModel: 'grok-imagine-video',
 };
 
 export function loadState(): Partial<AppState> {
@@ -106,24 +110,93 @@ export function toggleVideoStar(postId: string, videoId: string): void {
   updateFavorite(postId, { videos });
 }
 
-export function getApiKey(): string | null {
+// ============================================
+// PROVIDER PROFILES
+// ============================================
+
+export function getProviders(): ProviderProfile[] {
+  const state = loadState();
+  const providers = state.providers || [];
+  if (!providers.some(p => p.id === DEFAULT_PROVIDER_ID)) {
+    // Seed the built-in profile, carrying over a key saved before profiles existed
+    providers.unshift({ ...DEFAULT_PROVIDER, apiKey: state.apiKey || null });
+  }
+  return providers;
+}
+
+export function getProvider(id: string): ProviderProfile | undefined {
+  return getProviders().find(p => p.id === id);
+}
+
+export function saveProvider(profile: ProviderProfile): void {
+  const providers = getProviders();
+  const index = providers.findIndex(p => p.id === profile.id);
+  if (index >= 0) {
+    providers[index] = profile;
+  } else {
+    providers.push(profile);
+  }
+  saveState({ providers });
+}
+
+export function removeProvider(id: string): void {
+  if (id === DEFAULT_PROVIDER_ID) return;
+  const providers = getProviders().filter(p => p.id !== id);
+  const state = loadState();
+  saveState({
+    providers,
+    activeProviderId: state.activeProviderId === id ? DEFAULT_PROVIDER_ID : state.activeProviderId,
+  });
+}
+
+export function getActiveProvider(): ProviderProfile {
   const state = loadState();
-  return state.apiKey || null;
+  const providers = getProviders();
+  return providers.find(p => p.id === state.activeProviderId)
+    || providers.find(p => p.id === DEFAULT_PROVIDER_ID)!;
+}
+
+export function setActiveProviderId(id: string): void {
+  saveState({ activeProviderId: id });
+}
+
+// The xAI key (synced to the cloud settings row)
+export function getApiKey(): string | null {
+  return getProvider(DEFAULT_PROVIDER_ID)?.apiKey || null;
 }
 
 export function setApiKey(apiKey: string | null): void {
-  saveState({ apiKey });
+  const provider = getProvider(DEFAULT_PROVIDER_ID)!;
+  saveProvider({ ...provider, apiKey });
 }
 
 export function getSelectedModel(): string {
   const state = loadState();
-  return state.selectedModel || 'grok-3';
+  return state.selectedModel || getActiveProvider().defaultChatModel;
 }
 
 export function setSelectedModel(model: string): void {
   saveState({ selectedModel: model });
 }
 
+export function getSelectedImageModel(): string {
+  const state = loadState();
+  return state.selectedImageModel || getActiveProvider().defaultImageModel;
+}
+
+export function setSelectedImageModel(model: string): void {
+  saveState({ selectedImageModel: model });
+}
+
+export function getSelectedVideoModel(): string {
+  const state = loadState();
+  return state.selectedVideoModel || getActiveProvider().defaultVideoModel;
+}
+
+export function setSelectedVideoModel(model: string): void {
+  saveState({ selectedVideoModel: model });
+}
+
 export function getImageCount(): number {
   const state = loadState();
   return state.imageCount || 1;
@@ -163,12 +236,97 @@ export function setSidebarCollapsed(collapsed: boolean): void {
   saveState({ sidebarCollapsed: collapsed });
 }
 
+export function getRetryGenerations(): boolean {
+  const state = loadState();
+  return state.retryGenerations ?? false;
+}
+
+export function setRetryGenerations(enabled: boolean): void {
+  saveState({ retryGenerations: enabled });
+}
+
+export const DEFAULT_HELPER_MODEL = 'grok-3-mini';
+
+export function getContextStrategy(): ContextStrategy {
+  const state = loadState();
+  return state.contextStrategy || 'summarize';
+}
+
+export function setContextStrategy(strategy: ContextStrategy): void {
+  saveState({ contextStrategy: strategy });
+}
+
+export function getAutoTitleChats(): boolean {
+  const state = loadState();
+  return state.autoTitleChats ?? true;
+}
+
+export function setAutoTitleChats(enabled: boolean): void {
+  saveState({ autoTitleChats: enabled });
+}
+
+export function getHelperModel(): string {
+  const state = loadState();
+  return state.helperModel || DEFAULT_HELPER_MODEL;
+}
+
+export function setHelperModel(model: string): void {
+  saveState({ helperModel: model });
+}
+
+export function getEnhancerModel(): string {
+  const state = loadState();
+  return state.enhancerModel || getHelperModel();
+}
+
+export function setEnhancerModel(model: string): void {
+  saveState({ enhancerModel: model });
+}
+
+export function getPromptStyleGuide(): string {
+  const state = loadState();
+  return state.promptStyleGuide || '';
+}
+
+export function setPromptStyleGuide(styleGuide: string): void {
+  saveState({ promptStyleGuide: styleGuide });
+}
+
+export const DEFAULT_COMPARE_MODELS = ['grok-4', 'grok-3', 'grok-3-mini'];
+
+export function getCompareModels(): string[] {
+  const state = loadState();
+  return state.compareModels || DEFAULT_COMPARE_MODELS;
+}
+
+export function setCompareModels(modelIds: string[]): void {
+  saveState({ compareModels: modelIds });
+}
+
+export function getComparisons(): FavoritePost[] {
+  return getFavorites().filter(f => f.type === 'comparison');
+}
+
+// Batch image generation
+
+export function getImageBatch(): ImageBatch | null {
+  return loadState().imageBatch || null;
+}
+
+export function setImageBatch(batch: ImageBatch | null): void {
+  saveState({ imageBatch: batch });
+}
+
 // Image generation state cache (persists across HMR)
 
 export interface ImageGenCache {
   prompt: string;
+  model?: string;
+  providerId?: string; // Provider that generated the cached results
   results: Array<{ url: string; revised_prompt?: string }>;
   savedUrls: string[];
+  parentPostId?: string; // Gallery post the results were edited from
+  originalPrompt?: string; // Prompt before enhancement, when the results used an enhanced one
 }
 
 export function getImageGenCache(): ImageGenCache | null {
@@ -206,6 +364,37 @@ export function setCurrentChatId(chatId: string | null): void {
   saveState({ currentChatId: chatId });
 }
 
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  systemPrompt: 'You are a helpful assistant.',
+  temperature: null,
+  topP: null,
+  maxTokens: null,
+  reasoningEffort: null,
+};
+
+// Range check for user-entered or imported settings, null if valid
+export function getChatSettingsError(settings: ChatSettings): string | null {
+  const { temperature, topP, maxTokens, reasoningEffort } = settings;
+  if (temperature !== null && !(temperature >= 0 && temperature <= 2)) {
+    return 'Temperature must be between 0 and 2';
+  }
+  if (topP !== null && !(topP >= 0 && topP <= 1)) {
+    return 'Top P must be between 0 and 1';
+  }
+  if (maxTokens !== null && !(Number.isInteger(maxTokens) && maxTokens > 0)) {
+    return 'Max tokens must be a positive whole number';
+  }
+  if (reasoningEffort !== null && reasoningEffort !== 'low' && reasoningEffort !== 'high') {
+    return 'Reasoning effort must be low or high';
+  }
+  return null;
+}
+
+// Chats saved before settings existed use the defaults
+export function getChatSettings(chat?: FavoritePost): ChatSettings {
+  return { ...DEFAULT_CHAT_SETTINGS, ...chat?.chatSettings };
+}
+
 export function getSavedChats(): FavoritePost[] {
   return getFavorites().filter(f => f.type === 'chat');
 }
@@ -214,37 +403,153 @@ export function getChat(id: string): FavoritePost | undefined {
   return getFavorites().find(f => f.id === id && f.type === 'chat');
 }
 
-export function updateChat(id: string, messages: import('./types').GrokMessage[], model: string): void {
+// Chats saved before branching existed only have a flat message list
+export function getChatTree(chat: FavoritePost): ChatTree {
+  return chat.messageTree || createChatTree(chat.messages || []);
+}
+
+export function updateChat(id: string, tree: ChatTree, model: string): void {
   const chat = getChat(id);
   if (chat) {
+    const messages = getActiveMessages(tree);
     const lastUserMsg = [...messages].reverse().find(m => m.role === 'user');
     const lastAssistantMsg = [...messages].reverse().find(m => m.role === 'assistant');
     
     updateFavorite(id, {
       messages,
+      messageTree: tree,
       model,
-      prompt: lastUserMsg?.content || chat.prompt,
-      response: lastAssistantMsg?.content || chat.response,
+      prompt: (lastUserMsg && getMessageText(lastUserMsg)) || chat.prompt,
+      response: (lastAssistantMsg && getMessageText(lastAssistantMsg)) || chat.response,
       updatedAt: Date.now(),
     });
   }
 }
 
-export function createChat(messages: import('./types').GrokMessage[], model: string, title?: string): FavoritePost {
+export function createChat(
+  tree: ChatTree,
+  model: string,
+  title?: string,
+  provider?: Pick<ProviderProfile, 'id' | 'name'>,
+  chatSettings?: ChatSettings
+): FavoritePost {
+  const messages = getActiveMessages(tree);
   const lastUserMsg = [...messages].reverse().find(m => m.role === 'user');
   const lastAssistantMsg = [...messages].reverse().find(m => m.role === 'assistant');
+  const prompt = lastUserMsg ? getMessageText(lastUserMsg) : '';
   
   return addFavorite({
     type: 'chat',
-    title: title || lastUserMsg?.content.slice(0, 50) || 'New Chat',
-    prompt: lastUserMsg?.content || '',
-    response: lastAssistantMsg?.content || '',
-    messages: [...messages],
+    title: title || prompt.slice(0, 50) || 'New Chat',
+    prompt,
+    response: lastAssistantMsg ? getMessageText(lastAssistantMsg) : '',
+    messages,
+    messageTree: cloneChatTree(tree),
+    chatSettings,
     model,
+    providerId: provider?.id,
+    providerName: provider?.name,
     tags: [],
   });
 }
 
+// Structured output schemas
+
+export function getSchemas(): SavedSchema[] {
+  return loadState().schemas || [];
+}
+
+export function getSchema(id: string): SavedSchema | undefined {
+  return getSchemas().find(s => s.id === id);
+}
+
+export function saveSchema(schema: SavedSchema): void {
+  const schemas = getSchemas();
+  const index = schemas.findIndex(s => s.id === schema.id);
+  if (index === -1) {
+    schemas.push(schema);
+  } else {
+    schemas[index] = { ...schema, updatedAt: Date.now() };
+  }
+  saveState({ schemas });
+}
+
+export function removeSchema(id: string): void {
+  const state = loadState();
+  saveState({
+    schemas: getSchemas().filter(s => s.id !== id),
+    activeSchemaId: state.activeSchemaId === id ? null : state.activeSchemaId,
+  });
+}
+
+export function getActiveSchema(): SavedSchema | undefined {
+  const id = loadState().activeSchemaId;
+  return id ? getSchema(id) : undefined;
+}
+
+export function setActiveSchemaId(id: string | null): void {
+  saveState({ activeSchemaId: id });
+}
+
+// Personas
+
+export function getPersonas(): Persona[] {
+  return loadState().personas || [];
+}
+
+export function getPersona(id: string): Persona | undefined {
+  return getPersonas().find(p => p.id === id);
+}
+
+export function savePersona(persona: Persona): void {
+  const personas = getPersonas();
+  const index = personas.findIndex(p => p.id === persona.id);
+  if (index === -1) {
+    personas.push(persona);
+  } else {
+    personas[index] = { ...persona, updatedAt: Date.now() };
+  }
+  saveState({ personas });
+}
+
+export function removePersona(id: string): void {
+  saveState({ personas: getPersonas().filter(p => p.id !== id) });
+}
+
+export function setPersonas(personas: Persona[]): void {
+  saveState({ personas });
+}
+
+// Prompt templates
+
+export function getTemplates(kind?: TemplateKind): PromptTemplate[] {
+  const templates = loadState().templates || [];
+  return kind ? templates.filter(t => t.kind === kind) : templates;
+}
+
+export function getTemplate(id: string): PromptTemplate | undefined {
+  return getTemplates().find(t => t.id === id);
+}
+
+export function saveTemplate(template: PromptTemplate): void {
+  const templates = getTemplates();
+  const index = templates.findIndex(t => t.id === template.id);
+  if (index === -1) {
+    templates.push(template);
+  } else {
+    templates[index] = { ...template, updatedAt: Date.now() };
+  }
+  saveState({ templates });
+}
+
+export function removeTemplate(id: string): void {
+  saveState({ templates: getTemplates().filter(t => t.id !== id) });
+}
+
+export function setTemplates(templates: PromptTemplate[]): void {
+  saveState({ templates });
+}
+
 // Usage tracking functions
 
 export function getUsageStats(): UsageStats {
@@ -259,16 +564,30 @@ export function getUsageStats(): UsageStats {
   };
 }
 
-export function calculateChatCost(model: string, promptTokens: number, completionTokens: number): number {
-  const pricing = CHAT_MODEL_PRICING[model] || CHAT_MODEL_PRICING['grok-3'];
+// Prices come from the given table version, or the provider's current table
+export function calculateChatCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  providerId = getActiveProvider().id,
+  priceVersion?: string
+): number | null {
+  const pricing = getModelPricing(providerId, model, priceVersion);
+  if (!pricing) return null;
   // Convert from cents per 100M tokens to dollars
-  const promptCost = (promptTokens / 100_000_000) * pricing.prompt / 100;
-  const completionCost = (completionTokens / 100_000_000) * pricing.completion / 100;
+  const promptCost = (promptTokens / 100_000_000) * pricing.promptTextTokenPrice / 100;
+  const completionCost = (completionTokens / 100_000_000) * pricing.completionTextTokenPrice / 100;
   return promptCost + completionCost;
 }
 
-export function calculateImageCost(model: string, imageCount: number): number {
-  const pricePerImage = IMAGE_PRICING[model] || IMAGE_PRICING['grok-imagine-image'];
+export function calculateImageCost(
+  model: string,
+  imageCount: number,
+  providerId = getActiveProvider().id,
+  priceVersion?: string
+): number | null {
+  const pricePerImage = getModelPricing(providerId, model, priceVersion)?.imagePrice;
+  if (pricePerImage === undefined) return null;
   return pricePerImage * imageCount;
 }
 
@@ -276,65 +595,131 @@ export function recordChatUsage(
   model: string,
   promptTokens: number,
   completionTokens: number,
-  totalTokens: number
+  totalTokens: number,
+  providerId = getActiveProvider().id
 ): void {
   const stats = getUsageStats();
-  const estimatedCost = calculateChatCost(model, promptTokens, completionTokens);
+  const priceVersion = getPriceVersion(providerId);
+  const cost = calculateChatCost(model, promptTokens, completionTokens, providerId, priceVersion);
 
   const record: UsageRecord = {
     timestamp: Date.now(),
     endpoint: 'chat',
     model,
+    providerId,
     promptTokens,
     completionTokens,
     totalTokens,
-    estimatedCost,
+    estimatedCost: cost ?? 0,
+    priceVersion,
+    unpriced: cost === null,
   };
 
   stats.totalTokens += totalTokens;
-  stats.totalCost += estimatedCost;
+  stats.totalCost += record.estimatedCost;
   stats.requestCount += 1;
   stats.chatTokens += totalTokens;
 
   // Keep last 100 records
   stats.history = [record, ...stats.history].slice(0, 100);
-  saveState({ usage: stats });
+  saveUsageStats(stats);
 }
 
-export function recordImageUsage(model: string, imageCount: number): void {
+export function recordImageUsage(model: string, imageCount: number, providerId = getActiveProvider().id): void {
   const stats = getUsageStats();
-  const estimatedCost = calculateImageCost(model, imageCount);
+  const priceVersion = getPriceVersion(providerId);
+  const cost = calculateImageCost(model, imageCount, providerId, priceVersion);
 
   const record: UsageRecord = {
     timestamp: Date.now(),
     endpoint: 'image',
     model,
+    providerId,
     promptTokens: 0,
     completionTokens: 0,
     totalTokens: 0,
-    estimatedCost,
+    estimatedCost: cost ?? 0,
+    priceVersion,
+    unpriced: cost === null,
     imageCount,
   };
 
-  stats.totalCost += estimatedCost;
+  stats.totalCost += record.estimatedCost;
   stats.requestCount += 1;
   stats.imageCount = (stats.imageCount || 0) + imageCount;
 
   // Keep last 100 records
   stats.history = [record, ...stats.history].slice(0, 100);
+  saveUsageStats(stats);
+}
+
+// Also lets go of price versions no kept record refers to any more
+function saveUsageStats(stats: UsageStats): void {
   saveState({ usage: stats });
+  prunePriceVersions(stats.history.flatMap(record => record.priceVersion ? [record.priceVersion] : []));
+}
+
+// Cost of a record with the given table version, or the provider's current table
+function calculateRecordCost(record: UsageRecord, priceVersion?: string): number | null {
+  const providerId = record.providerId || DEFAULT_PROVIDER_ID; // Recorded before usage was per provider
+  return record.endpoint === 'image'
+    ? calculateImageCost(record.model, record.imageCount || 0, providerId, priceVersion)
+    : calculateChatCost(record.model, record.promptTokens, record.completionTokens, providerId, priceVersion);
+}
+
+/**
+ * Recompute recorded costs with the prices each request was made at. Records
+ * from before price versions existed get the provider's current prices (and
+ * version); records whose version is gone keep their cost.
+ * Only the kept history can be recomputed; older spend stays in the total as-is.
+ */
+export function recomputeUsageCosts(): UsageStats {
+  const stats = getUsageStats();
+
+  stats.history = stats.history.map(record => {
+    if (record.priceVersion && !hasPriceVersion(record.priceVersion)) return record;
+
+    const priceVersion = record.priceVersion || getPriceVersion(record.providerId || DEFAULT_PROVIDER_ID);
+    const cost = calculateRecordCost(record, priceVersion);
+    const estimatedCost = cost ?? 0;
+    stats.totalCost += estimatedCost - record.estimatedCost;
+    return { ...record, estimatedCost, priceVersion, unpriced: cost === null };
+  });
+  stats.totalCost = Math.max(0, stats.totalCost);
+
+  saveUsageStats(stats);
+  return stats;
+}
+
+/**
+ * What the kept history would cost at each provider's current prices.
+ * Nothing is saved - recorded costs and versions stay as they were billed.
+ */
+export function estimateUsageAtCurrentPrices(): { recorded: number; current: number; unpriced: number } {
+  const { history } = getUsageStats();
+  let current = 0;
+  let unpriced = 0;
+  for (const record of history) {
+    const cost = calculateRecordCost(record);
+    if (cost === null) unpriced++;
+    current += cost ?? 0;
+  }
+  return { recorded: history.reduce((total, record) => total + record.estimatedCost, 0), current, unpriced };
+}
+
+export function getUnpricedModels(): string[] {
+  const models = getUsageStats().history.filter(r => r.unpriced).map(r => r.model);
+  return Array.from(new Set(models));
 }
 
 export function resetUsageStats(): void {
-  saveState({
-    usage: {
-      totalTokens: 0,
-      totalCost: 0,
-      chatTokens: 0,
-      imageCount: 0,
-      requestCount: 0,
-      history: [],
-    },
+  saveUsageStats({
+    totalTokens: 0,
+    totalCost: 0,
+    chatTokens: 0,
+    imageCount: 0,
+    requestCount: 0,
+    history: [],
   });
 }
 
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { exportTemplates, fillTemplate, getTemplateVariables, importTemplates } from './templates';
+import type { PromptTemplate } from './types';
+
+describe('getTemplateVariables', () => {
+  it('lists each placeholder once, in the order it first appears', () => {
+    expect(getTemplateVariables('A {animal} in {lighting style}, a { animal } again')).toEqual(['animal', 'lighting style']);
+  });
+
+  it('ignores empty braces and braces across lines', () => {
+    expect(getTemplateVariables('{} { } {split\nname} {{nested}}')).toEqual(['nested']);
+    expect(getTemplateVariables('No placeholders')).toEqual([]);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('fills every occurrence of a variable', () => {
+    expect(fillTemplate('{name} meets {name} at {place}', { name: 'Ada', place: 'noon' })).toBe('Ada meets Ada at noon');
+  });
+
+  it('matches placeholders with spaces around the name', () => {
+    expect(fillTemplate('A { animal }', { animal: 'fox' })).toBe('A fox');
+  });
+
+  it('leaves placeholders without a value as they are', () => {
+    expect(fillTemplate('A {animal} in {place}', { animal: 'fox', place: '' })).toBe('A fox in {place}');
+  });
+});
+
+describe('importTemplates', () => {
+  const template: PromptTemplate = { id: 't1', name: 'Portrait', kind: 'image', text: 'A portrait of {subject}', createdAt: 1 };
+
+  it('reads an exported file as new templates', () => {
+    const [imported] = importTemplates(exportTemplates([template]));
+
+    expect(imported).toMatchObject({ name: 'Portrait', kind: 'image', text: 'A portrait of {subject}' });
+    expect(imported.id).not.toBe('t1');
+  });
+
+  it('accepts a bare array and defaults unknown kinds to chat', () => {
+    const [imported] = importTemplates(JSON.stringify([{ name: ' Summary ', kind: 'video', text: 'Summarize {text}' }]));
+
+    expect(imported).toMatchObject({ name: 'Summary', kind: 'chat' });
+  });
+
+  it('rejects files it cannot use', () => {
+    expect(() => importTemplates('{ not json')).toThrow('not valid JSON');
+    expect(() => importTemplates('{"format":"grok-bud-personas"}')).toThrow('No templates found');
+    expect(() => importTemplates(JSON.stringify({ version: 2, templates: [] }))).toThrow('newer version');
+  });
+
+  it('names the template that is missing a field', () => {
+    expect(() => importTemplates(JSON.stringify([{ name: 'Ok', text: 'x' }, { text: 'y' }]))).toThrow('Template 2 has no name');
+    expect(() => importTemplates(JSON.stringify([{ name: 'Empty', text: '  ' }]))).toThrow('Template 1 (Empty) has no prompt text');
+    expect(() => importTemplates(JSON.stringify([null]))).toThrow('Template 1 has no name');
+  });
+});
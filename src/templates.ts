@@ -0,0 +1,96 @@
+import type { PromptTemplate, TemplateKind } from './types';
+
+/**
+ * Prompt Templates
+ * Reusable prompts with {variable} placeholders, filled in before sending,
+ * and their JSON import/export format. Imports always create new templates.
+ */
+
+const EXPORT_FORMAT = 'grok-bud-templates';
+const EXPORT_VERSION = 1;
+
+// "{subject}" or "{lighting style}" - no braces or line breaks inside
+const VARIABLE_PATTERN = /\{([^{}\n]+)\}/g;
+
+type SharedTemplate = Pick<PromptTemplate, 'name' | 'kind' | 'text'>;
+
+interface TemplateExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  templates: SharedTemplate[];
+}
+
+/**
+ * Variable names in the order they first appear, without duplicates
+ */
+export function getTemplateVariables(text: string): string[] {
+  const names = Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1].trim()).filter(Boolean);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Replace each placeholder with its value. Placeholders without a value are left as they are.
+ */
+export function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[name.trim()];
+    return value ? value : placeholder;
+  });
+}
+
+export function exportTemplates(templates: PromptTemplate[]): string {
+  const file: TemplateExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    templates: templates.map(({ name, kind, text }) => ({ name, kind, text })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function parseTemplate(value: unknown, index: number): PromptTemplate {
+  const entry = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const label = `Template ${index + 1}`;
+
+  if (typeof entry.name !== 'string' || !entry.name.trim()) {
+    throw new Error(`${label} has no name`);
+  }
+  if (typeof entry.text !== 'string' || !entry.text.trim()) {
+    throw new Error(`${label} (${entry.name}) has no prompt text`);
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    name: entry.name.trim(),
+    kind: entry.kind === 'image' ? 'image' : 'chat',
+    text: entry.text,
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Parse an exported templates file (or a bare array of templates).
+ * Throws with a readable message if the file can't be used.
+ */
+export function importTemplates(text: string): PromptTemplate[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const file = data as Partial<TemplateExport>;
+  const entries = Array.isArray(data) ? data : file?.templates;
+  if (!Array.isArray(entries)) {
+    throw new Error('No templates found in the file');
+  }
+  if (typeof file?.version === 'number' && file.version > EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of Grok Bud');
+  }
+
+  return entries.map(parseTemplate);
+}
+
+export function getTemplateKindLabel(kind: TemplateKind): string {
+  return kind === 'image' ? 'Image' : 'Chat';
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GrokApiClient } from './api';
+import { chatWithTools, registerTool } from './tools';
+import type { ChatCompletionResponse, ToolCall } from './types';
+
+const echo = vi.fn(async (args: Record<string, unknown>) => ({ echoed: args.text }));
+registerTool({
+  definition: {
+    type: 'function',
+    function: { name: 'test_echo', description: 'Echo the text', parameters: { type: 'object', properties: { text: { type: 'string' } } } },
+  },
+  label: 'Echo',
+  execute: echo,
+});
+
+function reply(content: string, toolCalls?: ToolCall[]): ChatCompletionResponse {
+  return {
+    id: 'cmpl-1',
+    object: 'chat.completion',
+    created: 1,
+    model: 'grok-3',
+    choices: [{ index: 0, message: { role: 'assistant', content, refusal: null, tool_calls: toolCalls }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+  };
+}
+
+const echoCall: ToolCall = { id: 'call-1', type: 'function', function: { name: 'test_echo', arguments: '{"text":"hi"}' } };
+
+// Client whose streamed replies come from the given function
+function toolClient(respond: (round: number) => ChatCompletionResponse) {
+  let round = 0;
+  const chatCompletionStream = vi.fn<GrokApiClient['chatCompletionStream']>(async () => respond(round++));
+  return { client: { chatCompletionStream } as unknown as GrokApiClient, chatCompletionStream };
+}
+
+afterEach(() => {
+  echo.mockClear();
+});
+
+describe('chatWithTools', () => {
+  it('runs tool calls and feeds the results back until the model answers', async () => {
+    const { client } = toolClient(round => round === 0 ? reply('', [echoCall]) : reply('Done'));
+
+    const added = await chatWithTools(client, [{ role: 'user', content: 'Echo hi' }], 'grok-3');
+
+    expect(echo).toHaveBeenCalledWith({ text: 'hi' }, expect.anything());
+    expect(added.map(m => m.role)).toEqual(['assistant', 'tool', 'assistant']);
+    expect(added[1]).toMatchObject({ tool_call_id: 'call-1', content: '{"echoed":"hi"}' });
+    expect(added[2].content).toBe('Done');
+  });
+
+  it('stops when the model keeps calling tools after running out of rounds', async () => {
+    const { client, chatCompletionStream } = toolClient(() => reply('', [echoCall]));
+
+    const added = await chatWithTools(client, [{ role: 'user', content: 'Echo forever' }], 'grok-3');
+
+    expect(chatCompletionStream).toHaveBeenCalledTimes(6);
+    expect(echo).toHaveBeenCalledTimes(5);
+    expect(chatCompletionStream.mock.calls[5][3]).toMatchObject({ tool_choice: 'none' });
+    const last = added[added.length - 1];
+    expect(last.role).toBe('assistant');
+    expect(last.tool_calls).toBeUndefined();
+    expect(last.content).toContain('too many tool calls');
+  });
+
+  it('sends no tools to models without function calling', async () => {
+    const { client, chatCompletionStream } = toolClient(() => reply('Hello'));
+
+    await chatWithTools(client, [{ role: 'user', content: 'Hi' }], 'some-provider/llama');
+
+    expect(chatCompletionStream.mock.calls[0][3]).not.toHaveProperty('tools');
+  });
+});
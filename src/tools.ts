@@ -0,0 +1,279 @@
+import type { GrokApiClient, RequestOptions } from './api';
+import * as storage from './storage';
+import * as cloudStorage from './cloudStorage';
+import { getModelCapabilities } from './models';
+import type { ChatCompletionRequest, FavoritePost, GrokMessage, ToolCall, ToolDefinition } from './types';
+
+/**
+ * Chat Tools
+ * Local functions the model can call during a chat. Tool calls are run
+ * automatically and their results fed back until the model answers in text.
+ */
+
+const MAX_TOOL_ROUNDS = 5; // Model turns that may call tools before it must answer
+const OUT_OF_ROUNDS_REPLY = 'Stopped after too many tool calls without an answer. Try asking again more specifically.';
+const IMAGE_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+
+export interface ToolContext {
+  client: GrokApiClient;
+  requestOptions: RequestOptions;
+}
+
+// How a finished tool call is shown in the transcript
+export interface ToolResultView {
+  label: string;
+  imageUrls: string[];
+  error: string | null;
+}
+
+export interface ChatTool {
+  definition: ToolDefinition;
+  label: string; // e.g. "Image generation"
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<unknown>;
+  getImageUrls?(result: unknown): string[];
+}
+
+const registry = new Map<string, ChatTool>();
+
+export function registerTool(tool: ChatTool): void {
+  registry.set(tool.definition.function.name, tool);
+}
+
+export function getToolDefinitions(): ToolDefinition[] {
+  return Array.from(registry.values()).map(tool => tool.definition);
+}
+
+/**
+ * Run one tool call, returning the tool message to send back.
+ * Failures are reported to the model as an error result rather than thrown.
+ */
+export async function executeToolCall(call: ToolCall, context: ToolContext): Promise<GrokMessage> {
+  let result: unknown;
+  const tool = registry.get(call.function.name);
+
+  if (!tool) {
+    result = { error: `Unknown tool: ${call.function.name}` };
+  } else {
+    try {
+      const args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+      result = await tool.execute(args, context);
+    } catch (error) {
+      // A cancelled request stops the whole chat turn
+      if (context.requestOptions.signal?.aborted) throw error;
+      result = { error: error instanceof Error ? error.message : 'Tool failed' };
+    }
+  }
+
+  return { role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) };
+}
+
+export interface ToolLoopOptions {
+  onDelta?: (content: string) => void;
+  onToolCall?: (call: ToolCall, tool: ChatTool | undefined) => void;
+  requestOptions?: RequestOptions;
+  completionOptions?: Partial<ChatCompletionRequest>;
+}
+
+/**
+ * Stream a chat completion with the registered tools, running any tool calls
+ * and continuing until the model replies in text (or runs out of rounds).
+ * Models that don't support function calling get no tools. Returns the new
+ * messages (assistant tool calls, tool results and the final reply) in order.
+ */
+export async function chatWithTools(
+  client: GrokApiClient,
+  messages: GrokMessage[],
+  model: string,
+  options: ToolLoopOptions = {}
+): Promise<GrokMessage[]> {
+  const requestOptions = options.requestOptions || {};
+  const added: GrokMessage[] = [];
+  const tools = getModelCapabilities(model).tools ? getToolDefinitions() : [];
+
+  for (let round = 0; ; round++) {
+    const response = await client.chatCompletionStream(
+      [...messages, ...added],
+      model,
+      (_delta, content) => options.onDelta?.(content),
+      {
+        ...options.completionOptions,
+        ...(tools.length > 0 && {
+          tools,
+          // Out of rounds - make the model answer with what it has
+          tool_choice: round < MAX_TOOL_ROUNDS ? 'auto' : 'none',
+        }),
+      },
+      requestOptions
+    );
+
+    const message = response.choices[0]?.message;
+    const toolCalls = message?.tool_calls || [];
+    if (toolCalls.length === 0) {
+      added.push({ role: 'assistant', content: message?.content || 'No response' });
+      return added;
+    }
+
+    // Still calling tools after being told to answer - stop instead of looping
+    if (round >= MAX_TOOL_ROUNDS) {
+      added.push({ role: 'assistant', content: message?.content || OUT_OF_ROUNDS_REPLY });
+      return added;
+    }
+
+    added.push({ role: 'assistant', content: message?.content || '', tool_calls: toolCalls });
+    for (const call of toolCalls) {
+      options.onToolCall?.(call, registry.get(call.function.name));
+      added.push(await executeToolCall(call, { client, requestOptions }));
+    }
+  }
+}
+
+/**
+ * Describe a tool result message for the transcript
+ */
+export function describeToolResult(message: GrokMessage, messages: GrokMessage[]): ToolResultView {
+  const call = messages
+    .flatMap(m => m.tool_calls || [])
+    .find(c => c.id === message.tool_call_id);
+  const tool = call ? registry.get(call.function.name) : undefined;
+
+  let result: unknown = null;
+  try {
+    result = JSON.parse(typeof message.content === 'string' ? message.content : '');
+  } catch {
+    // Not JSON - nothing more to show
+  }
+
+  const error = result && typeof result === 'object' && 'error' in result ? String(result.error) : null;
+  return {
+    label: tool?.label || call?.function.name || 'Tool',
+    imageUrls: !error && tool?.getImageUrls ? tool.getImageUrls(result) : [],
+    error,
+  };
+}
+
+// ============================================
+// BUILT-IN TOOLS
+// ============================================
+
+interface GeneratedImageResult {
+  saved_to_gallery: boolean;
+  images: Array<{ post_id: string; url: string; revised_prompt?: string }>;
+}
+
+registerTool({
+  label: 'Image generation',
+  definition: {
+    type: 'function',
+    function: {
+      name: 'generate_image',
+      description: 'Generate images from a text prompt. The images are saved to the user\'s gallery and shown to them in the chat.',
+      parameters: {
+        type: 'object',
+        properties: {
+          prompt: { type: 'string', description: 'Detailed description of the image to generate' },
+          n: { type: 'integer', minimum: 1, maximum: 4, description: 'Number of images (default 1)' },
+          aspect_ratio: { type: 'string', enum: IMAGE_ASPECT_RATIOS, description: 'Aspect ratio (default 1:1)' },
+        },
+        required: ['prompt'],
+      },
+    },
+  },
+
+  async execute(args, { client, requestOptions }): Promise<GeneratedImageResult> {
+    const prompt = typeof args.prompt === 'string' ? args.prompt.trim() : '';
+    if (!prompt) {
+      throw new Error('prompt is required');
+    }
+    const n = Math.min(4, Math.max(1, Math.floor(Number(args.n) || 1)));
+    const aspectRatio = IMAGE_ASPECT_RATIOS.includes(String(args.aspect_ratio)) ? String(args.aspect_ratio) : '1:1';
+
+    const provider = storage.getActiveProvider();
+    const model = storage.getSelectedImageModel();
+    const response = await client.generateImage(prompt, model, { n, aspect_ratio: aspectRatio }, requestOptions);
+
+    const images: GeneratedImageResult['images'] = [];
+    for (const image of response.data) {
+      if (!image.url) continue;
+      const post = await cloudStorage.addFavoriteToCloud({
+        type: 'image',
+        prompt,
+        response: image.revised_prompt || prompt,
+        imageUrl: image.url,
+        model,
+        providerId: provider.id,
+        providerName: provider.name,
+        tags: [],
+      });
+      images.push({ post_id: post.id, url: image.url, revised_prompt: image.revised_prompt });
+    }
+
+    return { saved_to_gallery: true, images };
+  },
+
+  getImageUrls(result) {
+    return (result as GeneratedImageResult).images?.map(image => image.url) || [];
+  },
+});
+
+interface GallerySearchResult {
+  results: Array<{
+    id: string;
+    type: FavoritePost['type'];
+    title: string;
+    prompt: string;
+    image_url?: string;
+    model: string;
+    created_at: string;
+  }>;
+}
+
+registerTool({
+  label: 'Gallery search',
+  definition: {
+    type: 'function',
+    function: {
+      name: 'search_my_gallery',
+      description: 'Search the user\'s saved images and chats by prompt, title or response text. Newest matches first.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Words to look for. Empty returns the newest posts.' },
+          type: { type: 'string', enum: ['image', 'chat', 'any'], description: 'Kind of post (default any)' },
+          limit: { type: 'integer', minimum: 1, maximum: 20, description: 'Maximum results (default 5)' },
+        },
+        required: [],
+      },
+    },
+  },
+
+  async execute(args): Promise<GallerySearchResult> {
+    const terms = String(args.query || '').toLowerCase().split(/\s+/).filter(Boolean);
+    const type = args.type === 'image' || args.type === 'chat' ? args.type : null;
+    const limit = Math.min(20, Math.max(1, Math.floor(Number(args.limit) || 5)));
+
+    const results = storage.getFavorites()
+      .filter(post => !type || post.type === type)
+      .filter(post => {
+        const text = [post.title, post.prompt, post.response, ...post.tags].join(' ').toLowerCase();
+        return terms.every(term => text.includes(term));
+      })
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, limit);
+
+    return {
+      results: results.map(post => ({
+        id: post.id,
+        type: post.type,
+        title: post.title || post.prompt.slice(0, 50),
+        prompt: post.prompt,
+        image_url: post.imageUrl,
+        model: post.model,
+        created_at: new Date(post.createdAt).toISOString(),
+      })),
+    };
+  },
+
+  getImageUrls(result) {
+    return (result as GallerySearchResult).results?.flatMap(post => post.image_url ? [post.image_url] : []) || [];
+  },
+});
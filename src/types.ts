@@ -1,41 +1,162 @@
+import type { ApiErrorKind } from './errors';
+
 // Grok API Types
 
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageContentPart {
+  type: 'image_url';
+  image_url: {
+    url: string; // https URL or base64 data URL
+    detail?: 'auto' | 'low' | 'high';
+  };
+}
+
+export type MessageContentPart = TextContentPart | ImageContentPart;
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string; // JSON-encoded arguments
+  };
+}
+
 export interface GrokMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | MessageContentPart[]; // Parts for multimodal (vision) messages
+  tool_calls?: ToolCall[]; // Assistant message asking for local tools to run
+  tool_call_id?: string; // Tool message answering this call
+  meta?: MessageMeta; // App-only data, stripped before sending to the API
+}
+
+export interface MessageMeta {
+  schema?: {
+    id: string;
+    name: string;
+    errors: string[]; // Validation errors, empty when the reply matches the schema
+  };
+}
+
+// One message in a branching chat. Siblings are alternative versions of the same turn.
+export interface ChatNode {
+  id: string;
+  parentId: string | null;
+  message: GrokMessage;
+  childIds: string[]; // Oldest first
+  activeChildId: string | null; // Branch followed from here
+  summary?: string; // Summary of the conversation up to and including this message
+}
+
+export interface ChatTree {
+  nodes: Record<string, ChatNode>;
+  rootIds: string[]; // Alternative first messages
+  activeRootId: string | null;
 }
 
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      json_schema: {
+        name: string; // Letters, digits, underscores and dashes
+        schema: Record<string, unknown>;
+        strict?: boolean;
+      };
+    };
+
+// Function tool offered to the model (parameters is a JSON schema)
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export type ReasoningEffort = 'low' | 'high';
+
+// How older turns are kept out of requests once a chat outgrows the model's context window
+export type ContextStrategy = 'truncate' | 'summarize';
+
 export interface ChatCompletionRequest {
   model: string;
   messages: GrokMessage[];
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
   temperature?: number;
+  top_p?: number;
   max_tokens?: number;
+  reasoning_effort?: ReasoningEffort; // Reasoning models only
+  tools?: ToolDefinition[];
+  tool_choice?: 'auto' | 'none' | 'required';
+  response_format?: ResponseFormat;
 }
 
 export interface ChatCompletionChoice {
   index: number;
   message: {
     role: string;
-    content: string;
+    content: string | null; // null when the model only calls tools
     refusal: string | null;
+    tool_calls?: ToolCall[];
   };
   finish_reason: string;
 }
 
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
 export interface ChatCompletionResponse {
   id: string;
   object: string;
   created: number;
   model: string;
   choices: ChatCompletionChoice[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
+  usage: ChatCompletionUsage;
+}
+
+// Streaming (SSE) chunk types
+
+// Partial tool call - fragments with the same index are concatenated
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
   };
 }
 
+export interface ChatCompletionChunkChoice {
+  index: number;
+  delta: {
+    role?: string;
+    content?: string;
+    tool_calls?: ToolCallDelta[];
+  };
+  finish_reason: string | null;
+}
+
+export interface ChatCompletionChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: ChatCompletionChunkChoice[];
+  usage?: ChatCompletionUsage | null; // Present on the final chunk
+}
+
 export interface ImageGenerationRequest {
   prompt: string;
   model: string;
@@ -44,6 +165,11 @@ export interface ImageGenerationRequest {
   aspect_ratio?: string; // e.g., "1:1", "16:9", "9:16", "4:3", "3:4"
 }
 
+// Edits and variations of an existing image
+export interface ImageEditRequest extends ImageGenerationRequest {
+  image: { url: string; type: 'image_url' }; // Public URL or data: URL of the source image
+}
+
 export interface GeneratedImage {
   url?: string;
   b64_json?: string;
@@ -79,19 +205,51 @@ export interface VideoStatusResponse {
 export interface VideoJob {
   id: string; // request_id from API
   postId: string; // The post this video is for
+  providerId?: string; // Provider the job was started on (polled through the same one)
   prompt: string;
   duration: number;
   status: 'pending' | 'done' | 'error';
   videoUrl?: string;
   errorMessage?: string;
+  errorKind?: ApiErrorKind; // Lets views render type-specific help (e.g. add funds)
   startedAt: number;
   completedAt?: number;
 }
 
+// One prompt in a batch image generation run
+export interface ImageBatchItem {
+  id: string;
+  prompt: string;
+  aspectRatio: string;
+  count: number; // Images to generate (1-4)
+  status: 'queued' | 'running' | 'done' | 'error';
+  images: ImageBatchResult[];
+  errorMessage?: string;
+}
+
+export interface ImageBatchResult {
+  url: string;
+  revisedPrompt?: string;
+  postId?: string; // Set once saved to the gallery
+}
+
+// Prompts generated one after another through a throttled queue
+export interface ImageBatch {
+  id: string;
+  model: string;
+  providerId: string;
+  autoSave: boolean; // Save every image to the gallery as it arrives
+  status: 'running' | 'paused' | 'done';
+  pauseReason?: string; // Why the queue paused itself (e.g. out of credits)
+  items: ImageBatchItem[];
+  createdAt: number;
+}
+
 // Video generation stored on a post
 export interface PostVideo {
   id: string;
   url: string;
+  path?: string; // Copy in the media storage bucket
   prompt: string;
   duration: number;
   starred: boolean;
@@ -110,18 +268,136 @@ export interface ModelsResponse {
   object: string;
 }
 
+// Detailed model info (xAI /language-models and /image-generation-models)
+export interface LanguageModelInfo {
+  id: string;
+  input_modalities: string[];
+  output_modalities: string[];
+  prompt_text_token_price: number; // USD cents per 100M tokens
+  completion_text_token_price: number;
+  prompt_image_token_price: number;
+  aliases?: string[];
+}
+
+export interface LanguageModelsResponse {
+  models: LanguageModelInfo[];
+}
+
+export interface ImageGenerationModelInfo {
+  id: string;
+  input_modalities: string[];
+  output_modalities: string[];
+  image_price: number; // USD cents per 100M images
+  aliases?: string[];
+}
+
+export interface ImageGenerationModelsResponse {
+  models: ImageGenerationModelInfo[];
+}
+
+// Model capability registry
+
+export type ModelKind = 'chat' | 'image' | 'video';
+export type Modality = 'text' | 'image' | 'video';
+
+export interface ModelCapabilities {
+  id: string;
+  label: string; // Display name for selectors
+  kind: ModelKind;
+  inputModalities: Modality[];
+  outputModalities: Modality[];
+  contextWindow: number; // Max tokens (prompt + completion), 0 for media models
+  reasoning: boolean; // Supports reasoning / thinking
+  tools: boolean; // Supports function calling
+  pricing: ModelPricing | null; // From the live pricing table, null if unknown
+  known: boolean; // false when inferred from the model id
+}
+
 // App-specific types
 
+// An OpenAI-compatible API endpoint with its own key and default models
+export interface ProviderProfile {
+  id: string;
+  name: string;
+  baseUrl: string; // e.g. "https://api.x.ai/v1"
+  apiKey: string | null;
+  defaultChatModel: string;
+  defaultImageModel: string;
+  defaultVideoModel: string;
+}
+
+// Per-chat generation settings (null = API default)
+export interface ChatSettings {
+  systemPrompt: string;
+  temperature: number | null;
+  topP: number | null;
+  maxTokens: number | null;
+  reasoningEffort: ReasoningEffort | null;
+}
+
+// Named assistant with its own system prompt, model and parameters
+export interface Persona {
+  id: string;
+  name: string;
+  avatar: string; // Emoji or short text
+  model: string | null; // null = keep the selected chat model
+  settings: ChatSettings;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+export type TemplateKind = 'chat' | 'image';
+
+// Reusable prompt with {variable} placeholders
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  kind: TemplateKind; // Where it is offered: the chat input or image generation
+  text: string;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// One model's answer in a side-by-side comparison
+export interface ComparisonAnswer {
+  model: string;
+  content: string;
+  error?: string; // Request failed - content is empty
+  latencyMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null; // USD, null when the model has no known price
+  votes: number;
+}
+
+// The same prompt sent to several chat models at once
+export interface Comparison {
+  prompt: string;
+  systemPrompt: string;
+  answers: ComparisonAnswer[]; // In the order the models were picked
+  winner: string | null; // Model of the picked answer
+}
+
 export interface FavoritePost {
   id: string;
-  type: 'chat' | 'image';
+  type: 'chat' | 'image' | 'comparison';
   title?: string; // Display title for chats
+  pinned?: boolean; // Chats kept at the top of the history list
+  folder?: string; // User folder a chat is filed in
   prompt: string;
   response: string;
-  messages?: GrokMessage[]; // Full chat history for chat type
+  messages?: GrokMessage[]; // Active branch of the chat, for chat type
+  messageTree?: ChatTree; // Every branch of the chat (older chats only have messages)
+  chatSettings?: ChatSettings; // System prompt and generation parameters for chat type
+  comparison?: Comparison; // Every answer, for comparison type
   imageUrl?: string;
+  imagePath?: string; // Copy of the image in the media storage bucket
+  parentPostId?: string; // Post whose image this one was edited from
+  originalPrompt?: string; // What the user wrote, when prompt is an enhanced rewrite of it
   videos?: PostVideo[]; // Generated videos for this post
   model: string;
+  providerId?: string; // Provider profile that produced this post
+  providerName?: string; // Kept for display if the profile is later deleted
   createdAt: number;
   updatedAt?: number; // Track last update for chats
   tags: string[];
@@ -131,10 +407,13 @@ export interface UsageRecord {
   timestamp: number;
   endpoint: 'chat' | 'image';
   model: string;
+  providerId?: string; // Missing on records from before usage was per provider (the xAI profile)
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
   estimatedCost: number; // in USD
+  priceVersion?: string; // Pricing table version the cost was computed with
+  unpriced?: boolean; // No price known for the model - cost counted as 0
   imageCount?: number; // for image generation
 }
 
@@ -153,20 +432,47 @@ export interface ModelPricing {
   completionTextTokenPrice: number;
   promptImageTokenPrice: number;
   generatedImageTokenPrice: number;
+  imagePrice?: number; // USD per generated image (image models)
+  source?: 'builtin' | 'api' | 'override';
+}
+
+// Reusable JSON schema for structured chat output
+export interface SavedSchema {
+  id: string;
+  name: string;
+  schema: Record<string, unknown>;
+  createdAt: number;
+  updatedAt?: number;
 }
 
 export interface AppState {
   favorites: FavoritePost[];
-  currentView: 'gallery' | 'chat' | 'image-gen' | 'settings' | 'post';
-  apiKey: string | null;
+  currentView: 'gallery' | 'chat' | 'compare' | 'image-gen' | 'settings' | 'post';
+  apiKey: string | null; // Legacy single xAI key, migrated into the default provider
+  providers: ProviderProfile[];
+  activeProviderId: string | null;
   selectedModel: string;
+  selectedImageModel: string;
+  selectedVideoModel: string;
   imageCount: number;
   aspectRatio: string; // e.g., "1:1", "16:9", "9:16", "4:3", "3:4"
   galleryColumns: number;
   sidebarCollapsed: boolean;
   isLoading: boolean;
+  retryGenerations: boolean; // Auto-retry paid generation calls on 408/429/503
+  contextStrategy: ContextStrategy;
+  autoTitleChats: boolean; // Name new chats after their first exchange
+  helperModel: string; // Cheap model for chat titles and summaries of older turns
+  enhancerModel: string; // Chat model that rewrites image prompts
+  promptStyleGuide: string; // Instructions for the prompt enhancer, empty = built-in guide
+  compareModels: string[]; // Models picked in the compare view
   usage: UsageStats;
   currentChatId: string | null; // null = new unsaved chat
+  schemas: SavedSchema[];
+  personas: Persona[];
+  templates: PromptTemplate[];
+  activeSchemaId: string | null; // Schema chat replies must follow, null = free text
   currentPostId: string | null; // For viewing individual posts
   videoJobs: VideoJob[]; // Background video generation jobs
+  imageBatch: ImageBatch | null; // Latest batch image generation run
 }
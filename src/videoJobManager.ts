@@ -1,6 +1,7 @@
-import { grokApi } from './api';
+import { grokApi, getApiClient, type GrokApiClient } from './api';
 import * as storage from './storage';
 import * as cloudStorage from './cloudStorage';
+import { ApiError } from './errors';
 import type { VideoJob } from './types';
 
 type JobUpdateCallback = (job: VideoJob) => void;
@@ -14,6 +15,7 @@ class VideoJobManager {
   private pollingIntervalMs = 5000; // 5 seconds
   private maxAttempts = 120; // 10 minutes max (120 * 5s)
   private attemptCounts: Map<string, number> = new Map();
+  private inFlightJobs: Set<string> = new Set(); // Jobs with a status request (and its retries) running
   private onUpdateCallbacks: Set<JobUpdateCallback> = new Set();
 
   /**
@@ -66,37 +68,48 @@ class VideoJobManager {
   }
 
   /**
-   * Start a new video generation job
+   * Start a new video generation job.
+   * Throws the API error if the job could not be created.
    */
-  async startJob(postId: string, prompt: string, imageUrl: string, duration: number): Promise<VideoJob | null> {
+  async startJob(
+    postId: string,
+    prompt: string,
+    imageUrl: string,
+    duration: number,
+    model?: string
+  ): Promise<VideoJob> {
+    const provider = storage.getActiveProvider();
+    let response;
     try {
-      const response = await grokApi.generateVideo(prompt, {
+      response = await getApiClient(provider).generateVideo(prompt, {
+        model: model || provider.defaultVideoModel,
         image: { url: imageUrl },
         duration
       });
-
-      const job: VideoJob = {
-        id: response.request_id,
-        postId,
-        prompt,
-        duration,
-        status: 'pending',
-        startedAt: Date.now()
-      };
-
-      storage.addVideoJob(job);
-      this.attemptCounts.set(job.id, 0);
-      
-      console.log('[VideoJobManager] Started job:', job.id);
-      
-      // Immediately poll this job
-      this.pollJob(job);
-      
-      return job;
     } catch (error) {
       console.error('[VideoJobManager] Failed to start job:', error);
-      return null;
+      throw error;
     }
+
+    const job: VideoJob = {
+      id: response.request_id,
+      postId,
+      providerId: provider.id,
+      prompt,
+      duration,
+      status: 'pending',
+      startedAt: Date.now()
+    };
+
+    storage.addVideoJob(job);
+    this.attemptCounts.set(job.id, 0);
+    
+    console.log('[VideoJobManager] Started job:', job.id);
+    
+    // Immediately poll this job
+    this.pollJob(job);
+    
+    return job;
   }
 
   /**
@@ -117,6 +130,21 @@ class VideoJobManager {
    * Poll a single job for status
    */
   private async pollJob(job: VideoJob): Promise<void> {
+    // Status requests retry with backoff, so skip jobs still waiting on a previous poll
+    if (this.inFlightJobs.has(job.id)) return;
+
+    this.inFlightJobs.add(job.id);
+    try {
+      await this.checkJobStatus(job);
+    } finally {
+      this.inFlightJobs.delete(job.id);
+    }
+  }
+
+  /**
+   * Fetch a job's status and record the result
+   */
+  private async checkJobStatus(job: VideoJob): Promise<void> {
     const attempts = this.attemptCounts.get(job.id) || 0;
 
     if (attempts >= this.maxAttempts) {
@@ -125,6 +153,7 @@ class VideoJobManager {
         ...job,
         status: 'error',
         errorMessage: 'Video generation timed out',
+        errorKind: 'timeout',
         completedAt: Date.now()
       };
       storage.updateVideoJob(job.id, updatedJob);
@@ -135,7 +164,7 @@ class VideoJobManager {
     }
 
     try {
-      const status = await grokApi.getVideoStatus(job.id);
+      const status = await this.getClientForJob(job).getVideoStatus(job.id);
       console.log('[VideoJobManager] Status response for', job.id, ':', JSON.stringify(status));
       this.attemptCounts.set(job.id, attempts + 1);
 
@@ -171,11 +200,12 @@ class VideoJobManager {
       const errorCount = (this.attemptCounts.get(job.id + '_errors') || 0) + 1;
       this.attemptCounts.set(job.id + '_errors', errorCount);
 
-      if (errorCount >= 3) {
+      if (errorCount >= 3 || this.isFatalError(error)) {
         const updatedJob: VideoJob = {
           ...job,
           status: 'error',
           errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          errorKind: error instanceof ApiError ? error.kind : 'unknown',
           completedAt: Date.now()
         };
         storage.updateVideoJob(job.id, updatedJob);
@@ -186,6 +216,22 @@ class VideoJobManager {
     }
   }
 
+  /**
+   * Client for the provider a job was started on
+   */
+  private getClientForJob(job: VideoJob): GrokApiClient {
+    const provider = job.providerId ? storage.getProvider(job.providerId) : undefined;
+    return provider ? getApiClient(provider) : grokApi;
+  }
+
+  /**
+   * Errors that polling again won't fix (bad key, no credits, unknown job)
+   */
+  private isFatalError(error: unknown): boolean {
+    if (!(error instanceof ApiError)) return false;
+    return error.kind === 'auth' || error.kind === 'quota' || error.kind === 'validation';
+  }
+
   /**
    * Get the current job for a post (if any)
    */
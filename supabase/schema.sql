@@ -8,12 +8,23 @@ create extension if not exists "uuid-ossp";
 create table public.posts (
   id uuid primary key default uuid_generate_v4(),
   user_id uuid references auth.users(id) on delete cascade not null,
-  type text not null check (type in ('image', 'chat')),
+  type text not null check (type in ('image', 'chat', 'comparison')),
+  title text, -- Chat title (chats only)
+  pinned boolean default false not null, -- Pinned in the chat history list
+  folder text, -- User folder (chats only)
   prompt text not null,
   model text not null,
   image_url text,
+  image_path text, -- Copy of the image in the media storage bucket
+  parent_post_id uuid, -- Post this image was edited from (no foreign key: the parent may be deleted or synced later)
+  original_prompt text, -- The user's prompt when prompt holds an enhanced rewrite of it
   response text,
   videos jsonb default '[]'::jsonb,
+  provider_id text, -- Provider profile that produced the post (e.g. 'xai')
+  provider_name text,
+  chat_settings jsonb, -- System prompt and generation parameters (chats only)
+  message_tree jsonb, -- Every message branch (chats only)
+  comparison jsonb, -- Prompt, answers and votes (comparisons only)
   created_at timestamp with time zone default now() not null
 );
 
@@ -37,14 +48,41 @@ create table public.usage_stats (
   updated_at timestamp with time zone default now() not null
 );
 
+-- Personas table (reusable assistants)
+create table public.personas (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid references auth.users(id) on delete cascade not null,
+  name text not null,
+  avatar text default '🤖' not null,
+  model text, -- null = use the selected chat model
+  settings jsonb default '{}'::jsonb not null, -- System prompt and generation parameters
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null
+);
+
+-- Prompt templates table (reusable prompts with {variable} placeholders)
+create table public.prompt_templates (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid references auth.users(id) on delete cascade not null,
+  name text not null,
+  kind text not null check (kind in ('chat', 'image')),
+  text text not null,
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null
+);
+
 -- Indexes for performance
 create index posts_user_id_idx on public.posts(user_id);
 create index posts_created_at_idx on public.posts(created_at desc);
+create index personas_user_id_idx on public.personas(user_id);
+create index prompt_templates_user_id_idx on public.prompt_templates(user_id);
 
 -- Row Level Security (RLS) - users can only access their own data
 alter table public.posts enable row level security;
 alter table public.settings enable row level security;
 alter table public.usage_stats enable row level security;
+alter table public.personas enable row level security;
+alter table public.prompt_templates enable row level security;
 
 -- RLS Policies for posts
 create policy "Users can view own posts" on public.posts
@@ -79,6 +117,51 @@ create policy "Users can insert own usage" on public.usage_stats
 create policy "Users can update own usage" on public.usage_stats
   for update using (auth.uid() = user_id);
 
+-- RLS Policies for personas
+create policy "Users can view own personas" on public.personas
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own personas" on public.personas
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own personas" on public.personas
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete own personas" on public.personas
+  for delete using (auth.uid() = user_id);
+
+-- RLS Policies for prompt_templates
+create policy "Users can view own templates" on public.prompt_templates
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own templates" on public.prompt_templates
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own templates" on public.prompt_templates
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete own templates" on public.prompt_templates
+  for delete using (auth.uid() = user_id);
+
+-- Storage bucket for saved images and videos (private, read through signed URLs).
+-- Each user has a folder named after their id: <user_id>/images/<post_id>.jpg, <user_id>/videos/<video_id>.mp4
+insert into storage.buckets (id, name, public)
+  values ('media', 'media', false)
+  on conflict (id) do nothing;
+
+-- RLS Policies for media files - the first folder of the path must be the user's id
+create policy "Users can view own media" on storage.objects
+  for select using (bucket_id = 'media' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload own media" on storage.objects
+  for insert with check (bucket_id = 'media' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can update own media" on storage.objects
+  for update using (bucket_id = 'media' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete own media" on storage.objects
+  for delete using (bucket_id = 'media' and (storage.foldername(name))[1] = auth.uid()::text);
+
 -- Function to auto-create settings and usage_stats on user signup
 create or replace function public.handle_new_user()
 returns trigger as $$
@@ -93,3 +176,42 @@ $$ language plpgsql security definer;
 create trigger on_auth_user_created
   after insert on auth.users
   for each row execute procedure public.handle_new_user();
+
+-- ============================================
+-- MIGRATIONS (for databases created from an earlier version of this file)
+-- ============================================
+
+-- Provider profiles
+alter table public.posts add column if not exists provider_id text;
+alter table public.posts add column if not exists provider_name text;
+
+-- Per-chat generation settings
+alter table public.posts add column if not exists chat_settings jsonb;
+
+-- Personas (new table - run the personas table, index, RLS and policy statements above)
+
+-- Branching chats
+alter table public.posts add column if not exists message_tree jsonb;
+
+-- Chat titles
+alter table public.posts add column if not exists title text;
+
+-- Chat history pins and folders
+alter table public.posts add column if not exists pinned boolean default false not null;
+alter table public.posts add column if not exists folder text;
+
+-- Model comparisons
+alter table public.posts drop constraint if exists posts_type_check;
+alter table public.posts add constraint posts_type_check check (type in ('image', 'chat', 'comparison'));
+alter table public.posts add column if not exists comparison jsonb;
+
+-- Prompt templates (new table - run the prompt_templates table, index, RLS and policy statements above)
+
+-- Media storage (new bucket - run the storage bucket and policy statements above)
+alter table public.posts add column if not exists image_path text;
+
+-- Image edits
+alter table public.posts add column if not exists parent_post_id uuid;
+
+-- Prompt enhancer
+alter table public.posts add column if not exists original_prompt text;
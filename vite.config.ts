@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import { resolve } from 'path'
 
@@ -16,5 +17,10 @@ export default defineConfig({
   build: {
     outDir: 'dist',
     sourcemap: true
+  },
+  test: {
+    // Browser globals (localStorage, DOM) for the storage-backed modules
+    environment: 'happy-dom',
+    include: ['src/**/*.test.ts']
   }
 })